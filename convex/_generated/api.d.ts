@@ -8,7 +8,62 @@
  * @module
  */
 
+import type * as analytics from "../analytics.js";
+import type * as apiKeys from "../apiKeys.js";
+import type * as archiveRows from "../archiveRows.js";
+import type * as archives from "../archives.js";
+import type * as auth from "../auth.js";
+import type * as batches from "../batches.js";
+import type * as collections from "../collections.js";
+import type * as crons from "../crons.js";
+import type * as http from "../http.js";
+import type * as imageProcessing from "../imageProcessing.js";
 import type * as images from "../images.js";
+import type * as lib_analytics from "../lib/analytics.js";
+import type * as lib_apiKeys from "../lib/apiKeys.js";
+import type * as lib_archive from "../lib/archive.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lib_batch from "../lib/batch.js";
+import type * as lib_collections from "../lib/collections.js";
+import type * as lib_crc32 from "../lib/crc32.js";
+import type * as lib_crypto from "../lib/crypto.js";
+import type * as lib_dedupe from "../lib/dedupe.js";
+import type * as lib_gallery from "../lib/gallery.js";
+import type * as lib_generation from "../lib/generation.js";
+import type * as lib_jobs from "../lib/jobs.js";
+import type * as lib_moderation from "../lib/moderation.js";
+import type * as lib_openapi from "../lib/openapi.js";
+import type * as lib_outputs from "../lib/outputs.js";
+import type * as lib_parameters from "../lib/parameters.js";
+import type * as lib_png from "../lib/png.js";
+import type * as lib_pricing from "../lib/pricing.js";
+import type * as lib_providers_fal from "../lib/providers/fal.js";
+import type * as lib_providers_huggingface from "../lib/providers/huggingface.js";
+import type * as lib_providers_index from "../lib/providers/index.js";
+import type * as lib_providers_mock from "../lib/providers/mock.js";
+import type * as lib_providers_types from "../lib/providers/types.js";
+import type * as lib_ratings from "../lib/ratings.js";
+import type * as lib_retry from "../lib/retry.js";
+import type * as lib_shares from "../lib/shares.js";
+import type * as lib_sources from "../lib/sources.js";
+import type * as lib_templates from "../lib/templates.js";
+import type * as lib_trash from "../lib/trash.js";
+import type * as lib_uploads from "../lib/uploads.js";
+import type * as lib_upscale from "../lib/upscale.js";
+import type * as lib_usage from "../lib/usage.js";
+import type * as lib_webhooks from "../lib/webhooks.js";
+import type * as lib_zip from "../lib/zip.js";
+import type * as migrations from "../migrations.js";
+import type * as providers from "../providers.js";
+import type * as ratings from "../ratings.js";
+import type * as reaper from "../reaper.js";
+import type * as rest from "../rest.js";
+import type * as shares from "../shares.js";
+import type * as templates from "../templates.js";
+import type * as trash from "../trash.js";
+import type * as usage from "../usage.js";
+import type * as users from "../users.js";
+import type * as workspaces from "../workspaces.js";
 
 import type {
   ApiFromModules,
@@ -17,7 +72,62 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  analytics: typeof analytics;
+  apiKeys: typeof apiKeys;
+  archiveRows: typeof archiveRows;
+  archives: typeof archives;
+  auth: typeof auth;
+  batches: typeof batches;
+  collections: typeof collections;
+  crons: typeof crons;
+  http: typeof http;
+  imageProcessing: typeof imageProcessing;
   images: typeof images;
+  "lib/analytics": typeof lib_analytics;
+  "lib/apiKeys": typeof lib_apiKeys;
+  "lib/archive": typeof lib_archive;
+  "lib/auth": typeof lib_auth;
+  "lib/batch": typeof lib_batch;
+  "lib/collections": typeof lib_collections;
+  "lib/crc32": typeof lib_crc32;
+  "lib/crypto": typeof lib_crypto;
+  "lib/dedupe": typeof lib_dedupe;
+  "lib/gallery": typeof lib_gallery;
+  "lib/generation": typeof lib_generation;
+  "lib/jobs": typeof lib_jobs;
+  "lib/moderation": typeof lib_moderation;
+  "lib/openapi": typeof lib_openapi;
+  "lib/outputs": typeof lib_outputs;
+  "lib/parameters": typeof lib_parameters;
+  "lib/png": typeof lib_png;
+  "lib/pricing": typeof lib_pricing;
+  "lib/providers/fal": typeof lib_providers_fal;
+  "lib/providers/huggingface": typeof lib_providers_huggingface;
+  "lib/providers/index": typeof lib_providers_index;
+  "lib/providers/mock": typeof lib_providers_mock;
+  "lib/providers/types": typeof lib_providers_types;
+  "lib/ratings": typeof lib_ratings;
+  "lib/retry": typeof lib_retry;
+  "lib/shares": typeof lib_shares;
+  "lib/sources": typeof lib_sources;
+  "lib/templates": typeof lib_templates;
+  "lib/trash": typeof lib_trash;
+  "lib/uploads": typeof lib_uploads;
+  "lib/upscale": typeof lib_upscale;
+  "lib/usage": typeof lib_usage;
+  "lib/webhooks": typeof lib_webhooks;
+  "lib/zip": typeof lib_zip;
+  migrations: typeof migrations;
+  providers: typeof providers;
+  ratings: typeof ratings;
+  reaper: typeof reaper;
+  rest: typeof rest;
+  shares: typeof shares;
+  templates: typeof templates;
+  trash: typeof trash;
+  usage: typeof usage;
+  users: typeof users;
+  workspaces: typeof workspaces;
 }>;
 
 /**
@@ -0,0 +1,65 @@
+import { internalMutationGeneric, makeFunctionReference, queryGeneric } from "convex/server";
+import { v } from "convex/values";
+import {
+  MAX_WINDOW_DAYS,
+  ownerDayRange,
+  recordOutcome,
+  summarizeStats,
+  windowDays,
+} from "./lib/analytics";
+import { requireUserId } from "./lib/auth";
+import { isActiveStatus } from "./lib/generation";
+
+const BACKFILL_PAGE_SIZE = 100;
+
+const continueBackfill = makeFunctionReference<"mutation">("analytics:backfill");
+
+/** How providers performed for the caller's generations over the last `days` UTC days. */
+export const dashboard = queryGeneric({
+  args: {
+    days: v.number(),
+  },
+  handler: async (ctx, { days }) => {
+    const userId = await requireUserId(ctx);
+    const window = windowDays(Date.now(), Math.min(MAX_WINDOW_DAYS, Math.max(1, Math.floor(days))));
+    const rows = await ctx.db
+      .query("generation_stats")
+      .withIndex("by_owner_day", (q) => ownerDayRange(q, userId).gte("day", window[0]))
+      .collect();
+    return summarizeStats(rows, window);
+  },
+});
+
+/**
+ * Folds rows that settled before stats were recorded into `generation_stats`.
+ * Run once after deploying, with `before` set to the deploy time so rows the
+ * live hooks already counted are skipped:
+ * `npx convex run analytics:backfill '{"before": 1760000000000}'`.
+ * It reschedules itself until every row has been visited.
+ */
+export const backfill = internalMutationGeneric({
+  args: {
+    before: v.number(),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, { before, cursor }) => {
+    const page = await ctx.db
+      .query("images")
+      .paginate({ cursor: cursor ?? null, numItems: BACKFILL_PAGE_SIZE });
+
+    let counted = 0;
+    for (const row of page.page) {
+      // Not `updatedAt`: trash and restore move it, which would skip or double-count rows.
+      const settledAt = (row.completedAt as number | undefined) ?? (row.createdAt as number);
+      if (isActiveStatus(row.status as string) || settledAt >= before) {
+        continue;
+      }
+      await recordOutcome(ctx.db, row);
+      counted += 1;
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, continueBackfill, { before, cursor: page.continueCursor });
+    }
+    return { counted, isDone: page.isDone };
+  },
+});
@@ -0,0 +1,230 @@
+import {
+  internalMutationGeneric,
+  makeFunctionReference,
+  mutationGeneric,
+  queryGeneric,
+} from "convex/server";
+import type { GenericDatabaseReader, GenericDataModel } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import {
+  API_REQUEST_RETENTION_MS,
+  countedRequests,
+  DEFAULT_RATE_LIMIT_PER_MINUTE,
+  generateApiKey,
+  hashApiKey,
+  keyCreatedRange,
+  MAX_RATE_LIMIT_PER_MINUTE,
+  RATE_LIMIT_WINDOW_MS,
+  RATE_LIMITED_STATUS,
+} from "./lib/apiKeys";
+import { requireUserId } from "./lib/auth";
+
+const RECENT_REQUEST_LIMIT = 25;
+const DAILY_COUNT_LIMIT = 1000;
+const PRUNE_BATCH_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const continuePrune = makeFunctionReference<"mutation">("apiKeys:pruneRequests");
+
+const requireOwnedKey = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  userId: GenericId<"users">,
+  keyId: GenericId<"apiKeys">
+) => {
+  const key = await db.get(keyId);
+  if (!key || key.userId !== userId) {
+    throw new Error("API key not found.");
+  }
+  return key;
+};
+
+/** The caller's keys without their hashes, with a call count for the last day. */
+export const list = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    const keys = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    const since = Date.now() - DAY_MS;
+
+    return Promise.all(
+      keys
+        .sort((a, b) => (b.createdAt as number) - (a.createdAt as number))
+        .map(async (key) => {
+          const calls = await ctx.db
+            .query("apiRequests")
+            .withIndex("by_key_created", (q) =>
+              keyCreatedRange(q, key._id as GenericId<"apiKeys">, since)
+            )
+            .take(DAILY_COUNT_LIMIT);
+          return {
+            _id: key._id,
+            name: key.name as string,
+            prefix: key.prefix as string,
+            rateLimitPerMinute: key.rateLimitPerMinute as number,
+            createdAt: key.createdAt as number,
+            lastUsedAt: key.lastUsedAt as number | undefined,
+            revokedAt: key.revokedAt as number | undefined,
+            requestsToday: calls.length,
+          };
+        })
+    );
+  },
+});
+
+/** Creates a key and returns it in full; only its hash is kept after this. */
+export const create = mutationGeneric({
+  args: {
+    name: v.string(),
+    rateLimitPerMinute: v.optional(v.number()),
+  },
+  handler: async (ctx, { name, rateLimitPerMinute }) => {
+    const userId = await requireUserId(ctx);
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Give the key a name.");
+    }
+    const limit = Math.round(rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE);
+    if (limit < 1 || limit > MAX_RATE_LIMIT_PER_MINUTE) {
+      throw new Error(`Rate limit must be between 1 and ${MAX_RATE_LIMIT_PER_MINUTE} per minute.`);
+    }
+
+    const { key, prefix } = generateApiKey();
+    const keyId = await ctx.db.insert("apiKeys", {
+      userId,
+      name: trimmed,
+      prefix,
+      hashedKey: await hashApiKey(key),
+      rateLimitPerMinute: limit,
+      createdAt: Date.now(),
+    });
+    return { _id: keyId, key };
+  },
+});
+
+export const revoke = mutationGeneric({
+  args: {
+    id: v.id("apiKeys"),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    const key = await requireOwnedKey(ctx.db, userId, id);
+    if (key.revokedAt === undefined) {
+      await ctx.db.patch(id, { revokedAt: Date.now() });
+    }
+  },
+});
+
+/** The latest calls made with one of the caller's keys. */
+export const requests = queryGeneric({
+  args: {
+    id: v.id("apiKeys"),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnedKey(ctx.db, userId, id);
+    const rows = await ctx.db
+      .query("apiRequests")
+      .withIndex("by_key_created", (q) => keyCreatedRange(q, id, 0))
+      .order("desc")
+      .take(RECENT_REQUEST_LIMIT);
+    return rows.map((row) => ({
+      _id: row._id,
+      method: row.method as string,
+      path: row.path as string,
+      status: row.status as number,
+      imageId: row.imageId as string | undefined,
+      createdAt: row.createdAt as number,
+    }));
+  },
+});
+
+/**
+ * Resolves a bearer key and applies its rate limit. Every call is logged,
+ * including rejected ones; the HTTP route fills in the final status.
+ */
+export const authorize = internalMutationGeneric({
+  args: {
+    hashedKey: v.string(),
+    method: v.string(),
+    path: v.string(),
+  },
+  handler: async ({ db }, { hashedKey, method, path }) => {
+    const key = await db
+      .query("apiKeys")
+      .withIndex("by_hashed_key", (q) => q.eq("hashedKey", hashedKey))
+      .unique();
+    if (!key || key.revokedAt !== undefined) {
+      return { ok: false as const, status: 401, message: "Invalid or revoked API key." };
+    }
+
+    const keyId = key._id as GenericId<"apiKeys">;
+    const now = Date.now();
+    const limit = key.rateLimitPerMinute as number;
+    const recent = await countedRequests(db, keyId, now, limit);
+    if (recent.length >= limit) {
+      await db.insert("apiRequests", {
+        keyId,
+        method,
+        path,
+        status: RATE_LIMITED_STATUS,
+        createdAt: now,
+      });
+      const oldest = recent[0].createdAt as number;
+      return {
+        ok: false as const,
+        status: RATE_LIMITED_STATUS,
+        message: `Rate limit of ${limit} requests per minute exceeded.`,
+        retryAfterSeconds: Math.max(1, Math.ceil((oldest + RATE_LIMIT_WINDOW_MS - now) / 1000)),
+      };
+    }
+
+    const requestId = await db.insert("apiRequests", {
+      keyId,
+      method,
+      path,
+      status: 0,
+      createdAt: now,
+    });
+    await db.patch(keyId, { lastUsedAt: now });
+    return {
+      ok: true as const,
+      userId: key.userId as GenericId<"users">,
+      requestId: requestId as GenericId<"apiRequests">,
+    };
+  },
+});
+
+export const finishRequest = internalMutationGeneric({
+  args: {
+    requestId: v.id("apiRequests"),
+    status: v.number(),
+    imageId: v.optional(v.id("images")),
+  },
+  handler: async ({ db }, { requestId, status, imageId }) => {
+    await db.patch(requestId, { status, ...(imageId ? { imageId } : {}) });
+  },
+});
+
+/** Drops usage log rows past the retention window. Run by `crons.ts`. */
+export const pruneRequests = internalMutationGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - API_REQUEST_RETENTION_MS;
+    const rows = await ctx.db
+      .query("apiRequests")
+      .withIndex("by_created_at", (q) => q.lt("createdAt", cutoff))
+      .take(PRUNE_BATCH_SIZE);
+
+    for (const row of rows) {
+      await ctx.db.delete(row._id);
+    }
+    if (rows.length === PRUNE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, continuePrune, {});
+    }
+    return { deleted: rows.length };
+  },
+});
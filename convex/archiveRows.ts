@@ -0,0 +1,184 @@
+import { internalMutationGeneric, internalQueryGeneric } from "convex/server";
+import type { GenericDocument } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import {
+  archivedGenerationValidator,
+  MAX_EXPORT_GENERATIONS,
+  ownerCreatedAtRange,
+  pickCopiedFields,
+} from "./lib/archive";
+import { canViewImage, requireUserId } from "./lib/auth";
+import { galleryFiltersValidator, queryGallery, resolveGalleryScope } from "./lib/gallery";
+import { isActiveStatus } from "./lib/generation";
+import { storedImageValidator } from "./lib/outputs";
+import { recordSourceRefs } from "./lib/sources";
+import { discardOwnUpload, requireOwnUpload } from "./lib/uploads";
+
+/**
+ * Rows for `archives:exportGenerations`: the given ids, or everything matching
+ * the gallery filters. Queued and running rows have nothing to export yet.
+ */
+export const exportRows = internalQueryGeneric({
+  args: {
+    ids: v.optional(v.array(v.id("images"))),
+    search: v.optional(v.string()),
+    filters: v.optional(galleryFiltersValidator),
+    workspaceId: v.optional(v.id("workspaces")),
+  },
+  handler: async (ctx, { ids, search, filters, workspaceId }) => {
+    const userId = await requireUserId(ctx);
+    const tooMany =
+      `Exports hold at most ${MAX_EXPORT_GENERATIONS} generations; ` +
+      "select fewer or narrow the filters.";
+    let rows: GenericDocument[] = [];
+
+    if (ids) {
+      if (ids.length > MAX_EXPORT_GENERATIONS) {
+        throw new Error(tooMany);
+      }
+      for (const id of ids) {
+        const row = await ctx.db.get(id);
+        if (row && (await canViewImage(ctx.db, userId, row))) {
+          rows.push(row);
+        }
+      }
+    } else {
+      const scope = await resolveGalleryScope(ctx, workspaceId, filters?.trashed);
+      rows = await queryGallery(ctx.db, scope, search, filters ?? {}).take(
+        MAX_EXPORT_GENERATIONS + 1
+      );
+      if (rows.length > MAX_EXPORT_GENERATIONS) {
+        throw new Error(tooMany);
+      }
+    }
+    return rows.filter((row) => !isActiveStatus(row.status as string));
+  },
+});
+
+/**
+ * The caller's row matching an archived generation, if it was imported (or
+ * exported from here) before. Creation time plus prompt and request id is
+ * specific enough that two different renders never collide.
+ */
+export const findDuplicate = internalQueryGeneric({
+  args: {
+    prompt: v.string(),
+    createdAt: v.number(),
+    requestId: v.optional(v.string()),
+  },
+  handler: async (ctx, { prompt, createdAt, requestId }) => {
+    const userId = await requireUserId(ctx);
+    const existing = await ctx.db
+      .query("images")
+      .withIndex("by_owner_created", (q) => ownerCreatedAtRange(q, userId, createdAt))
+      .filter((q) => q.and(q.eq(q.field("prompt"), prompt), q.eq(q.field("requestId"), requestId)))
+      .first();
+    return existing ? (existing._id as string) : null;
+  },
+});
+
+/**
+ * Inserts one archived generation for the caller, with its files already
+ * re-uploaded. Lineage and reference ids are kept only when they resolve to rows
+ * the caller can see in this deployment, and a template id only when the caller
+ * owns that template; anything else is dropped.
+ * A row archived as queued or running has no job here to finish it, so it is
+ * stored as partial or failed instead.
+ */
+export const insertImported = internalMutationGeneric({
+  args: {
+    generation: archivedGenerationValidator,
+    outputs: v.array(storedImageValidator),
+    sourceImages: v.array(
+      v.object({
+        storageId: v.id("_storage"),
+        imageId: v.optional(v.string()),
+        outputIndex: v.optional(v.number()),
+      })
+    ),
+    parentId: v.optional(v.string()),
+  },
+  handler: async (ctx, { generation, outputs, sourceImages, parentId }) => {
+    const userId = await requireUserId(ctx);
+    const visibleImageId = async (id: string | undefined) => {
+      const imageId = id ? ctx.db.normalizeId("images", id) : null;
+      const image = imageId ? await ctx.db.get(imageId) : null;
+      return image && (await canViewImage(ctx.db, userId, image))
+        ? { imageId: imageId as GenericId<"images">, image }
+        : null;
+    };
+
+    const parent = await visibleImageId(parentId);
+    const rootId = parent
+      ? ((parent.image.rootId as GenericId<"images"> | undefined) ?? parent.imageId)
+      : undefined;
+    const templateId =
+      generation.template && ctx.db.normalizeId("prompt_templates", generation.template.templateId);
+    const templateRow = templateId ? await ctx.db.get(templateId) : null;
+    const template =
+      generation.template && templateId && templateRow?.ownerId === userId
+        ? { ...generation.template, templateId }
+        : undefined;
+    const sources = await Promise.all(
+      sourceImages.map(async ({ storageId, imageId, outputIndex }) => {
+        const source = await visibleImageId(imageId);
+        return source && outputIndex !== undefined
+          ? { storageId, imageId: source.imageId, outputIndex }
+          : { storageId };
+      })
+    );
+
+    const settled = isActiveStatus(generation.status)
+      ? {
+          status: outputs.length > 0 ? "partial" : "failed",
+          error: generation.error ?? "The generation was still running when it was archived.",
+          completedAt: generation.completedAt ?? generation.updatedAt,
+        }
+      : {};
+
+    const imageId = await ctx.db.insert("images", {
+      ...pickCopiedFields(generation),
+      ...settled,
+      ownerId: userId,
+      outputs,
+      ...(sources.length > 0 ? { sourceImages: sources } : {}),
+      ...(parent && rootId ? { parentId: parent.imageId, rootId } : {}),
+      ...(template ? { template } : {}),
+    });
+    await recordSourceRefs(ctx.db, imageId as GenericId<"images">, sources);
+    return imageId;
+  },
+});
+
+/** Confirms the archive about to be imported is the caller's own upload. */
+export const claimArchive = internalMutationGeneric({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, { storageId }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnUpload(ctx.db, userId, storageId);
+  },
+});
+
+/** Deletes an imported archive; only the uploader's own file can be removed. */
+export const discardArchive = internalMutationGeneric({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, { storageId }) => {
+    const userId = await requireUserId(ctx);
+    await discardOwnUpload(ctx, userId, storageId);
+  },
+});
+
+/** Deletes an export once its download link has expired. */
+export const discardFile = internalMutationGeneric({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, { storageId }) => {
+    await ctx.storage.delete(storageId);
+  },
+});
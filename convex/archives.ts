@@ -0,0 +1,284 @@
+"use node";
+
+import { inflateRawSync } from "node:zlib";
+import { actionGeneric, makeFunctionReference } from "convex/server";
+import type { GenericDocument } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  archivePath,
+  assertManifest,
+  contentTypeForPath,
+  EXPORT_LINK_TTL_MS,
+  MANIFEST_PATH,
+  MAX_ARCHIVE_BYTES,
+  omitStorageId,
+  pickCopiedFields,
+} from "./lib/archive";
+import type {
+  ArchivedGeneration,
+  ArchivedOutput,
+  ArchivedSource,
+  ArchiveManifest,
+} from "./lib/archive";
+import { requireUserId } from "./lib/auth";
+import { galleryFiltersValidator } from "./lib/gallery";
+import type { StoredImage } from "./lib/outputs";
+import type { SourceImage } from "./lib/sources";
+import { createZip, readZip } from "./lib/zip";
+import type { ZipEntry } from "./lib/zip";
+
+const exportRowsRef = makeFunctionReference<"query">("archiveRows:exportRows");
+const findDuplicateRef = makeFunctionReference<"query">("archiveRows:findDuplicate");
+const insertImportedRef = makeFunctionReference<"mutation">("archiveRows:insertImported");
+const discardFileRef = makeFunctionReference<"mutation">("archiveRows:discardFile");
+const claimArchiveRef = makeFunctionReference<"mutation">("archiveRows:claimArchive");
+const discardArchiveRef = makeFunctionReference<"mutation">("archiveRows:discardArchive");
+
+/**
+ * Packages generations into a ZIP: every output, thumbnail and reference image
+ * from storage, plus `manifest.json` with the rows themselves. The ZIP is kept
+ * for `EXPORT_LINK_TTL_MS`; the returned URL downloads it.
+ */
+export const exportGenerations = actionGeneric({
+  args: {
+    ids: v.optional(v.array(v.id("images"))),
+    search: v.optional(v.string()),
+    filters: v.optional(galleryFiltersValidator),
+    workspaceId: v.optional(v.id("workspaces")),
+  },
+  handler: async (ctx, args) => {
+    await requireUserId(ctx);
+    const rows: GenericDocument[] = await ctx.runQuery(exportRowsRef, args);
+    if (rows.length === 0) {
+      throw new Error("There are no finished generations to export.");
+    }
+
+    const entries: ZipEntry[] = [];
+    let totalBytes = 0;
+    const readFile = async (storageId: GenericId<"_storage">) => {
+      const blob = await ctx.storage.get(storageId);
+      if (!blob) {
+        return null;
+      }
+      totalBytes += blob.size;
+      if (totalBytes > MAX_ARCHIVE_BYTES) {
+        throw new Error("These generations are too large for one archive; export fewer at a time.");
+      }
+      return { data: new Uint8Array(await blob.arrayBuffer()), contentType: blob.type };
+    };
+
+    const generations: ArchivedGeneration[] = [];
+    for (const row of rows) {
+      const id = row._id as string;
+      const outputs: ArchivedOutput[] = [];
+      for (const [index, output] of ((row.outputs as StoredImage[] | undefined) ?? []).entries()) {
+        const file = await readFile(output.storageId);
+        if (!file) {
+          continue;
+        }
+        const path = archivePath(id, `output-${index}`, output.contentType);
+        entries.push({ name: path, data: file.data });
+
+        const { thumbnail, ...details } = omitStorageId(output);
+        const thumbnailFile = thumbnail && (await readFile(thumbnail.storageId));
+        const thumbnailPath =
+          thumbnail && archivePath(id, `output-${index}-thumbnail`, thumbnail.contentType);
+        if (thumbnailFile && thumbnailPath) {
+          entries.push({ name: thumbnailPath, data: thumbnailFile.data });
+        }
+        outputs.push({
+          ...details,
+          path,
+          ...(thumbnail && thumbnailFile && thumbnailPath
+            ? { thumbnail: { ...omitStorageId(thumbnail), path: thumbnailPath } }
+            : {}),
+        });
+      }
+
+      const sourceImages: ArchivedSource[] = [];
+      for (const [index, source] of (
+        (row.sourceImages as SourceImage[] | undefined) ?? []
+      ).entries()) {
+        const file = await readFile(source.storageId);
+        if (!file) {
+          continue;
+        }
+        const path = archivePath(id, `source-${index}`, file.contentType);
+        entries.push({ name: path, data: file.data });
+        sourceImages.push({
+          path,
+          ...(source.imageId ? { imageId: source.imageId as string } : {}),
+          ...(source.outputIndex !== undefined ? { outputIndex: source.outputIndex } : {}),
+        });
+      }
+
+      generations.push({
+        ...pickCopiedFields(row),
+        id,
+        ...(row.parentId ? { parentId: row.parentId as string } : {}),
+        ...(row.rootId ? { rootId: row.rootId as string } : {}),
+        ...(row.template ? { template: row.template as ArchivedGeneration["template"] } : {}),
+        outputs,
+        sourceImages,
+      } as ArchivedGeneration);
+    }
+
+    const exportedAt = Date.now();
+    const manifest: ArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt,
+      generations,
+    };
+    const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+    const zip = createZip([{ name: MANIFEST_PATH, data: manifestBytes }, ...entries], exportedAt);
+    const storageId = await ctx.storage.store(new Blob([zip], { type: "application/zip" }));
+    await ctx.scheduler.runAfter(EXPORT_LINK_TTL_MS, discardFileRef, { storageId });
+
+    return {
+      url: await ctx.storage.getUrl(storageId),
+      fileName: `image-studio-${new Date(exportedAt).toISOString().slice(0, 10)}.zip`,
+      generations: generations.length,
+      byteSize: zip.length,
+    };
+  },
+});
+
+/**
+ * Restores an archive uploaded through `images:generateUploadUrl` into the
+ * caller's gallery. Generations already here (same creation time, prompt and
+ * request id) are skipped, so re-running an interrupted import is safe. The
+ * archive must be the caller's own upload, and it is deleted afterwards.
+ */
+export const importArchive = actionGeneric({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, { storageId }) => {
+    await requireUserId(ctx);
+    await ctx.runMutation(claimArchiveRef, { storageId });
+    const blob = await ctx.storage.get(storageId);
+    if (!blob) {
+      throw new Error("The uploaded archive was not found.");
+    }
+    if (blob.size > MAX_ARCHIVE_BYTES) {
+      await ctx.runMutation(discardArchiveRef, { storageId });
+      throw new Error("The archive is larger than one import can hold.");
+    }
+
+    try {
+      const files = new Map(
+        readZip(
+          new Uint8Array(await blob.arrayBuffer()),
+          MAX_ARCHIVE_BYTES,
+          (data, maxOutputLength) => inflateRawSync(data, { maxOutputLength })
+        ).map((entry) => [entry.name, entry.data])
+      );
+      const manifestFile = files.get(MANIFEST_PATH);
+      if (!manifestFile) {
+        throw new Error(`This ZIP has no ${MANIFEST_PATH}.`);
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(new TextDecoder().decode(manifestFile));
+      } catch {
+        throw new Error(`${MANIFEST_PATH} is not valid JSON.`);
+      }
+      const manifest = assertManifest(parsed);
+
+      // Parents are older than their children, so oldest first lets lineage relink.
+      const generations = [...manifest.generations].sort((a, b) => a.createdAt - b.createdAt);
+      const importedIds = new Map<string, string>();
+      let imported = 0;
+      let skipped = 0;
+
+      for (const generation of generations) {
+        const duplicate: string | null = await ctx.runQuery(findDuplicateRef, {
+          prompt: generation.prompt,
+          createdAt: generation.createdAt,
+          requestId: generation.requestId,
+        });
+        if (duplicate) {
+          importedIds.set(generation.id, duplicate);
+          skipped += 1;
+          continue;
+        }
+
+        const stored: GenericId<"_storage">[] = [];
+        const storeFile = async (path: string, contentType: string) => {
+          const data = files.get(path);
+          if (!data) {
+            return null;
+          }
+          const fileId = await ctx.storage.store(new Blob([data.slice()], { type: contentType }));
+          stored.push(fileId);
+          return fileId;
+        };
+
+        try {
+          const outputs: StoredImage[] = [];
+          for (const { path, thumbnail, ...output } of generation.outputs) {
+            const outputId = await storeFile(path, output.contentType);
+            if (!outputId) {
+              continue;
+            }
+            const thumbnailId =
+              thumbnail && (await storeFile(thumbnail.path, thumbnail.contentType));
+            outputs.push({
+              ...output,
+              storageId: outputId,
+              ...(thumbnail && thumbnailId
+                ? {
+                    thumbnail: {
+                      width: thumbnail.width,
+                      height: thumbnail.height,
+                      contentType: thumbnail.contentType,
+                      byteSize: thumbnail.byteSize,
+                      storageId: thumbnailId,
+                    },
+                  }
+                : {}),
+            });
+          }
+
+          const sourceImages = [];
+          for (const source of generation.sourceImages) {
+            const sourceId = await storeFile(source.path, contentTypeForPath(source.path));
+            if (sourceId) {
+              sourceImages.push({
+                storageId: sourceId,
+                ...(source.imageId
+                  ? { imageId: importedIds.get(source.imageId) ?? source.imageId }
+                  : {}),
+                ...(source.outputIndex !== undefined ? { outputIndex: source.outputIndex } : {}),
+              });
+            }
+          }
+
+          const imageId: string = await ctx.runMutation(insertImportedRef, {
+            generation,
+            outputs,
+            sourceImages,
+            ...(generation.parentId
+              ? { parentId: importedIds.get(generation.parentId) ?? generation.parentId }
+              : {}),
+          });
+          importedIds.set(generation.id, imageId);
+          imported += 1;
+        } catch (caught) {
+          for (const fileId of stored) {
+            await ctx.storage.delete(fileId);
+          }
+          throw caught;
+        }
+      }
+
+      return { imported, skipped };
+    } finally {
+      await ctx.runMutation(discardArchiveRef, { storageId });
+    }
+  },
+});
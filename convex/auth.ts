@@ -0,0 +1,8 @@
+import { convexAuth } from "@convex-dev/auth/server";
+import { Password } from "@convex-dev/auth/providers/Password";
+
+// Email + password accounts live entirely in this deployment, so sign-in works
+// against a local `convex dev` backend without any external identity service.
+export const { auth, signIn, signOut, store, isAuthenticated } = convexAuth({
+  providers: [Password],
+});
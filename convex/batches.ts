@@ -0,0 +1,228 @@
+import { mutationGeneric, queryGeneric } from "convex/server";
+import type { GenericDatabaseReader, GenericDataModel, GenericDocument } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { requireMembership, requireUserId } from "./lib/auth";
+import { canViewBatch, expandPrompts, MAX_BATCH_SIZE } from "./lib/batch";
+import {
+  aspectRatioValidator,
+  isActiveStatus,
+  outputFormatValidator,
+  resolutionValidator,
+} from "./lib/generation";
+import { cancelGeneration, enqueueGeneration } from "./lib/jobs";
+import { resolveOutputs } from "./lib/outputs";
+import { advancedParamsValidator } from "./lib/parameters";
+import { getProvider, providerValidator } from "./lib/providers";
+
+const BATCH_LIST_LIMIT = 20;
+
+const dedupe = <T>(values: T[]) => [...new Set(values)];
+
+const batchRows = (db: GenericDatabaseReader<GenericDataModel>, batchId: GenericId<"batches">) =>
+  db
+    .query("images")
+    .withIndex("by_batch", (q) => q.eq("batchId", batchId))
+    .collect();
+
+const summarizeProgress = (total: number, rows: GenericDocument[]) => {
+  const counts: Record<string, number> = {};
+  for (const row of rows) {
+    const status = row.status as string;
+    counts[status] = (counts[status] ?? 0) + 1;
+  }
+  const active = rows.filter((row) => isActiveStatus(row.status as string)).length;
+  return { total, done: rows.length - active, active, counts };
+};
+
+/** How many prompts a batch request expands to, for the form's live count. */
+export const preview = queryGeneric({
+  args: {
+    prompts: v.array(v.string()),
+  },
+  handler: async (_ctx, { prompts }) => {
+    const expanded = expandPrompts(prompts);
+    return {
+      prompts: expanded.slice(0, MAX_BATCH_SIZE),
+      overLimit: expanded.length > MAX_BATCH_SIZE,
+      limit: MAX_BATCH_SIZE,
+    };
+  },
+});
+
+/**
+ * Crosses every expanded prompt with the chosen aspect ratios, providers and
+ * seeds and queues one generation per cell. The whole batch is queued (and
+ * budget-checked) in one transaction, so it either all starts or none does.
+ */
+export const create = mutationGeneric({
+  args: {
+    prompts: v.array(v.string()),
+    aspectRatios: v.array(aspectRatioValidator),
+    providers: v.array(providerValidator),
+    seeds: v.optional(v.array(v.number())),
+    resolution: resolutionValidator,
+    outputFormat: outputFormatValidator,
+    outputQuality: v.optional(v.number()),
+    numImages: v.optional(v.number()),
+    parameters: v.optional(advancedParamsValidator),
+    workspaceId: v.optional(v.id("workspaces")),
+  },
+  handler: async (ctx, args) => {
+    const ownerId = await requireUserId(ctx);
+    if (args.workspaceId) {
+      await requireMembership(ctx.db, args.workspaceId, ownerId);
+    }
+
+    const prompts = expandPrompts(args.prompts);
+    const aspectRatios = dedupe(args.aspectRatios);
+    const providers = dedupe(args.providers);
+    const seeds: (number | null)[] = args.seeds?.length ? dedupe(args.seeds) : [null];
+    if (prompts.length === 0) {
+      throw new Error("Add at least one prompt.");
+    }
+    if (aspectRatios.length === 0 || providers.length === 0) {
+      throw new Error("Choose at least one aspect ratio and one provider.");
+    }
+
+    const total = prompts.length * aspectRatios.length * providers.length * seeds.length;
+    if (total > MAX_BATCH_SIZE) {
+      throw new Error(`This batch has ${total} combinations; the limit is ${MAX_BATCH_SIZE}.`);
+    }
+
+    // Every cell gets the same count, so the batch total matches its rows.
+    const numImages = Math.min(
+      ...providers.map((provider) => getProvider(provider).capabilities.maxImages),
+      Math.max(1, args.numImages ?? 1)
+    );
+    const batchId = await ctx.db.insert("batches", {
+      ownerId,
+      ...(args.workspaceId ? { workspaceId: args.workspaceId } : {}),
+      prompts,
+      aspectRatios,
+      providers,
+      seeds,
+      resolution: args.resolution,
+      outputFormat: args.outputFormat,
+      numImages,
+      total,
+      createdAt: Date.now(),
+    });
+
+    for (const [promptIndex, prompt] of prompts.entries()) {
+      for (const [aspectRatioIndex, aspectRatio] of aspectRatios.entries()) {
+        for (const [providerIndex, provider] of providers.entries()) {
+          for (const [seedIndex, seed] of seeds.entries()) {
+            await enqueueGeneration(
+              ctx,
+              ownerId,
+              {
+                prompt,
+                aspectRatio,
+                resolution: args.resolution,
+                outputFormat: args.outputFormat,
+                outputQuality: args.outputQuality,
+                numImages,
+                provider,
+                parameters: { ...args.parameters, seed: seed ?? undefined },
+                workspaceId: args.workspaceId,
+              },
+              {
+                batchId,
+                batchCell: {
+                  prompt: promptIndex,
+                  aspectRatio: aspectRatioIndex,
+                  provider: providerIndex,
+                  seed: seedIndex,
+                },
+              }
+            );
+          }
+        }
+      }
+    }
+
+    return batchId;
+  },
+});
+
+/** The caller's recent batches with their progress. */
+export const list = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    const batches = await ctx.db
+      .query("batches")
+      .withIndex("by_owner_created", (q) => q.eq("ownerId", userId))
+      .order("desc")
+      .take(BATCH_LIST_LIMIT);
+
+    return Promise.all(
+      batches.map(async (batch) => ({
+        _id: batch._id,
+        prompts: batch.prompts,
+        createdAt: batch.createdAt,
+        progress: summarizeProgress(
+          batch.total as number,
+          await batchRows(ctx.db, batch._id as GenericId<"batches">)
+        ),
+      }))
+    );
+  },
+});
+
+/** A batch's axes plus every cell, for the matrix grid. */
+export const get = queryGeneric({
+  args: {
+    id: v.string(),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    const batchId = ctx.db.normalizeId("batches", id);
+    if (!batchId) {
+      return null;
+    }
+    const batch = await ctx.db.get(batchId);
+    if (!batch || !(await canViewBatch(ctx.db, userId, batch))) {
+      return null;
+    }
+
+    const rows = await batchRows(ctx.db, batchId);
+    return {
+      ...batch,
+      progress: summarizeProgress(batch.total as number, rows),
+      cells: await Promise.all(
+        rows.map(async (row) => ({
+          _id: row._id,
+          cell: row.batchCell,
+          status: row.status,
+          error: row.error,
+          thumbnailUrl: (await resolveOutputs(ctx.storage, row))[0]?.thumbnailUrl ?? null,
+        }))
+      ),
+    };
+  },
+});
+
+/** Cancels every cell that has not finished yet. */
+export const cancel = mutationGeneric({
+  args: {
+    id: v.id("batches"),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    const batch = await ctx.db.get(id);
+    if (!batch || batch.ownerId !== userId) {
+      throw new Error("Batch not found.");
+    }
+
+    let cancelled = 0;
+    for (const row of await batchRows(ctx.db, id)) {
+      if (isActiveStatus(row.status as string)) {
+        await cancelGeneration(ctx, row);
+        cancelled += 1;
+      }
+    }
+    return { cancelled };
+  },
+});
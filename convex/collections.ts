@@ -0,0 +1,267 @@
+import { mutationGeneric, queryGeneric } from "convex/server";
+import type { GenericDatabaseReader, GenericDataModel } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { requireUserId } from "./lib/auth";
+import {
+  MAX_COLLECTION_ITEMS,
+  requireOwnedCollection,
+  requireViewableOutput,
+  resolveOutputTile,
+} from "./lib/collections";
+
+const COLLECTION_LIST_LIMIT = 100;
+
+const collectionFields = {
+  name: v.string(),
+  description: v.optional(v.string()),
+};
+
+const normalizeCollection = (fields: { name: string; description?: string }) => {
+  const name = fields.name.trim();
+  if (!name) {
+    throw new Error("Give the collection a name.");
+  }
+  return {
+    name,
+    ...(fields.description?.trim() ? { description: fields.description.trim() } : {}),
+  };
+};
+
+const loadItems = (
+  db: GenericDatabaseReader<GenericDataModel>,
+  collectionId: GenericId<"collections">
+) =>
+  db
+    .query("collection_items")
+    .withIndex("by_collection_position", (q) => q.eq("collectionId", collectionId))
+    .take(MAX_COLLECTION_ITEMS);
+
+/** The caller's collections, most recently changed first, with item counts and covers. */
+export const list = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    const collections = await ctx.db
+      .query("collections")
+      .withIndex("by_owner_updated", (q) => q.eq("ownerId", userId))
+      .order("desc")
+      .take(COLLECTION_LIST_LIMIT);
+
+    return Promise.all(
+      collections.map(async (collection) => {
+        const items = await loadItems(ctx.db, collection._id as GenericId<"collections">);
+        const cover = items.find((item) => item._id === collection.coverItemId) ?? items[0];
+        const coverTile = cover
+          ? await resolveOutputTile(
+              ctx,
+              userId,
+              cover.imageId as GenericId<"images">,
+              cover.outputIndex as number
+            )
+          : null;
+        return {
+          ...collection,
+          itemCount: items.length,
+          coverUrl: coverTile?.thumbnailUrl ?? null,
+        };
+      })
+    );
+  },
+});
+
+/** One collection with its items in order; null when it is missing or not the caller's. */
+export const get = queryGeneric({
+  args: {
+    id: v.string(),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    // The id comes from the URL, so tolerate anything that is not a collection id.
+    const collectionId = ctx.db.normalizeId("collections", id);
+    const collection = collectionId ? await ctx.db.get(collectionId) : null;
+    if (!collectionId || !collection || collection.ownerId !== userId) {
+      return null;
+    }
+
+    const items = await loadItems(ctx.db, collectionId);
+    const tiles = await Promise.all(
+      items.map(async (item) => {
+        const tile = await resolveOutputTile(
+          ctx,
+          userId,
+          item.imageId as GenericId<"images">,
+          item.outputIndex as number
+        );
+        return tile && { ...tile, itemId: item._id as GenericId<"collection_items"> };
+      })
+    );
+    return { ...collection, items: tiles.filter((tile) => tile !== null) };
+  },
+});
+
+export const create = mutationGeneric({
+  args: collectionFields,
+  handler: async (ctx, fields) => {
+    const userId = await requireUserId(ctx);
+    const createdAt = Date.now();
+    return ctx.db.insert("collections", {
+      ownerId: userId,
+      ...normalizeCollection(fields),
+      createdAt,
+      updatedAt: createdAt,
+    });
+  },
+});
+
+export const update = mutationGeneric({
+  args: {
+    id: v.id("collections"),
+    ...collectionFields,
+  },
+  handler: async (ctx, { id, ...fields }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnedCollection(ctx.db, userId, id);
+    const normalized = normalizeCollection(fields);
+    await ctx.db.patch(id, {
+      ...normalized,
+      // Patching undefined clears a description the edit removed.
+      description: normalized.description,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/** Deletes a collection and its items; the generations themselves are untouched. */
+export const remove = mutationGeneric({
+  args: {
+    id: v.id("collections"),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnedCollection(ctx.db, userId, id);
+    for (const item of await loadItems(ctx.db, id)) {
+      await ctx.db.delete(item._id as GenericId<"collection_items">);
+    }
+    const shares = await ctx.db
+      .query("shares")
+      .withIndex("by_collection", (q) => q.eq("collectionId", id))
+      .collect();
+    for (const share of shares) {
+      await ctx.db.delete(share._id as GenericId<"shares">);
+    }
+    await ctx.db.delete(id);
+  },
+});
+
+/** Appends an output to the end of a collection; adding one that is already there is a no-op. */
+export const addItem = mutationGeneric({
+  args: {
+    id: v.id("collections"),
+    imageId: v.id("images"),
+    outputIndex: v.number(),
+  },
+  handler: async (ctx, { id, imageId, outputIndex }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnedCollection(ctx.db, userId, id);
+    await requireViewableOutput(ctx.db, userId, imageId, outputIndex);
+
+    const items = await loadItems(ctx.db, id);
+    const existing = items.find(
+      (item) => item.imageId === imageId && item.outputIndex === outputIndex
+    );
+    if (existing) {
+      return existing._id as GenericId<"collection_items">;
+    }
+    if (items.length >= MAX_COLLECTION_ITEMS) {
+      throw new Error(`A collection can hold at most ${MAX_COLLECTION_ITEMS} images.`);
+    }
+
+    const addedAt = Date.now();
+    const itemId = await ctx.db.insert("collection_items", {
+      collectionId: id,
+      imageId,
+      outputIndex,
+      position: items.length > 0 ? (items[items.length - 1].position as number) + 1 : 0,
+      addedAt,
+    });
+    await ctx.db.patch(id, { updatedAt: addedAt });
+    return itemId;
+  },
+});
+
+export const removeItem = mutationGeneric({
+  args: {
+    itemId: v.id("collection_items"),
+  },
+  handler: async (ctx, { itemId }) => {
+    const userId = await requireUserId(ctx);
+    const item = await ctx.db.get(itemId);
+    if (!item) {
+      throw new Error("Collection item not found.");
+    }
+    const collectionId = item.collectionId as GenericId<"collections">;
+    const collection = await requireOwnedCollection(ctx.db, userId, collectionId);
+
+    await ctx.db.delete(itemId);
+    await ctx.db.patch(collectionId, {
+      ...(collection.coverItemId === itemId ? { coverItemId: undefined } : {}),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Saves a new order for the listed items. Items left out, such as ones whose
+ * generation is in the trash, keep their relative order after them.
+ */
+export const reorder = mutationGeneric({
+  args: {
+    id: v.id("collections"),
+    itemIds: v.array(v.id("collection_items")),
+  },
+  handler: async (ctx, { id, itemIds }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnedCollection(ctx.db, userId, id);
+    const items = await loadItems(ctx.db, id);
+    const current = new Set(items.map((item) => item._id));
+    if (
+      new Set(itemIds).size !== itemIds.length ||
+      !itemIds.every((itemId) => current.has(itemId))
+    ) {
+      throw new Error("The collection changed; reload it and try again.");
+    }
+
+    const listed = new Set<string>(itemIds);
+    const order = [
+      ...itemIds,
+      ...items
+        .map((item) => item._id as GenericId<"collection_items">)
+        .filter((itemId) => !listed.has(itemId)),
+    ];
+    for (const [position, itemId] of order.entries()) {
+      await ctx.db.patch(itemId, { position });
+    }
+    await ctx.db.patch(id, { updatedAt: Date.now() });
+  },
+});
+
+/** Picks the item shown on the collection's card, or goes back to the first item. */
+export const setCover = mutationGeneric({
+  args: {
+    id: v.id("collections"),
+    itemId: v.optional(v.id("collection_items")),
+  },
+  handler: async (ctx, { id, itemId }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnedCollection(ctx.db, userId, id);
+    if (itemId) {
+      const item = await ctx.db.get(itemId);
+      if (!item || item.collectionId !== id) {
+        throw new Error("Collection item not found.");
+      }
+    }
+
+    await ctx.db.patch(id, { coverItemId: itemId, updatedAt: Date.now() });
+  },
+});
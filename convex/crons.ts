@@ -0,0 +1,15 @@
+import { cronJobs, makeFunctionReference } from "convex/server";
+
+const purgeExpiredTrash = makeFunctionReference<"mutation">("trash:purgeExpired");
+const sweepOrphanedFiles = makeFunctionReference<"action">("trash:sweepOrphans");
+const reapStaleJobs = makeFunctionReference<"action">("reaper:reap");
+const pruneApiRequests = makeFunctionReference<"mutation">("apiKeys:pruneRequests");
+
+const crons = cronJobs();
+
+crons.daily("purge expired trash", { hourUTC: 3, minuteUTC: 0 }, purgeExpiredTrash);
+crons.daily("sweep orphaned storage", { hourUTC: 3, minuteUTC: 30 }, sweepOrphanedFiles);
+crons.daily("prune API request log", { hourUTC: 4, minuteUTC: 0 }, pruneApiRequests);
+crons.interval("reap stale generations", { minutes: 5 }, reapStaleJobs);
+
+export default crons;
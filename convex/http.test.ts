@@ -0,0 +1,129 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { makeFunctionReference } from "convex/server";
+import type { GenericId } from "convex/values";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { encodePng } from "./lib/png";
+import { buildWebhookUrl } from "./lib/webhooks";
+import schema from "./schema";
+
+const fal = vi.hoisted(() => ({
+  config: vi.fn(),
+  queue: { submit: vi.fn(), status: vi.fn(), result: vi.fn() },
+}));
+vi.mock("@fal-ai/client", () => ({ fal }));
+
+const modules = import.meta.glob("./**/*.ts");
+const worker = makeFunctionReference<"action">("images:worker");
+
+const setup = async (status = "running") => {
+  const t = convexTest(schema, modules);
+  const imageId = await t.run(async (ctx) => {
+    const ownerId = await ctx.db.insert("users", {});
+    const now = Date.now();
+    return ctx.db.insert("images", {
+      ownerId,
+      prompt: "a lighthouse at dusk",
+      model: "fal-ai/nano-banana-pro",
+      provider: "fal",
+      aspectRatio: "1:1",
+      resolution: "1K",
+      outputFormat: "png",
+      numImages: 1,
+      status,
+      createdAt: now,
+      updatedAt: now,
+      ...(status === "running" ? { requestId: "req-1", startedAt: now } : {}),
+    });
+  });
+  return { t, imageId: imageId as GenericId<"images"> };
+};
+
+const webhookPath = async (imageId: string) => {
+  const url = new URL((await buildWebhookUrl("fal", imageId)) ?? "");
+  return `${url.pathname}${url.search}`;
+};
+
+const failedCallback = { request_id: "req-1", status: "ERROR", error: "Render failed." };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubEnv("WEBHOOK_SECRET", "test-secret");
+  vi.stubEnv("CONVEX_SITE_URL", "https://example.convex.site");
+  vi.stubEnv("FAL_KEY", "test-key");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+  vi.clearAllMocks();
+});
+
+describe("/webhooks/fal", () => {
+  test("rejects a callback whose token does not match the row", async () => {
+    const { t, imageId } = await setup();
+    const path = (await webhookPath(imageId)).replace(/token=[0-9a-f]+/, "token=forged");
+
+    const response = await t.fetch(path, {
+      method: "POST",
+      body: JSON.stringify(failedCallback),
+    });
+
+    expect(response.status).toBe(401);
+    const row = await t.run((ctx) => ctx.db.get(imageId));
+    expect(row?.status).toBe("running");
+  });
+
+  test("settles the row once when Fal.ai delivers the same callback twice", async () => {
+    const { t, imageId } = await setup();
+    const path = await webhookPath(imageId);
+    const deliver = () => t.fetch(path, { method: "POST", body: JSON.stringify(failedCallback) });
+
+    const first = await deliver();
+    const second = await deliver();
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(first.status).toBe(200);
+    expect(await first.text()).toBe("Accepted.");
+    expect(second.status).toBe(200);
+    expect(await second.text()).toBe("Ignored.");
+    const row = await t.run((ctx) => ctx.db.get(imageId));
+    expect(row).toMatchObject({ status: "failed", error: "Render failed.", requestId: "req-1" });
+    const scheduled = await t.run((ctx) => ctx.db.system.query("_scheduled_functions").collect());
+    expect(scheduled.filter((job) => job.name.includes("storeCallback"))).toHaveLength(1);
+  });
+});
+
+describe("polling fallback", () => {
+  test("polls the Fal.ai queue until the job finishes when webhooks are off", async () => {
+    vi.stubEnv("WEBHOOK_SECRET", "");
+    const { t, imageId } = await setup("queued");
+    fal.queue.submit.mockResolvedValue({ request_id: "req-2" });
+    fal.queue.status
+      .mockResolvedValueOnce({ status: "IN_QUEUE", queue_position: 2 })
+      .mockResolvedValueOnce({ status: "IN_PROGRESS", logs: [{ message: "Rendering" }] })
+      .mockResolvedValueOnce({ status: "COMPLETED", logs: [] });
+    fal.queue.result.mockResolvedValue({
+      data: { images: [{ url: "https://fal.media/out.png", content_type: "image/png" }] },
+    });
+    const png = encodePng(4, 4, (_y, row) => row.fill(128));
+    vi.stubGlobal(
+      "fetch",
+      async () => new Response(png, { headers: { "Content-Type": "image/png" } })
+    );
+
+    const run = t.action(worker, { id: imageId });
+    await vi.runAllTimersAsync();
+    await run;
+
+    expect(fal.queue.submit).toHaveBeenCalledWith(
+      "fal-ai/nano-banana-pro",
+      expect.objectContaining({ webhookUrl: undefined })
+    );
+    expect(fal.queue.status).toHaveBeenCalledTimes(3);
+    const row = await t.run((ctx) => ctx.db.get(imageId));
+    expect(row).toMatchObject({ status: "complete", requestId: "req-2" });
+    expect(row?.outputs).toHaveLength(1);
+  });
+});
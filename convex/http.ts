@@ -0,0 +1,68 @@
+import { httpActionGeneric, httpRouter, makeFunctionReference } from "convex/server";
+import type { WebHookResponse } from "@fal-ai/client";
+import type { GenericId } from "convex/values";
+import { auth } from "./auth";
+import { parseFalWebhook } from "./lib/providers/fal";
+import { SHARE_PATH_PREFIX } from "./lib/shares";
+import { verifyWebhookToken, webhookPath } from "./lib/webhooks";
+import {
+  API_PREFIX,
+  createGeneration,
+  getGeneration,
+  listGenerations,
+  openApiDocument,
+} from "./rest";
+import { sharePage } from "./shares";
+
+const acceptCallback = makeFunctionReference<"mutation">("images:acceptCallback");
+
+const http = httpRouter();
+
+auth.addHttpRoutes(http);
+
+http.route({ path: `${API_PREFIX}/generations`, method: "POST", handler: createGeneration });
+http.route({ path: `${API_PREFIX}/generations`, method: "GET", handler: listGenerations });
+http.route({ pathPrefix: `${API_PREFIX}/generations/`, method: "GET", handler: getGeneration });
+http.route({ path: `${API_PREFIX}/openapi.json`, method: "GET", handler: openApiDocument });
+http.route({ pathPrefix: SHARE_PATH_PREFIX, method: "GET", handler: sharePage });
+
+/**
+ * Fal.ai posts here when a queued job finishes. The row id and its token ride
+ * in the query string set by `lib/webhooks.ts`. The callback is recorded and
+ * its images are copied by a scheduled action, so large results never hold the
+ * response past Fal.ai's timeout. Stale or repeated callbacks still get a 200
+ * so Fal.ai stops retrying them.
+ */
+http.route({
+  path: webhookPath("fal"),
+  method: "POST",
+  handler: httpActionGeneric(async (ctx, request) => {
+    const params = new URL(request.url).searchParams;
+    const imageId = params.get("imageId") ?? "";
+    if (!(await verifyWebhookToken(imageId, params.get("token") ?? ""))) {
+      return new Response("Invalid webhook token.", { status: 401 });
+    }
+
+    let body: WebHookResponse;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response("Expected a JSON body.", { status: 400 });
+    }
+    if (typeof body?.request_id !== "string") {
+      return new Response("Missing request_id.", { status: 400 });
+    }
+
+    const { requestId, images, error, refused } = parseFalWebhook(body);
+    const accepted: boolean = await ctx.runMutation(acceptCallback, {
+      id: imageId as GenericId<"images">,
+      requestId,
+      images,
+      ...(error !== undefined ? { error } : {}),
+      ...(refused !== undefined ? { refused } : {}),
+    });
+    return new Response(accepted ? "Accepted." : "Ignored.", { status: 200 });
+  }),
+});
+
+export default http;
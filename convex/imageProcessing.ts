@@ -0,0 +1,160 @@
+"use node";
+
+import { internalActionGeneric } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import sharp from "sharp";
+import type { Sharp } from "sharp";
+import { outputFormatValidator } from "./lib/generation";
+import type { OutputFormat } from "./lib/generation";
+import { storedImageValidator } from "./lib/outputs";
+import type { StoredImage } from "./lib/outputs";
+import { LOCAL_UPSCALER, needsUpscale, SUPER_RESOLUTION_MODEL, superResolve } from "./lib/upscale";
+
+const THUMBNAIL_SIZE = 384;
+const THUMBNAIL_QUALITY = 70;
+const DEFAULT_QUALITY: Record<OutputFormat, number> = { png: 100, jpeg: 90, webp: 85 };
+
+const encode = (image: Sharp, format: OutputFormat, quality: number) => {
+  switch (format) {
+    case "png":
+      return image.png({ compressionLevel: 9 });
+    case "jpeg":
+      // JPEG has no alpha channel, so transparent areas become white instead of black.
+      return image.flatten({ background: "#ffffff" }).jpeg({ quality, mozjpeg: true });
+    case "webp":
+      return image.webp({ quality });
+  }
+};
+
+/**
+ * Converts a stored output to the requested format and quality and stores a
+ * WebP thumbnail next to it. Files already in the right format are kept as
+ * they are unless a quality was asked for, so lossless outputs never lose detail.
+ */
+export const convert = internalActionGeneric({
+  args: {
+    output: storedImageValidator,
+    outputFormat: outputFormatValidator,
+    outputQuality: v.optional(v.number()),
+  },
+  handler: async (ctx, { output, outputFormat, outputQuality }): Promise<StoredImage> => {
+    const blob = await ctx.storage.get(output.storageId);
+    if (!blob) {
+      throw new Error("The generated image is no longer in storage.");
+    }
+    const input = Buffer.from(await blob.arrayBuffer());
+    const contentType = `image/${outputFormat}`;
+    const reencode =
+      output.contentType !== contentType || (outputQuality !== undefined && outputFormat !== "png");
+
+    const stored: GenericId<"_storage">[] = [];
+    try {
+      let converted: StoredImage = output;
+      if (reencode) {
+        const { data, info } = await encode(
+          sharp(input),
+          outputFormat,
+          outputQuality ?? DEFAULT_QUALITY[outputFormat]
+        ).toBuffer({ resolveWithObject: true });
+        const storageId = await ctx.storage.store(
+          new Blob([new Uint8Array(data)], { type: contentType })
+        );
+        stored.push(storageId);
+        converted = {
+          ...output,
+          storageId,
+          width: info.width,
+          height: info.height,
+          contentType,
+          byteSize: data.byteLength,
+        };
+      }
+
+      const thumbnail = await sharp(input)
+        .resize({
+          width: THUMBNAIL_SIZE,
+          height: THUMBNAIL_SIZE,
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .webp({ quality: THUMBNAIL_QUALITY })
+        .toBuffer({ resolveWithObject: true });
+      const thumbnailId = await ctx.storage.store(
+        new Blob([new Uint8Array(thumbnail.data)], { type: "image/webp" })
+      );
+      stored.push(thumbnailId);
+
+      if (reencode) {
+        await ctx.storage.delete(output.storageId);
+      }
+      return {
+        ...converted,
+        thumbnail: {
+          storageId: thumbnailId,
+          width: thumbnail.info.width,
+          height: thumbnail.info.height,
+          contentType: "image/webp",
+          byteSize: thumbnail.data.byteLength,
+        },
+      };
+    } catch (error) {
+      await Promise.all(stored.map((storageId) => ctx.storage.delete(storageId)));
+      throw error;
+    }
+  },
+});
+
+/**
+ * Enlarges a stored output so its long side is `longSide`, replacing the
+ * original. The super-resolution model adds detail where it is available;
+ * Lanczos resampling always sets the exact size, and does all the work otherwise.
+ */
+export const upscale = internalActionGeneric({
+  args: {
+    output: storedImageValidator,
+    longSide: v.number(),
+  },
+  handler: async (ctx, { output, longSide }): Promise<StoredImage> => {
+    const blob = await ctx.storage.get(output.storageId);
+    if (!blob) {
+      throw new Error("The image to upscale is no longer in storage.");
+    }
+    const original = await sharp(Buffer.from(await blob.arrayBuffer())).metadata();
+    if (!original.width || !original.height) {
+      throw new Error("Could not read the size of the image to upscale.");
+    }
+    if (!needsUpscale(original, longSide)) {
+      return { ...output, width: original.width, height: original.height };
+    }
+
+    const refined = await superResolve(blob);
+    const input = Buffer.from(await (refined ?? blob).arrayBuffer());
+    const { width = original.width, height = original.height } = await sharp(input).metadata();
+    const scale = longSide / Math.max(width, height);
+    let resized = sharp(input).resize({
+      width: Math.round(width * scale),
+      height: Math.round(height * scale),
+      kernel: "lanczos3",
+    });
+    if (!refined) {
+      // Plain resampling softens edges, so win back a little crispness.
+      resized = resized.sharpen({ sigma: 0.6 });
+    }
+    const { data, info } = await resized.png().toBuffer({ resolveWithObject: true });
+
+    const storageId = await ctx.storage.store(
+      new Blob([new Uint8Array(data)], { type: "image/png" })
+    );
+    await ctx.storage.delete(output.storageId);
+    return {
+      ...output,
+      storageId,
+      width: info.width,
+      height: info.height,
+      contentType: "image/png",
+      byteSize: data.byteLength,
+      upscaler: refined ? SUPER_RESOLUTION_MODEL : LOCAL_UPSCALER,
+    };
+  },
+});
@@ -1,72 +1,154 @@
-import { actionGeneric, makeFunctionReference, mutationGeneric, queryGeneric } from "convex/server";
+import {
+  internalActionGeneric,
+  internalMutationGeneric,
+  internalQueryGeneric,
+  makeFunctionReference,
+  mutationGeneric,
+  paginationOptsValidator,
+  queryGeneric,
+} from "convex/server";
+import type { Auth, GenericDatabaseReader, GenericDataModel, StorageReader } from "convex/server";
 import { v } from "convex/values";
-import { fal } from "@fal-ai/client";
-import { InferenceClient } from "@huggingface/inference";
-
-const FAL_MODEL_NAME = "fal-ai/nano-banana-pro";
-const HUGGINGFACE_MODEL_NAME = "ByteDance/SDXL-Lightning";
-
-const HUGGINGFACE_BASE_SIZE = 1024;
-
-type AspectRatio = "1:1" | "4:3" | "3:2" | "16:9" | "9:16";
-type Resolution = "1K" | "2K" | "4K";
-type OutputFormat = "png" | "jpeg" | "webp";
-type Provider = "fal" | "huggingface";
-
-const aspectRatioValidator = v.union(
-  v.literal("1:1"),
-  v.literal("4:3"),
-  v.literal("3:2"),
-  v.literal("16:9"),
-  v.literal("9:16")
-);
-const resolutionValidator = v.union(v.literal("1K"), v.literal("2K"), v.literal("4K"));
-const outputFormatValidator = v.union(v.literal("png"), v.literal("jpeg"), v.literal("webp"));
-const providerValidator = v.union(v.literal("fal"), v.literal("huggingface"));
-
-const ASPECT_RATIO_MAP: Record<AspectRatio, [number, number]> = {
-  "1:1": [1, 1],
-  "4:3": [4, 3],
-  "3:2": [3, 2],
-  "16:9": [16, 9],
-  "9:16": [9, 16],
-};
-
-const roundToMultiple = (value: number, multiple: number) =>
-  Math.max(multiple, Math.round(value / multiple) * multiple);
+import type { GenericId } from "convex/values";
+import { recordOutcome } from "./lib/analytics";
+import { canViewImage, requireMembership, requireOwnedImage, requireUserId } from "./lib/auth";
+import {
+  aspectRatioValidator,
+  isActiveStatus,
+  outputFormatValidator,
+  progressValidator,
+  RESOLUTION_BASE_SIZE,
+  resolutionValidator,
+  sameProgress,
+} from "./lib/generation";
+import type {
+  AspectRatio,
+  GenerationMode,
+  GenerationProgress,
+  OutputFormat,
+  Resolution,
+} from "./lib/generation";
+import { galleryFiltersValidator, queryGallery, resolveGalleryScope } from "./lib/gallery";
+import {
+  blockGeneration,
+  cancelGeneration,
+  completeGeneration,
+  enqueueGeneration,
+  generationArgs,
+  outputSettingsFor,
+} from "./lib/jobs";
+import {
+  combineDecisions,
+  getPromptClassifier,
+  looksLikeSafetyRefusal,
+  moderationDecisionValidator,
+  recordModerationEvent,
+  rejectionMessage,
+} from "./lib/moderation";
+import type { ModerationDecision } from "./lib/moderation";
+import {
+  deleteStoredOutputs,
+  remoteImageValidator,
+  resolveOutputs,
+  storedImageValidator,
+  storeGeneratedImage,
+} from "./lib/outputs";
+import type { OutputSettings, StoredImage } from "./lib/outputs";
+import { advancedParamsValidator } from "./lib/parameters";
+import type { AdvancedParams } from "./lib/parameters";
+import { getProvider, providerValidator } from "./lib/providers";
+import { loadRatings } from "./lib/ratings";
+import type { GenerationResult, Provider, ProviderProgress } from "./lib/providers";
+import { attemptValidator, getErrorMessage, withRetry } from "./lib/retry";
+import { resolveSourceUrls, toSourceInput } from "./lib/sources";
+import type { SourceImage } from "./lib/sources";
+import { MAX_BULK_IDS, purgeImage } from "./lib/trash";
+import { issueUploadTicket } from "./lib/uploads";
+import { settleCost } from "./lib/usage";
+import { buildWebhookUrl } from "./lib/webhooks";
+
+const GALLERY_COUNT_LIMIT = 1000;
+const PROGRESS_POLL_MS = 3000;
 
-const normalizeProvider = (provider?: string): Provider =>
-  provider === "huggingface" ? "huggingface" : "fal";
-
-const resolveHuggingFaceDimensions = (aspectRatio: AspectRatio) => {
-  const [ratioWidth, ratioHeight] = ASPECT_RATIO_MAP[aspectRatio] ?? [1, 1];
-  const scale = HUGGINGFACE_BASE_SIZE / Math.max(ratioWidth, ratioHeight);
+export const list = queryGeneric({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    search: v.optional(v.string()),
+    filters: v.optional(galleryFiltersValidator),
+    workspaceId: v.optional(v.id("workspaces")),
+  },
+  handler: async (ctx, { paginationOpts, search, filters, workspaceId }) => {
+    const { db, storage } = ctx;
+    const userId = await requireUserId(ctx);
+    const scope = await resolveGalleryScope(ctx, workspaceId, filters?.trashed);
+    const result = await queryGallery(db, scope, search, filters ?? {}).paginate(paginationOpts);
+
+    return {
+      ...result,
+      page: await Promise.all(
+        result.page.map(async (row) => ({
+          ...row,
+          outputs: await resolveOutputs(storage, row),
+          sourceImages: await resolveSourceUrls(
+            storage,
+            row.sourceImages as SourceImage[] | undefined
+          ),
+          ratings: await loadRatings(db, userId, row._id as GenericId<"images">),
+        }))
+      ),
+    };
+  },
+});
 
-  const width = roundToMultiple(ratioWidth * scale, 64);
-  const height = roundToMultiple(ratioHeight * scale, 64);
+/** One generation for the detail view; null when it is missing or not visible to the caller. */
+export const get = queryGeneric({
+  args: {
+    id: v.string(),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    // The id comes straight from the URL, so tolerate anything that is not an image id.
+    const imageId = ctx.db.normalizeId("images", id);
+    const image = imageId ? await ctx.db.get(imageId) : null;
+    if (!image || !(await canViewImage(ctx.db, userId, image))) {
+      return null;
+    }
 
-  return {
-    width,
-    height,
-  };
-};
+    return {
+      ...image,
+      outputs: await resolveOutputs(ctx.storage, image),
+      sourceImages: await resolveSourceUrls(
+        ctx.storage,
+        image.sourceImages as SourceImage[] | undefined
+      ),
+      ratings: await loadRatings(ctx.db, userId, image._id as GenericId<"images">),
+    };
+  },
+});
 
-export const list = queryGeneric({
+/** Matching row count for the gallery badge, capped so large tables stay cheap. */
+export const count = queryGeneric({
   args: {
-    limit: v.optional(v.number()),
+    search: v.optional(v.string()),
+    filters: v.optional(galleryFiltersValidator),
+    workspaceId: v.optional(v.id("workspaces")),
   },
-  handler: async ({ db }, { limit }) => {
-    const cappedLimit = limit ?? 24;
-    return db
-      .query("images")
-      .withIndex("by_created_at")
-      .order("desc")
-      .take(cappedLimit);
+  handler: async (ctx, { search, filters, workspaceId }) => {
+    const scope = await resolveGalleryScope(ctx, workspaceId, filters?.trashed);
+    const rows = await queryGallery(ctx.db, scope, search, filters ?? {}).take(
+      GALLERY_COUNT_LIMIT + 1
+    );
+    return {
+      count: Math.min(rows.length, GALLERY_COUNT_LIMIT),
+      capped: rows.length > GALLERY_COUNT_LIMIT,
+    };
   },
 });
 
-export const create = mutationGeneric({
+export const create = internalMutationGeneric({
   args: {
+    ownerId: v.optional(v.id("users")),
+    workspaceId: v.optional(v.id("workspaces")),
     prompt: v.string(),
     model: v.string(),
     provider: providerValidator,
@@ -74,6 +156,7 @@ export const create = mutationGeneric({
     resolution: resolutionValidator,
     outputFormat: outputFormatValidator,
     numImages: v.number(),
+    parameters: v.optional(advancedParamsValidator),
     status: v.string(),
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -83,11 +166,11 @@ export const create = mutationGeneric({
   },
 });
 
-export const update = mutationGeneric({
+export const update = internalMutationGeneric({
   args: {
     id: v.id("images"),
     status: v.optional(v.string()),
-    imageUrls: v.optional(v.array(v.string())),
+    outputs: v.optional(v.array(storedImageValidator)),
     requestId: v.optional(v.string()),
     error: v.optional(v.string()),
     updatedAt: v.number(),
@@ -97,126 +180,776 @@ export const update = mutationGeneric({
   },
 });
 
-const createImage = makeFunctionReference<"mutation">("images:create");
-const updateImage = makeFunctionReference<"mutation">("images:update");
+/**
+ * An upload URL for one file. The checksum goes on a ticket so the file can
+ * later be proven to be the caller's; see `lib/uploads.ts`.
+ */
+export const generateUploadUrl = mutationGeneric({
+  args: {
+    sha256: v.string(),
+  },
+  handler: async (ctx, { sha256 }) => {
+    const userId = await requireUserId(ctx);
+    await issueUploadTicket(ctx.db, userId, sha256);
+    return ctx.storage.generateUploadUrl();
+  },
+});
 
-export const generate = actionGeneric({
+/** Shares a generation with one of the owner's workspaces, or makes it private again. */
+export const setWorkspace = mutationGeneric({
   args: {
-    prompt: v.string(),
-    aspectRatio: aspectRatioValidator,
-    resolution: resolutionValidator,
-    outputFormat: outputFormatValidator,
-    numImages: v.optional(v.number()),
-    provider: v.optional(providerValidator),
+    id: v.id("images"),
+    workspaceId: v.optional(v.id("workspaces")),
   },
+  handler: async (ctx, { id, workspaceId }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnedImage(ctx.db, userId, id);
+    if (workspaceId) {
+      await requireMembership(ctx.db, workspaceId, userId);
+    }
+
+    await ctx.db.patch(id, { workspaceId, updatedAt: Date.now() });
+  },
+});
+
+const startJob = makeFunctionReference<"mutation">("images:start");
+const settleJob = makeFunctionReference<"mutation">("images:settle");
+const recordAttemptRef = makeFunctionReference<"mutation">("images:recordAttempt");
+const noteRequestRef = makeFunctionReference<"mutation">("images:noteRequest");
+const recordProgressRef = makeFunctionReference<"mutation">("images:recordProgress");
+const pollProgressRef = makeFunctionReference<"action">("images:pollProgress");
+const applyModerationRef = makeFunctionReference<"mutation">("images:applyModeration");
+const awaitsRequestRef = makeFunctionReference<
+  "query",
+  { id: GenericId<"images">; requestId: string },
+  OutputSettings | null
+>("images:awaitsRequest");
+const completeRequestRef = makeFunctionReference<"mutation">("images:completeRequest");
+const storeCallbackRef = makeFunctionReference<"action">("images:storeCallback");
+
+export const generate = mutationGeneric({
+  args: generationArgs,
   handler: async (ctx, args) => {
-    const requestedAt = Date.now();
-    const provider = normalizeProvider(args.provider);
-    const numImages = Math.min(4, Math.max(1, args.numImages ?? 1));
-    const modelName = provider === "huggingface" ? HUGGINGFACE_MODEL_NAME : FAL_MODEL_NAME;
-    const resolvedResolution: Resolution = provider === "huggingface" ? "1K" : args.resolution;
-    const resolvedOutputFormat: OutputFormat =
-      provider === "huggingface" ? "png" : args.outputFormat;
-
-    const imageId = await ctx.runMutation(createImage, {
-      prompt: args.prompt,
-      model: modelName,
-      provider,
-      aspectRatio: args.aspectRatio,
-      resolution: resolvedResolution,
-      outputFormat: resolvedOutputFormat,
-      numImages,
-      status: "queued",
-      createdAt: requestedAt,
-      updatedAt: requestedAt,
-    });
+    const ownerId = await requireUserId(ctx);
+    return enqueueGeneration(ctx, ownerId, args);
+  },
+});
 
-    try {
-      if (provider === "huggingface") {
-        const huggingFaceToken = process.env.HF_TOKEN;
-        if (!huggingFaceToken) {
-          throw new Error("Missing HF_TOKEN environment variable.");
-        }
+export const cancel = mutationGeneric({
+  args: {
+    id: v.id("images"),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    const image = await requireOwnedImage(ctx.db, userId, id);
+    const status = image.status as string;
+    if (!isActiveStatus(status)) {
+      throw new Error(`Cannot cancel a ${status} generation.`);
+    }
 
-        const { width, height } = resolveHuggingFaceDimensions(args.aspectRatio);
-        const imageUrls: string[] = [];
-        const hf = new InferenceClient(huggingFaceToken);
-
-        for (let index = 0; index < numImages; index += 1) {
-          const imageBlob = await hf.textToImage(
-            {
-              model: HUGGINGFACE_MODEL_NAME,
-              inputs: args.prompt,
-              parameters: {
-                width,
-                height,
-              },
-            },
-            { outputType: "blob" }
-          );
-
-          const storageId = await ctx.storage.store(imageBlob);
-          const url = await ctx.storage.getUrl(storageId);
-
-          if (url) {
-            imageUrls.push(url);
-          }
-        }
+    await cancelGeneration(ctx, image);
+  },
+});
 
-        if (imageUrls.length === 0) {
-          throw new Error("Hugging Face returned no images.");
-        }
+const loadOwnedImages = async (
+  ctx: { auth: Auth; db: GenericDatabaseReader<GenericDataModel> },
+  ids: GenericId<"images">[]
+) => {
+  if (ids.length > MAX_BULK_IDS) {
+    throw new Error(`Select at most ${MAX_BULK_IDS} generations at a time.`);
+  }
+  const userId = await requireUserId(ctx);
+  return Promise.all(ids.map((id) => requireOwnedImage(ctx.db, userId, id)));
+};
 
-        await ctx.runMutation(updateImage, {
-          id: imageId,
-          status: "complete",
-          imageUrls,
-          updatedAt: Date.now(),
-        });
+/** Moves generations to the trash, cancelling any that are still running. */
+export const remove = mutationGeneric({
+  args: {
+    ids: v.array(v.id("images")),
+  },
+  handler: async (ctx, { ids }) => {
+    const images = await loadOwnedImages(ctx, ids);
+    const deletedAt = Date.now();
+    for (const image of images) {
+      if (image.deletedAt !== undefined) {
+        continue;
+      }
+      if (isActiveStatus(image.status as string)) {
+        await cancelGeneration(ctx, image);
+      }
+      await ctx.db.patch(image._id as GenericId<"images">, { deletedAt, updatedAt: deletedAt });
+    }
+  },
+});
+
+export const restore = mutationGeneric({
+  args: {
+    ids: v.array(v.id("images")),
+  },
+  handler: async (ctx, { ids }) => {
+    const images = await loadOwnedImages(ctx, ids);
+    for (const image of images) {
+      await ctx.db.patch(image._id as GenericId<"images">, {
+        deletedAt: undefined,
+        updatedAt: Date.now(),
+      });
+    }
+  },
+});
 
-        return { id: imageId, imageUrls };
+/** Deletes trashed generations and their files now instead of after the retention window. */
+export const purge = mutationGeneric({
+  args: {
+    ids: v.array(v.id("images")),
+  },
+  handler: async (ctx, { ids }) => {
+    const images = await loadOwnedImages(ctx, ids);
+    for (const image of images) {
+      if (image.deletedAt === undefined) {
+        throw new Error("Move a generation to the trash before deleting it permanently.");
       }
+      await purgeImage(ctx, image);
+    }
+  },
+});
+
+const MAX_VARIATIONS = 4;
+
+/**
+ * Re-runs a generation with the same settings and a fresh seed per variation,
+ * optionally with a tweaked prompt. Each new row points back at the original.
+ */
+export const variations = mutationGeneric({
+  args: {
+    id: v.id("images"),
+    count: v.optional(v.number()),
+    prompt: v.optional(v.string()),
+  },
+  handler: async (ctx, { id, count, prompt }) => {
+    const ownerId = await requireUserId(ctx);
+    const parent = await ctx.db.get(id);
+    if (!parent || !(await canViewImage(ctx.db, ownerId, parent))) {
+      throw new Error("Generation not found.");
+    }
+
+    const sources = (parent.sourceImages ?? []) as SourceImage[];
+    const total = Math.min(MAX_VARIATIONS, Math.max(1, count ?? 1));
+    const ids = [];
+    for (let index = 0; index < total; index += 1) {
+      ids.push(
+        await enqueueGeneration(ctx, ownerId, {
+          prompt: prompt?.trim() || (parent.prompt as string),
+          aspectRatio: parent.aspectRatio as AspectRatio,
+          resolution: parent.resolution as Resolution,
+          outputFormat: parent.outputFormat as OutputFormat,
+          outputQuality: parent.outputQuality as number | undefined,
+          numImages: parent.numImages as number,
+          provider: parent.provider as Provider,
+          // Dropping the seed lets `resolveParameters` roll a new one per variation.
+          parameters: { ...(parent.parameters as AdvancedParams | undefined), seed: undefined },
+          mode: parent.mode as GenerationMode | undefined,
+          sourceImages: sources.map(toSourceInput(id)),
+          workspaceId: parent.workspaceId as GenericId<"workspaces"> | undefined,
+          parentId: id,
+          allowDuplicate: true,
+        })
+      );
+    }
+    return ids;
+  },
+});
+
+/**
+ * Queues an enlarged copy of one output as a new generation derived from it.
+ * Hugging Face's super-resolution model does the work when a token is set;
+ * otherwise the image is resampled locally.
+ */
+export const upscale = mutationGeneric({
+  args: {
+    id: v.id("images"),
+    outputIndex: v.optional(v.number()),
+    resolution: resolutionValidator,
+  },
+  handler: async (ctx, { id, outputIndex = 0, resolution }) => {
+    const ownerId = await requireUserId(ctx);
+    const source = await ctx.db.get(id);
+    if (!source || !(await canViewImage(ctx.db, ownerId, source))) {
+      throw new Error("Generation not found.");
+    }
+    const output = (source.outputs as StoredImage[] | undefined)?.[outputIndex];
+    if (!output) {
+      throw new Error("That generation has no image to upscale.");
+    }
+    if (Math.max(output.width ?? 0, output.height ?? 0) >= RESOLUTION_BASE_SIZE[resolution]) {
+      throw new Error(`This image is already ${resolution} or larger.`);
+    }
+
+    return enqueueGeneration(ctx, ownerId, {
+      prompt: source.prompt as string,
+      aspectRatio: source.aspectRatio as AspectRatio,
+      resolution,
+      outputFormat: source.outputFormat as OutputFormat,
+      outputQuality: source.outputQuality as number | undefined,
+      provider: "huggingface",
+      mode: "upscale",
+      sourceImages: [{ kind: "generation", imageId: id, outputIndex }],
+      workspaceId: source.workspaceId as GenericId<"workspaces"> | undefined,
+      parentId: id,
+    });
+  },
+});
 
-      const falKey = process.env.FAL_KEY;
-      if (!falKey) {
-        throw new Error("Missing FAL_KEY environment variable.");
+/** Every visible generation in the tree that grew from the same original prompt. */
+export const lineage = queryGeneric({
+  args: {
+    id: v.id("images"),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    const image = await ctx.db.get(id);
+    if (!image || !(await canViewImage(ctx.db, userId, image))) {
+      throw new Error("Generation not found.");
+    }
+
+    const rootId = (image.rootId as GenericId<"images"> | undefined) ?? id;
+    const root = await ctx.db.get(rootId);
+    const descendants = await ctx.db
+      .query("images")
+      .withIndex("by_root", (q) => q.eq("rootId", rootId))
+      .collect();
+
+    const visible = [];
+    for (const row of root ? [root, ...descendants] : descendants) {
+      if (row.deletedAt === undefined && (await canViewImage(ctx.db, userId, row))) {
+        visible.push(row);
       }
+    }
+    return Promise.all(
+      visible.map(async (row) => ({
+        _id: row._id,
+        parentId: row.parentId,
+        prompt: row.prompt,
+        status: row.status,
+        parameters: row.parameters,
+        createdAt: row.createdAt,
+        thumbnailUrl: (await resolveOutputs(ctx.storage, row))[0]?.thumbnailUrl ?? null,
+      }))
+    );
+  },
+});
 
-      fal.config({ credentials: falKey });
+/** Moves a queued row to running; returns null when the job was cancelled first. */
+export const start = internalMutationGeneric({
+  args: {
+    id: v.id("images"),
+  },
+  handler: async ({ db }, { id }) => {
+    const image = await db.get(id);
+    if (!image || image.status !== "queued") {
+      return null;
+    }
 
-      const result = await fal.subscribe(FAL_MODEL_NAME, {
-        input: {
-          prompt: args.prompt,
-          aspect_ratio: args.aspectRatio,
-          resolution: resolvedResolution,
-          output_format: resolvedOutputFormat,
-          num_images: numImages,
-        },
-      });
+    const startedAt = Date.now();
+    await db.patch(id, { status: "running", startedAt, updatedAt: startedAt });
+    return image;
+  },
+});
 
-      const imageUrls = result.data?.images?.map((image) => image.url).filter(Boolean) ?? [];
-      const requestId = result.requestId ?? undefined;
+/** Saves the provider request id as soon as it exists, so the reaper can recover the job. */
+export const noteRequest = internalMutationGeneric({
+  args: {
+    id: v.id("images"),
+    requestId: v.string(),
+  },
+  handler: async ({ db }, { id, requestId }) => {
+    const image = await db.get(id);
+    if (!image || image.status !== "running") {
+      return;
+    }
 
-      await ctx.runMutation(updateImage, {
-        id: imageId,
-        status: "complete",
-        imageUrls,
-        requestId,
-        updatedAt: Date.now(),
-      });
+    await db.patch(id, { requestId, updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Saves the latest queue position and logs for a submitted job. Returns false
+ * once the row stopped running or moved to another request, so polling ends.
+ * Unchanged progress is not written, so subscribed galleries stay quiet, and
+ * `updatedAt` is left alone so the reaper still notices a job that never finishes.
+ */
+export const recordProgress = internalMutationGeneric({
+  args: {
+    id: v.id("images"),
+    requestId: v.string(),
+    progress: v.optional(progressValidator),
+  },
+  handler: async ({ db }, { id, requestId, progress }) => {
+    const image = await db.get(id);
+    if (!image || image.status !== "running" || image.requestId !== requestId) {
+      return false;
+    }
 
-      return { id: imageId, imageUrls, requestId };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unexpected image generation error.";
+    if (progress && !sameProgress(image.progress as GenerationProgress | undefined, progress)) {
+      await db.patch(id, { progress });
+    }
+    return true;
+  },
+});
 
-      await ctx.runMutation(updateImage, {
-        id: imageId,
-        status: "failed",
-        error: message,
-        updatedAt: Date.now(),
-      });
+/**
+ * The output settings to store a provider callback's images with, or null when
+ * the callback may no longer settle the row.
+ */
+export const awaitsRequest = internalQueryGeneric({
+  args: {
+    id: v.id("images"),
+    requestId: v.string(),
+  },
+  handler: async ({ db }, { id, requestId }): Promise<OutputSettings | null> => {
+    const image = await db.get(id);
+    // The callback can beat `noteRequest` on very fast jobs, so a missing id is accepted.
+    if (
+      !image ||
+      image.status !== "running" ||
+      (image.requestId !== undefined && image.requestId !== requestId)
+    ) {
+      return null;
+    }
+    return outputSettingsFor(image);
+  },
+});
+
+const callbackArgs = {
+  id: v.id("images"),
+  requestId: v.string(),
+  images: v.array(remoteImageValidator),
+  error: v.optional(v.string()),
+  refused: v.optional(v.boolean()),
+};
+
+/**
+ * Records a provider callback and schedules `storeCallback` to copy its images,
+ * so the HTTP route can answer before the provider's delivery times out.
+ * Returns false for callbacks the row no longer waits for, including repeated
+ * deliveries of one already accepted.
+ */
+export const acceptCallback = internalMutationGeneric({
+  args: callbackArgs,
+  handler: async ({ db, scheduler }, payload) => {
+    const image = await db.get(payload.id);
+    if (
+      !image ||
+      image.status !== "running" ||
+      image.callbackAt !== undefined ||
+      (image.requestId !== undefined && image.requestId !== payload.requestId)
+    ) {
+      return false;
+    }
+
+    const now = Date.now();
+    // A fresh `updatedAt` gives the copy a full deadline before the reaper steps in.
+    await db.patch(payload.id, { requestId: payload.requestId, callbackAt: now, updatedAt: now });
+    await scheduler.runAfter(0, storeCallbackRef, payload);
+    return true;
+  },
+});
+
+/** Copies an accepted callback's images into storage and settles the row. */
+export const storeCallback = internalActionGeneric({
+  args: callbackArgs,
+  handler: async (ctx, { id, requestId, images, error, refused }) => {
+    const settings = await ctx.runQuery(awaitsRequestRef, { id, requestId });
+    if (!settings) {
+      return;
+    }
+
+    const outputs: StoredImage[] = [];
+    let storeError: string | undefined;
+    try {
+      for (const image of images) {
+        outputs.push(await storeGeneratedImage(ctx, image, settings));
+      }
+    } catch (caught) {
+      storeError = getErrorMessage(caught);
+    }
+
+    const settled: boolean = await ctx.runMutation(completeRequestRef, {
+      id,
+      requestId,
+      outputs,
+      error: error ?? storeError,
+      refused,
+    });
+    if (!settled) {
+      await deleteStoredOutputs(ctx.storage, outputs);
+    }
+  },
+});
+
+/** Settles a webhook-backed job; false when the row moved on and the outputs are unwanted. */
+export const completeRequest = internalMutationGeneric({
+  args: {
+    id: v.id("images"),
+    requestId: v.string(),
+    outputs: v.array(storedImageValidator),
+    error: v.optional(v.string()),
+    refused: v.optional(v.boolean()),
+  },
+  handler: async ({ db }, { id, requestId, outputs, error, refused }) => {
+    const image = await db.get(id);
+    if (
+      !image ||
+      image.status !== "running" ||
+      (image.requestId !== undefined && image.requestId !== requestId)
+    ) {
+      return false;
+    }
+
+    await db.patch(id, { requestId });
+    await completeGeneration(db, { ...image, requestId }, outputs, error, refused);
+    return true;
+  },
+});
+
+/**
+ * Copies queue position and logs onto the row while a webhook-backed job
+ * waits. Each poll is a short action, so slow renders never hold one open.
+ */
+export const pollProgress = internalActionGeneric({
+  args: {
+    id: v.id("images"),
+    provider: v.string(),
+    model: v.string(),
+    requestId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const adapter = getProvider(args.provider);
+    let progress: ProviderProgress | undefined;
+    try {
+      progress = await adapter.getProgress?.(ctx, args);
+    } catch {
+      // A failed lookup only skips this update; the webhook or the reaper settles the row.
+    }
+
+    const stillRunning: boolean = await ctx.runMutation(recordProgressRef, {
+      id: args.id,
+      requestId: args.requestId,
+      progress: progress && { queuePosition: progress.queuePosition, logs: progress.logs },
+    });
+    if (stillRunning && !progress?.done) {
+      await ctx.scheduler.runAfter(PROGRESS_POLL_MS, pollProgressRef, args);
+    }
+  },
+});
+
+/**
+ * Appends one provider attempt (and any outputs it stored) to the row.
+ * Returns false once the row is no longer running so the worker can stop.
+ */
+export const recordAttempt = internalMutationGeneric({
+  args: {
+    id: v.id("images"),
+    attempt: attemptValidator,
+    outputs: v.optional(v.array(storedImageValidator)),
+  },
+  handler: async ({ db }, { id, attempt, outputs }) => {
+    const image = await db.get(id);
+    if (!image || image.status !== "running") {
+      return false;
+    }
+
+    await db.patch(id, {
+      attempts: [...(image.attempts ?? []), attempt],
+      outputs: outputs ? [...(image.outputs ?? []), ...outputs] : image.outputs,
+      updatedAt: Date.now(),
+    });
+    return true;
+  },
+});
+
+/**
+ * Logs the worker's classifier verdict. Returns false after blocking the row on
+ * a reject, or when the row stopped running, so the worker never calls the provider.
+ */
+export const applyModeration = internalMutationGeneric({
+  args: {
+    id: v.id("images"),
+    classifier: v.string(),
+    decision: moderationDecisionValidator,
+  },
+  handler: async ({ db }, { id, classifier, decision }) => {
+    const image = await db.get(id);
+    if (!image || image.status !== "running") {
+      return false;
+    }
+
+    await recordModerationEvent(db, {
+      userId: image.ownerId as GenericId<"users"> | undefined,
+      imageId: id,
+      prompt: image.prompt as string,
+      source: "classifier",
+      decision,
+      classifier,
+    });
+    if (decision.action === "allow") {
+      return true;
+    }
+
+    const existing = image.moderation as Pick<ModerationDecision, "action" | "reasons"> | undefined;
+    const merged = combineDecisions(
+      { ...(existing ?? { action: "allow", reasons: [] }), ruleIds: [] },
+      decision
+    );
+    const moderation = { action: merged.action, reasons: merged.reasons };
+    if (decision.action !== "reject") {
+      await db.patch(id, { moderation, updatedAt: Date.now() });
+      return true;
+    }
+
+    const cost = await settleCost(db, image);
+    const completedAt = Date.now();
+    const settled = {
+      status: "blocked",
+      error: rejectionMessage(decision),
+      moderation,
+      cost,
+      completedAt,
+      updatedAt: completedAt,
+    };
+    await db.patch(id, settled);
+    await recordOutcome(db, { ...image, ...settled });
+    return false;
+  },
+});
+
+/**
+ * Records the worker outcome unless the row was cancelled while it ran. For
+ * `blocked`, `error` carries the provider's raw refusal for the moderation log.
+ */
+export const settle = internalMutationGeneric({
+  args: {
+    id: v.id("images"),
+    status: v.union(
+      v.literal("complete"),
+      v.literal("partial"),
+      v.literal("failed"),
+      v.literal("blocked")
+    ),
+    requestId: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  handler: async ({ db }, { id, ...fields }) => {
+    const image = await db.get(id);
+    if (!image || image.status !== "running") {
+      return;
+    }
+    if (fields.status === "blocked") {
+      await blockGeneration(
+        db,
+        { ...image, ...(fields.requestId ? { requestId: fields.requestId } : {}) },
+        fields.error ?? ""
+      );
+      return;
+    }
+
+    const cost = await settleCost(db, image);
+    const completedAt = Date.now();
+    const settled = { ...fields, cost, completedAt, updatedAt: completedAt };
+    await db.patch(id, settled);
+    await recordOutcome(db, { ...image, ...settled });
+  },
+});
+
+const resolveProviderSources = async (storage: StorageReader, sources: SourceImage[]) => {
+  const resolved = await resolveSourceUrls(storage, sources);
+  return resolved.map(({ storageId, url }) => {
+    if (!url) {
+      throw new Error("A reference image is no longer in storage.");
+    }
+    return { storageId, url };
+  });
+};
+
+export const worker = internalActionGeneric({
+  args: {
+    id: v.id("images"),
+  },
+  handler: async (ctx, { id }) => {
+    const image = await ctx.runMutation(startJob, { id });
+    if (!image) {
+      return;
+    }
+
+    const adapter = getProvider(image.provider);
+    const isRefusal = (caught: unknown) =>
+      Boolean(adapter.isSafetyRefusal?.(caught)) || looksLikeSafetyRefusal(getErrorMessage(caught));
+
+    const classifier = getPromptClassifier();
+    if (classifier) {
+      let proceed: boolean;
+      try {
+        proceed = await ctx.runMutation(applyModerationRef, {
+          id,
+          classifier: classifier.id,
+          decision: await classifier.classify(image.prompt),
+        });
+      } catch (caught) {
+        // Fail closed: an unchecked prompt never reaches the provider.
+        await ctx.runMutation(settleJob, {
+          id,
+          status: "failed",
+          error: `Moderation check failed: ${getErrorMessage(caught)}`,
+        });
+        return;
+      }
+      if (!proceed) {
+        return;
+      }
+    }
+
+    const batchSize = adapter.batchesImages ? image.numImages : 1;
+    let submittedRequestId: string | undefined;
+    let lastProgress = "";
+    const outputSettings = outputSettingsFor(image);
+    const request = {
+      prompt: image.prompt,
+      aspectRatio: image.aspectRatio,
+      resolution: image.resolution,
+      outputFormat: image.outputFormat,
+      parameters: image.parameters ?? {},
+      mode: image.mode ?? "text-to-image",
+      sourceImages: await resolveProviderSources(ctx.storage, image.sourceImages ?? []),
+      onSubmitted: async (requestId: string) => {
+        submittedRequestId = requestId;
+        await ctx.runMutation(noteRequestRef, { id, requestId });
+      },
+      onProgress: async ({ queuePosition, logs }: ProviderProgress) => {
+        // Polls repeat the same state, so only write when something changed.
+        const serialized = JSON.stringify({ queuePosition, logs });
+        if (!submittedRequestId || serialized === lastProgress) {
+          return;
+        }
+        lastProgress = serialized;
+        await ctx.runMutation(recordProgressRef, {
+          id,
+          requestId: submittedRequestId,
+          progress: { queuePosition, logs },
+        });
+      },
+    };
+    let producedCount = 0;
+    let requestId: string | undefined;
+    let error: string | undefined;
+    let refused = false;
+    let stillRunning = true;
+
+    const webhookUrl = adapter.submit ? await buildWebhookUrl(adapter.id, id) : null;
+    if (adapter.submit && webhookUrl) {
+      const submit = adapter.submit;
+      try {
+        const submitted = await withRetry({
+          policy: adapter.retryPolicy,
+          provider: adapter.id,
+          imageIndex: 0,
+          getRetryAfterMs: adapter.getRetryAfterMs,
+          task: () =>
+            submit(ctx, { ...request, numImages: image.numImages, imageIndex: 0 }, webhookUrl),
+          onAttempt: async (attempt) => {
+            stillRunning = await ctx.runMutation(recordAttemptRef, { id, attempt });
+            return stillRunning;
+          },
+        });
+        // From here the webhook settles the row; polling only reports progress.
+        await ctx.runMutation(noteRequestRef, { id, requestId: submitted });
+        await ctx.scheduler.runAfter(PROGRESS_POLL_MS, pollProgressRef, {
+          id,
+          provider: adapter.id,
+          model: image.model,
+          requestId: submitted,
+        });
+      } catch (caught) {
+        if (stillRunning) {
+          await ctx.runMutation(settleJob, {
+            id,
+            status: isRefusal(caught) ? "blocked" : "failed",
+            error: getErrorMessage(caught),
+          });
+        }
+      }
+      return;
+    }
+
+    for (let imageIndex = 0; imageIndex < image.numImages; imageIndex += batchSize) {
+      if (!stillRunning) {
+        break;
+      }
+
+      // Keep provider output across retries so a failed download never pays twice.
+      let generated: GenerationResult | undefined;
+
+      try {
+        const result = await withRetry({
+          policy: adapter.retryPolicy,
+          provider: adapter.id,
+          imageIndex,
+          getRetryAfterMs: adapter.getRetryAfterMs,
+          task: async () => {
+            generated =
+              generated ??
+              (await adapter.generate(ctx, {
+                ...request,
+                numImages: Math.min(batchSize, image.numImages - imageIndex),
+                imageIndex,
+              }));
+            const outputs: StoredImage[] = [];
+            try {
+              for (const providerImage of generated.images) {
+                outputs.push(await storeGeneratedImage(ctx, providerImage, outputSettings));
+              }
+            } catch (storeError) {
+              // The retry stores the whole batch again, so drop what this attempt kept.
+              await deleteStoredOutputs(ctx.storage, outputs);
+              throw storeError;
+            }
+            return { outputs, requestId: generated.requestId };
+          },
+          onAttempt: async (attempt, result) => {
+            stillRunning = await ctx.runMutation(recordAttemptRef, {
+              id,
+              attempt,
+              outputs: result?.outputs,
+            });
+            if (!stillRunning && result) {
+              // The row was cancelled or deleted meanwhile and never took these files.
+              await deleteStoredOutputs(ctx.storage, result.outputs);
+            }
+            return stillRunning;
+          },
+        });
+        producedCount += result.outputs.length;
+        requestId = requestId ?? result.requestId;
+      } catch (caught) {
+        error = getErrorMessage(caught);
+        refused = isRefusal(caught);
+        break;
+      }
+    }
+
+    if (!stillRunning) {
+      return;
+    }
 
-      throw error;
+    if (producedCount === 0) {
+      error = error ?? `${adapter.label} returned no images.`;
     }
+    const status = !error
+      ? "complete"
+      : producedCount > 0
+        ? "partial"
+        : refused
+          ? "blocked"
+          : "failed";
+
+    await ctx.runMutation(settleJob, { id, status, requestId, error });
   },
 });
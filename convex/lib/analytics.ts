@@ -0,0 +1,259 @@
+import { v } from "convex/values";
+import type {
+  GenericDatabaseWriter,
+  GenericDataModel,
+  GenericDocument,
+  IndexRangeBuilder,
+} from "convex/server";
+import type { GenericId } from "convex/values";
+import { dayKey } from "./usage";
+
+/** Upper bounds of the latency histogram buckets; one more bucket holds everything slower. */
+export const LATENCY_BUCKETS_MS = [
+  1_000, 2_000, 3_000, 5_000, 7_500, 10_000, 15_000, 20_000, 30_000, 45_000, 60_000, 90_000,
+  120_000, 180_000, 300_000, 600_000,
+];
+export const MAX_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ERROR_GROUPS = 20;
+const MAX_ERROR_LENGTH = 160;
+const OTHER_ERRORS = "Other errors";
+
+export const OUTCOMES = ["complete", "partial", "failed", "blocked", "cancelled"] as const;
+export type Outcome = (typeof OUTCOMES)[number];
+export type OutcomeCounts = Record<Outcome, number>;
+
+/** Values and how often they were seen, most frequent first. */
+export type Tally = { value: string; count: number }[];
+
+export const tallyValidator = v.array(v.object({ value: v.string(), count: v.number() }));
+
+export const outcomeCountsValidator = v.object({
+  complete: v.number(),
+  partial: v.number(),
+  failed: v.number(),
+  blocked: v.number(),
+  cancelled: v.number(),
+});
+
+const isOutcome = (status: string): status is Outcome =>
+  (OUTCOMES as readonly string[]).includes(status);
+
+const emptyOutcomes = (): OutcomeCounts => ({
+  complete: 0,
+  partial: 0,
+  failed: 0,
+  blocked: 0,
+  cancelled: 0,
+});
+
+/**
+ * Collapses the parts of an error that vary between occurrences (URLs, ids,
+ * numbers) so the same failure lands in one group.
+ */
+export const groupErrorMessage = (message: string) =>
+  message
+    .replace(/https?:\/\/\S+/g, "<url>")
+    .replace(/\b(?=[0-9a-z]*\d)[0-9a-z]{16,}\b/gi, "<id>")
+    .replace(/\d+(\.\d+)?/g, "#")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_ERROR_LENGTH);
+
+const addToTally = (tally: Tally, value: string, count = 1, limit = Infinity) => {
+  const next = tally.some((entry) => entry.value === value)
+    ? tally.map((entry) => (entry.value === value ? { value, count: entry.count + count } : entry))
+    : [...tally, { value, count }];
+  next.sort((a, b) => b.count - a.count);
+  if (next.length <= limit) {
+    return next;
+  }
+  // Fold the rarest groups together so one noisy provider cannot grow the row forever.
+  const kept = next.filter((entry) => entry.value !== OTHER_ERRORS).slice(0, limit - 1);
+  const folded = next
+    .filter((entry) => !kept.includes(entry))
+    .reduce((total, entry) => total + entry.count, 0);
+  return [...kept, { value: OTHER_ERRORS, count: folded }];
+};
+
+const latencyBucket = (latencyMs: number) => {
+  const index = LATENCY_BUCKETS_MS.findIndex((bound) => latencyMs <= bound);
+  return index === -1 ? LATENCY_BUCKETS_MS.length : index;
+};
+
+/**
+ * Estimates a percentile (0-1) from a latency histogram, interpolating inside
+ * the bucket it falls in. The open-ended last bucket reports its lower bound.
+ */
+export const histogramPercentile = (histogram: number[], percentile: number) => {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return null;
+  }
+  const rank = percentile * total;
+  let seen = 0;
+  for (let index = 0; index < histogram.length; index += 1) {
+    const count = histogram[index];
+    if (count > 0 && seen + count >= rank) {
+      const lower = index === 0 ? 0 : LATENCY_BUCKETS_MS[index - 1];
+      const upper = LATENCY_BUCKETS_MS[index];
+      if (upper === undefined) {
+        return lower;
+      }
+      return Math.round(lower + ((upper - lower) * (rank - seen)) / count);
+    }
+    seen += count;
+  }
+  return LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1];
+};
+
+/** Bounds `by_owner_day` to one owner's buckets, before any condition on `day`. */
+export const ownerDayRange = (q: unknown, ownerId: GenericId<"users">) =>
+  (q as IndexRangeBuilder<GenericDocument, ["ownerId", "day"]>).eq("ownerId", ownerId);
+
+/**
+ * Folds one settled row into its owner's stats bucket for its creation day,
+ * provider and model. Call exactly once per row, when it leaves
+ * `queued`/`running` (or is blocked at queue time); latency is measured only
+ * for rows with outputs. Rows from before accounts have no owner and are skipped.
+ */
+export const recordOutcome = async (
+  db: GenericDatabaseWriter<GenericDataModel>,
+  image: GenericDocument
+) => {
+  const status = image.status as string;
+  const ownerId = image.ownerId as GenericId<"users"> | undefined;
+  if (!isOutcome(status) || !ownerId) {
+    return;
+  }
+  const createdAt = image.createdAt as number;
+  const day = dayKey(createdAt);
+  const provider = image.provider as string;
+  const model = image.model as string;
+  const existing = await db
+    .query("generation_stats")
+    .withIndex("by_owner_day", (q) => ownerDayRange(q, ownerId).eq("day", day))
+    .filter((q) => q.and(q.eq(q.field("provider"), provider), q.eq(q.field("model"), model)))
+    .first();
+
+  const produced = ((image.outputs as unknown[] | undefined) ?? []).length;
+  const finishedAt = (image.completedAt as number | undefined) ?? (image.updatedAt as number);
+  const histogram =
+    (existing?.latencyHistogram as number[] | undefined) ??
+    new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  const error = image.error as string | undefined;
+  const errors = (existing?.errors as Tally | undefined) ?? [];
+  const latencyMs = Math.max(0, finishedAt - createdAt);
+  const fields = {
+    generations: ((existing?.generations as number | undefined) ?? 0) + 1,
+    outcomes: {
+      ...((existing?.outcomes as OutcomeCounts | undefined) ?? emptyOutcomes()),
+      [status]: ((existing?.outcomes as OutcomeCounts | undefined)?.[status] ?? 0) + 1,
+    },
+    images: ((existing?.images as number | undefined) ?? 0) + produced,
+    latencyHistogram:
+      produced > 0
+        ? histogram.map((count, index) => (index === latencyBucket(latencyMs) ? count + 1 : count))
+        : histogram,
+    latencyTotalMs:
+      ((existing?.latencyTotalMs as number | undefined) ?? 0) + (produced > 0 ? latencyMs : 0),
+    errors:
+      error && status !== "complete" && status !== "cancelled"
+        ? addToTally(errors, groupErrorMessage(error), 1, MAX_ERROR_GROUPS)
+        : errors,
+    aspectRatios: addToTally(
+      (existing?.aspectRatios as Tally | undefined) ?? [],
+      image.aspectRatio as string
+    ),
+    resolutions: addToTally(
+      (existing?.resolutions as Tally | undefined) ?? [],
+      image.resolution as string
+    ),
+    updatedAt: Date.now(),
+  };
+
+  if (existing) {
+    await db.patch(existing._id as GenericId<"generation_stats">, fields);
+    return;
+  }
+  await db.insert("generation_stats", { ownerId, day, provider, model, ...fields });
+};
+
+const mergeTallies = (tallies: Tally[]) =>
+  tallies.flat().reduce<Tally>((merged, entry) => addToTally(merged, entry.value, entry.count), []);
+
+const sumOutcomes = (rows: GenericDocument[]) =>
+  rows.reduce<OutcomeCounts>((totals, row) => {
+    const outcomes = row.outcomes as OutcomeCounts;
+    return Object.fromEntries(
+      OUTCOMES.map((outcome) => [outcome, totals[outcome] + outcomes[outcome]])
+    ) as OutcomeCounts;
+  }, emptyOutcomes());
+
+/** Share of settled rows that produced every image; cancellations are left out. */
+const successRate = (outcomes: OutcomeCounts) => {
+  const settled = outcomes.complete + outcomes.partial + outcomes.failed + outcomes.blocked;
+  return settled === 0 ? null : outcomes.complete / settled;
+};
+
+const sumHistograms = (rows: GenericDocument[]) =>
+  rows.reduce<number[]>(
+    (totals, row) =>
+      totals.map((count, index) => count + ((row.latencyHistogram as number[])[index] ?? 0)),
+    new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0)
+  );
+
+/** The UTC days from `days - 1` days ago through today, oldest first. */
+export const windowDays = (now: number, days: number) =>
+  Array.from({ length: days }, (_, index) => dayKey(now - (days - 1 - index) * DAY_MS));
+
+/** Combines stats buckets into the dashboard's totals, per-model rows, daily series and tallies. */
+export const summarizeStats = (rows: GenericDocument[], days: string[]) => {
+  const outcomes = sumOutcomes(rows);
+  const histogram = sumHistograms(rows);
+  const models = new Map<string, GenericDocument[]>();
+  for (const row of rows) {
+    const key = `${row.provider as string}\u0000${row.model as string}`;
+    models.set(key, [...(models.get(key) ?? []), row]);
+  }
+
+  return {
+    days,
+    totals: {
+      generations: rows.reduce((total, row) => total + (row.generations as number), 0),
+      images: rows.reduce((total, row) => total + (row.images as number), 0),
+      outcomes,
+      successRate: successRate(outcomes),
+      p50Ms: histogramPercentile(histogram, 0.5),
+      p95Ms: histogramPercentile(histogram, 0.95),
+    },
+    models: [...models.values()]
+      .map((group) => {
+        const histogram = sumHistograms(group);
+        const groupOutcomes = sumOutcomes(group);
+        return {
+          provider: group[0].provider as string,
+          model: group[0].model as string,
+          generations: group.reduce((total, row) => total + (row.generations as number), 0),
+          outcomes: groupOutcomes,
+          successRate: successRate(groupOutcomes),
+          p50Ms: histogramPercentile(histogram, 0.5),
+          p95Ms: histogramPercentile(histogram, 0.95),
+        };
+      })
+      .sort((a, b) => b.generations - a.generations),
+    daily: days.map((day) => {
+      const dayRows = rows.filter((row) => row.day === day);
+      const dayOutcomes = sumOutcomes(dayRows);
+      return {
+        day,
+        generations: dayRows.reduce((total, row) => total + (row.generations as number), 0),
+        images: dayRows.reduce((total, row) => total + (row.images as number), 0),
+        failed: dayOutcomes.failed + dayOutcomes.blocked,
+      };
+    }),
+    errors: mergeTallies(rows.map((row) => row.errors as Tally)).slice(0, 10),
+    aspectRatios: mergeTallies(rows.map((row) => row.aspectRatios as Tally)),
+    resolutions: mergeTallies(rows.map((row) => row.resolutions as Tally)),
+  };
+};
@@ -0,0 +1,45 @@
+import type { GenericDatabaseReader, GenericDataModel, GenericDocument } from "convex/server";
+import type { GenericIndexFields, IndexRange, IndexRangeBuilder } from "convex/server";
+import type { GenericId } from "convex/values";
+import { sha256Hex, toHex } from "./crypto";
+
+export const API_KEY_PREFIX = "cis_";
+/** Characters of the key kept in plain text for display, prefix included. */
+const DISPLAY_PREFIX_LENGTH = 12;
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+export const MAX_RATE_LIMIT_PER_MINUTE = 600;
+export const RATE_LIMIT_WINDOW_MS = 60_000;
+/** Calls turned away by the limiter are logged but do not count against it. */
+export const RATE_LIMITED_STATUS = 429;
+export const API_REQUEST_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const generateApiKey = () => {
+  const key = `${API_KEY_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(24)))}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+};
+
+export const hashApiKey = (key: string) => sha256Hex(key);
+
+/** Bounds the `by_key_created` index to one key and calls at or after `since`. */
+export const keyCreatedRange = (
+  q: IndexRangeBuilder<GenericDocument, GenericIndexFields>,
+  keyId: GenericId<"apiKeys">,
+  since: number
+): IndexRange => {
+  // Generic builders type every index as `string[]`, which hides the second field.
+  const builder = q as unknown as IndexRangeBuilder<GenericDocument, ["keyId", "createdAt"]>;
+  return builder.eq("keyId", keyId).gte("createdAt", since);
+};
+
+/** Calls in the current window that count toward the key's limit, oldest first. */
+export const countedRequests = (
+  db: GenericDatabaseReader<GenericDataModel>,
+  keyId: GenericId<"apiKeys">,
+  now: number,
+  limit: number
+) =>
+  db
+    .query("apiRequests")
+    .withIndex("by_key_created", (q) => keyCreatedRange(q, keyId, now - RATE_LIMIT_WINDOW_MS))
+    .filter((q) => q.neq(q.field("status"), RATE_LIMITED_STATUS))
+    .take(limit);
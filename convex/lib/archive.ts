@@ -0,0 +1,276 @@
+import { v } from "convex/values";
+import type {
+  GenericDocument,
+  GenericIndexFields,
+  IndexRange,
+  IndexRangeBuilder,
+} from "convex/server";
+import type { GenericId, GenericValidator } from "convex/values";
+import { batchCellValidator } from "./batch";
+import { generationModeValidator, generationStatusValidator } from "./generation";
+import { moderationSummaryValidator } from "./moderation";
+import { advancedParamsValidator } from "./parameters";
+import { attemptValidator } from "./retry";
+
+export const ARCHIVE_FORMAT = "convex-image-studio-archive";
+export const ARCHIVE_VERSION = 1;
+export const MANIFEST_PATH = "manifest.json";
+export const MAX_EXPORT_GENERATIONS = 100;
+/**
+ * Archives are handled whole in a Node action (512 MB). An export holds every
+ * file and the finished ZIP at once, and an import holds the ZIP and every
+ * extracted file, so peak use is roughly twice this plus copies on the way
+ * into storage.
+ */
+export const MAX_ARCHIVE_BYTES = 64 * 1024 * 1024;
+/** How long an export's download link lives before the file is deleted. */
+export const EXPORT_LINK_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Fields copied between the row and the manifest unchanged. Owner, workspace,
+ * batch and job ids only mean something in the exporting deployment, so they
+ * are left out; lineage, template and file references are handled separately.
+ */
+const COPIED_FIELDS = [
+  "prompt",
+  "model",
+  "provider",
+  "aspectRatio",
+  "resolution",
+  "outputFormat",
+  "outputQuality",
+  "numImages",
+  "parameters",
+  "mode",
+  "status",
+  "estimatedCost",
+  "cost",
+  "createdAt",
+  "updatedAt",
+  "requestId",
+  "error",
+  "startedAt",
+  "completedAt",
+  "attempts",
+  "moderation",
+  "batchCell",
+] as const;
+
+export const pickCopiedFields = (row: GenericDocument) =>
+  Object.fromEntries(
+    COPIED_FIELDS.filter((field) => row[field] !== undefined).map((field) => [field, row[field]])
+  );
+
+/** The manifest keeps file paths in place of storage ids. */
+export const omitStorageId = <T extends { storageId: unknown }>(file: T) => {
+  const copy: Partial<T> = { ...file };
+  delete copy.storageId;
+  return copy as Omit<T, "storageId">;
+};
+
+/** Bounds `by_owner_created` to one owner's rows created at exactly `createdAt`. */
+export const ownerCreatedAtRange = (
+  q: IndexRangeBuilder<GenericDocument, GenericIndexFields>,
+  ownerId: GenericId<"users">,
+  createdAt: number
+): IndexRange => {
+  // Generic builders type every index as `string[]`, which hides the second field.
+  const builder = q as unknown as IndexRangeBuilder<GenericDocument, ["ownerId", "createdAt"]>;
+  return builder.eq("ownerId", ownerId).eq("createdAt", createdAt);
+};
+
+const archivedThumbnailValidator = v.object({
+  path: v.string(),
+  width: v.number(),
+  height: v.number(),
+  contentType: v.string(),
+  byteSize: v.number(),
+});
+
+const archivedOutputValidator = v.object({
+  /** Where the file sits inside the ZIP. */
+  path: v.string(),
+  width: v.optional(v.number()),
+  height: v.optional(v.number()),
+  contentType: v.string(),
+  byteSize: v.number(),
+  sourceUrl: v.optional(v.string()),
+  thumbnail: v.optional(archivedThumbnailValidator),
+  upscaler: v.optional(v.string()),
+});
+
+const archivedSourceValidator = v.object({
+  path: v.string(),
+  imageId: v.optional(v.string()),
+  outputIndex: v.optional(v.number()),
+});
+
+/** One `images` row in `manifest.json`, with storage ids swapped for paths in the ZIP. */
+export const archivedGenerationValidator = v.object({
+  /** The row's id in the exporting deployment; relinks lineage on import. */
+  id: v.string(),
+  parentId: v.optional(v.string()),
+  rootId: v.optional(v.string()),
+  prompt: v.string(),
+  model: v.string(),
+  provider: v.string(),
+  aspectRatio: v.string(),
+  resolution: v.string(),
+  outputFormat: v.string(),
+  outputQuality: v.optional(v.number()),
+  numImages: v.number(),
+  parameters: v.optional(advancedParamsValidator),
+  mode: v.optional(generationModeValidator),
+  status: generationStatusValidator,
+  estimatedCost: v.optional(v.number()),
+  cost: v.optional(v.number()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+  requestId: v.optional(v.string()),
+  error: v.optional(v.string()),
+  startedAt: v.optional(v.number()),
+  completedAt: v.optional(v.number()),
+  attempts: v.optional(v.array(attemptValidator)),
+  moderation: v.optional(moderationSummaryValidator),
+  batchCell: v.optional(batchCellValidator),
+  template: v.optional(
+    v.object({
+      templateId: v.string(),
+      name: v.string(),
+      version: v.number(),
+      preset: v.optional(v.string()),
+    })
+  ),
+  outputs: v.array(archivedOutputValidator),
+  sourceImages: v.array(archivedSourceValidator),
+});
+
+export type ArchivedThumbnail = {
+  path: string;
+  width: number;
+  height: number;
+  contentType: string;
+  byteSize: number;
+};
+
+export type ArchivedOutput = {
+  path: string;
+  width?: number;
+  height?: number;
+  contentType: string;
+  byteSize: number;
+  sourceUrl?: string;
+  thumbnail?: ArchivedThumbnail;
+  upscaler?: string;
+};
+
+export type ArchivedSource = {
+  path: string;
+  imageId?: string;
+  outputIndex?: number;
+};
+
+export type ArchivedGeneration = {
+  id: string;
+  parentId?: string;
+  rootId?: string;
+  prompt: string;
+  createdAt: number;
+  requestId?: string;
+  template?: { templateId: string; name: string; version: number; preset?: string };
+  outputs: ArchivedOutput[];
+  sourceImages: ArchivedSource[];
+  [field: string]: unknown;
+};
+
+export type ArchiveManifest = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  generations: ArchivedGeneration[];
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+/** A stable path inside the ZIP, e.g. `images/<id>/output-0.png`. */
+export const archivePath = (imageId: string, name: string, contentType: string) =>
+  `images/${imageId}/${name}.${FILE_EXTENSIONS[contentType] ?? "bin"}`;
+
+/** Reference images carry no content type in the manifest, so go by extension. */
+export const contentTypeForPath = (path: string) =>
+  Object.keys(FILE_EXTENSIONS).find((type) => path.endsWith(`.${FILE_EXTENSIONS[type]}`)) ??
+  "application/octet-stream";
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a value parsed from JSON fits a validator. Ids, bytes and int64 never
+ * appear in the manifest, so those kinds are not accepted.
+ */
+const matchesValidator = (validator: GenericValidator, value: unknown): boolean => {
+  if (value === undefined) {
+    return validator.isOptional === "optional";
+  }
+  switch (validator.kind) {
+    case "string":
+      return typeof value === "string";
+    case "float64":
+      return typeof value === "number";
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    case "any":
+      return true;
+    case "literal":
+      return value === validator.value;
+    case "array":
+      return (
+        Array.isArray(value) && value.every((item) => matchesValidator(validator.element, item))
+      );
+    case "record":
+      return (
+        isPlainObject(value) &&
+        Object.entries(value).every(
+          ([key, item]) =>
+            matchesValidator(validator.key, key) && matchesValidator(validator.value, item)
+        )
+      );
+    case "union":
+      return validator.members.some((member) => matchesValidator(member, value));
+    case "object":
+      return (
+        isPlainObject(value) &&
+        Object.keys(value).every((field) => field in validator.fields) &&
+        Object.entries(validator.fields).every(([field, fieldValidator]) =>
+          matchesValidator(fieldValidator, value[field])
+        )
+      );
+    default:
+      return false;
+  }
+};
+
+/** Throws unless the parsed `manifest.json` looks like one this version can import. */
+export const assertManifest = (value: unknown): ArchiveManifest => {
+  const manifest = value as Partial<ArchiveManifest> | null;
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.generations)) {
+    throw new Error("This ZIP is not an Image Studio archive.");
+  }
+  if (manifest.version !== ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${manifest.version} is not supported.`);
+  }
+  const invalid = manifest.generations.findIndex(
+    (generation) => !matchesValidator(archivedGenerationValidator, generation)
+  );
+  if (invalid !== -1) {
+    throw new Error(`Generation ${invalid + 1} in ${MANIFEST_PATH} is malformed.`);
+  }
+  return manifest as ArchiveManifest;
+};
@@ -0,0 +1,63 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Auth, GenericDatabaseReader, GenericDataModel } from "convex/server";
+import type { GenericId } from "convex/values";
+
+type Db = GenericDatabaseReader<GenericDataModel>;
+
+export const requireUserId = async (ctx: { auth: Auth }) => {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Sign in to continue.");
+  }
+  return userId;
+};
+
+export const getMembership = async (
+  db: Db,
+  workspaceId: GenericId<"workspaces">,
+  userId: GenericId<"users">
+) =>
+  db
+    .query("workspaceMembers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .filter((q) => q.eq(q.field("workspaceId"), workspaceId))
+    .unique();
+
+export const requireMembership = async (
+  db: Db,
+  workspaceId: GenericId<"workspaces">,
+  userId: GenericId<"users">
+) => {
+  const membership = await getMembership(db, workspaceId, userId);
+  if (!membership) {
+    throw new Error("You are not a member of this workspace.");
+  }
+  return membership;
+};
+
+/** Owners always see their rows; workspace members see rows shared with them. */
+export const canViewImage = async (
+  db: Db,
+  userId: GenericId<"users">,
+  image: { ownerId?: unknown; workspaceId?: unknown }
+) => {
+  if (image.ownerId === userId) {
+    return true;
+  }
+  if (!image.workspaceId) {
+    return false;
+  }
+  return Boolean(await getMembership(db, image.workspaceId as GenericId<"workspaces">, userId));
+};
+
+export const requireOwnedImage = async (
+  db: Db,
+  userId: GenericId<"users">,
+  imageId: GenericId<"images">
+) => {
+  const image = await db.get(imageId);
+  if (!image || image.ownerId !== userId) {
+    throw new Error("Generation not found.");
+  }
+  return image;
+};
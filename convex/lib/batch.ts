@@ -0,0 +1,78 @@
+import type { GenericDatabaseReader, GenericDataModel, GenericDocument } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { getMembership } from "./auth";
+
+export const MAX_BATCH_SIZE = 48;
+
+const WILDCARD = /\{([^{}]*\|[^{}]*)\}/;
+
+/** Where a row sits in its batch matrix, as indexes into the batch's axes. */
+export const batchCellValidator = v.object({
+  prompt: v.number(),
+  aspectRatio: v.number(),
+  provider: v.number(),
+  seed: v.number(),
+});
+
+export type BatchCell = {
+  prompt: number;
+  aspectRatio: number;
+  provider: number;
+  seed: number;
+};
+
+/** The owner sees a batch, and so do members of the workspace it was queued in. */
+export const canViewBatch = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  userId: GenericId<"users">,
+  batch: GenericDocument
+) => {
+  if (batch.ownerId === userId) {
+    return true;
+  }
+  const workspaceId = batch.workspaceId as GenericId<"workspaces"> | undefined;
+  return workspaceId ? Boolean(await getMembership(db, workspaceId, userId)) : false;
+};
+
+/**
+ * Expands `{a|b|c}` groups into every combination, left to right:
+ * `a {red|blue} {cat|dog}` gives four prompts. Braces without a `|` are kept.
+ */
+export const expandWildcards = (prompt: string, limit = MAX_BATCH_SIZE): string[] => {
+  const match = WILDCARD.exec(prompt);
+  if (!match) {
+    return [prompt];
+  }
+
+  const before = prompt.slice(0, match.index);
+  const after = prompt.slice(match.index + match[0].length);
+  const expanded: string[] = [];
+  for (const option of match[1].split("|")) {
+    for (const rest of expandWildcards(`${before}${option.trim()}${after}`, limit)) {
+      expanded.push(rest);
+      if (expanded.length > limit) {
+        return expanded;
+      }
+    }
+  }
+  return expanded;
+};
+
+/** One prompt per non-empty line, each expanded and de-duplicated. */
+export const expandPrompts = (prompts: string[], limit = MAX_BATCH_SIZE) => {
+  const expanded = new Set<string>();
+  for (const line of prompts) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+    for (const prompt of expandWildcards(trimmed, limit)) {
+      expanded.add(prompt.replace(/\s+/g, " ").trim());
+      if (expanded.size > limit) {
+        return [...expanded];
+      }
+    }
+  }
+  return [...expanded];
+};
@@ -0,0 +1,64 @@
+import type { GenericDatabaseReader, GenericDataModel, StorageReader } from "convex/server";
+import type { GenericId } from "convex/values";
+import { canViewImage } from "./auth";
+import { resolveOutputs } from "./outputs";
+import type { StoredImage } from "./outputs";
+
+export const MAX_COLLECTION_ITEMS = 500;
+
+export const requireOwnedCollection = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  userId: GenericId<"users">,
+  collectionId: GenericId<"collections">
+) => {
+  const collection = await db.get(collectionId);
+  if (!collection || collection.ownerId !== userId) {
+    throw new Error("Collection not found.");
+  }
+  return collection;
+};
+
+/** Fails unless the caller can see the generation and it has an output at that index. */
+export const requireViewableOutput = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  userId: GenericId<"users">,
+  imageId: GenericId<"images">,
+  outputIndex: number
+) => {
+  const image = await db.get(imageId);
+  if (!image || !(await canViewImage(db, userId, image))) {
+    throw new Error("Generation not found.");
+  }
+  if (!(image.outputs as StoredImage[] | undefined)?.[outputIndex]) {
+    throw new Error("That generation has no image at this position.");
+  }
+  return image;
+};
+
+/**
+ * What a favorites or collection tile shows for one output. Null when the
+ * generation was trashed, deleted or is no longer shared with the caller.
+ */
+export const resolveOutputTile = async (
+  ctx: { db: GenericDatabaseReader<GenericDataModel>; storage: StorageReader },
+  userId: GenericId<"users">,
+  imageId: GenericId<"images">,
+  outputIndex: number
+) => {
+  const image = await ctx.db.get(imageId);
+  if (!image || image.deletedAt !== undefined || !(await canViewImage(ctx.db, userId, image))) {
+    return null;
+  }
+  const output = (await resolveOutputs(ctx.storage, image))[outputIndex];
+  if (!output) {
+    return null;
+  }
+  return {
+    imageId,
+    outputIndex,
+    prompt: image.prompt as string,
+    aspectRatio: image.aspectRatio as string,
+    url: output.url,
+    thumbnailUrl: output.thumbnailUrl,
+  };
+};
@@ -0,0 +1,27 @@
+const encoder = new TextEncoder();
+
+export const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export const sha256Hex = async (value: string) =>
+  toHex(await crypto.subtle.digest("SHA-256", encoder.encode(value)));
+
+export const hmacSha256Hex = async (secret: string, value: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(value)));
+};
+
+/** Compares every character so the response time does not reveal a matching prefix. */
+export const timingSafeEqual = (expected: string, actual: string) => {
+  let difference = expected.length ^ actual.length;
+  for (let index = 0; index < expected.length; index += 1) {
+    difference |= expected.charCodeAt(index) ^ actual.charCodeAt(index);
+  }
+  return difference === 0;
+};
@@ -0,0 +1,129 @@
+import type { GenericDatabaseReader, GenericDataModel, GenericDocument } from "convex/server";
+import type { IndexRangeBuilder } from "convex/server";
+import type { GenericId } from "convex/values";
+import { sha256Hex } from "./crypto";
+import { isActiveStatus } from "./generation";
+import type { AdvancedParams } from "./parameters";
+
+/** How long an identical request joins the in-flight row instead of queueing another. */
+export const DEDUPE_WINDOW_MS = 60 * 1000;
+
+/** How long an idempotency key keeps returning the row it created. */
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/** How many recent rows with the same hash are checked for a reusable one. */
+const MAX_CANDIDATES = 20;
+
+export type HashedRequest = {
+  provider: string;
+  model: string;
+  prompt: string;
+  aspectRatio: string;
+  resolution: string;
+  outputFormat: string;
+  outputQuality?: number;
+  numImages: number;
+  mode: string;
+  /** The seed the caller asked for; unseeded requests hash the same whatever seed they draw. */
+  seed?: number;
+  parameters: AdvancedParams;
+  sourceStorageIds: string[];
+  workspaceId?: string;
+};
+
+/**
+ * Hashes the settings that decide what a request renders, after provider
+ * defaults are applied. Prompt whitespace and field order do not change it.
+ */
+export const hashRequest = (request: HashedRequest) =>
+  sha256Hex(
+    JSON.stringify([
+      request.provider,
+      request.model,
+      request.prompt.trim().replace(/\s+/g, " "),
+      request.aspectRatio,
+      request.resolution,
+      request.outputFormat,
+      request.outputQuality ?? null,
+      request.numImages,
+      request.mode,
+      request.seed ?? null,
+      Object.entries(request.parameters)
+        .filter(([name]) => name !== "seed")
+        .sort(([a], [b]) => a.localeCompare(b)),
+      request.sourceStorageIds,
+      request.workspaceId ?? null,
+    ])
+  );
+
+export const assertIdempotencyKey = (key: string) => {
+  if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new Error(`Idempotency keys must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters.`);
+  }
+};
+
+/**
+ * The row an earlier request with this idempotency key created, if it is
+ * recent enough. Reusing a key for different settings is an error.
+ */
+export const findByIdempotencyKey = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  ownerId: GenericId<"users">,
+  idempotencyKey: string,
+  requestHash: string,
+  now: number
+) => {
+  const existing = await db
+    .query("images")
+    .withIndex("by_owner_idempotency_key", (q) =>
+      (q as unknown as IndexRangeBuilder<GenericDocument, ["ownerId", "idempotencyKey"]>)
+        .eq("ownerId", ownerId)
+        .eq("idempotencyKey", idempotencyKey)
+    )
+    .order("desc")
+    .first();
+  if (!existing || (existing.createdAt as number) < now - IDEMPOTENCY_KEY_TTL_MS) {
+    return null;
+  }
+  if (existing.requestHash !== requestHash) {
+    throw new Error("This idempotency key was already used for a different request.");
+  }
+  return existing._id as GenericId<"images">;
+};
+
+/**
+ * A row that can stand in for a new request with the same hash: one still
+ * queued or running from the last `DEDUPE_WINDOW_MS`, or, when `reuseCached`
+ * is set, the latest completed one that is not in the trash.
+ */
+export const findReusableGeneration = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  ownerId: GenericId<"users">,
+  requestHash: string,
+  now: number,
+  reuseCached: boolean
+) => {
+  const candidates = await db
+    .query("images")
+    .withIndex("by_owner_request_hash", (q) =>
+      (q as unknown as IndexRangeBuilder<GenericDocument, ["ownerId", "requestHash"]>)
+        .eq("ownerId", ownerId)
+        .eq("requestHash", requestHash)
+    )
+    .order("desc")
+    .take(MAX_CANDIDATES);
+
+  const inFlight = candidates.find(
+    (row) =>
+      isActiveStatus(row.status as string) && (row.createdAt as number) >= now - DEDUPE_WINDOW_MS
+  );
+  if (inFlight) {
+    return inFlight._id as GenericId<"images">;
+  }
+  const cached = reuseCached
+    ? candidates.find((row) => row.status === "complete" && row.deletedAt === undefined)
+    : undefined;
+  return cached ? (cached._id as GenericId<"images">) : null;
+};
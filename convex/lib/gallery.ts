@@ -0,0 +1,142 @@
+import { v } from "convex/values";
+import type {
+  Auth,
+  GenericDatabaseReader,
+  GenericDataModel,
+  GenericDocument,
+  GenericIndexFields,
+  IndexRange,
+  IndexRangeBuilder,
+} from "convex/server";
+import type { GenericId } from "convex/values";
+import { requireMembership, requireUserId } from "./auth";
+
+export const galleryFiltersValidator = v.object({
+  provider: v.optional(v.string()),
+  model: v.optional(v.string()),
+  status: v.optional(v.string()),
+  aspectRatio: v.optional(v.string()),
+  createdAfter: v.optional(v.number()),
+  createdBefore: v.optional(v.number()),
+  /** Show the trash (soft-deleted rows) instead of the live gallery. */
+  trashed: v.optional(v.boolean()),
+});
+
+export type GalleryFilters = {
+  provider?: string;
+  model?: string;
+  status?: string;
+  aspectRatio?: string;
+  createdAfter?: number;
+  createdBefore?: number;
+  trashed?: boolean;
+};
+
+/** Whose generations the gallery shows: the caller's own, or a shared workspace. */
+export type GalleryScope =
+  { ownerId: GenericId<"users"> } | { workspaceId: GenericId<"workspaces"> };
+
+/**
+ * The caller's own gallery, or a workspace gallery once membership is checked.
+ * The trash is always personal, even while a workspace is selected.
+ */
+export const resolveGalleryScope = async (
+  ctx: { auth: Auth; db: GenericDatabaseReader<GenericDataModel> },
+  workspaceId: GenericId<"workspaces"> | undefined,
+  trashed: boolean | undefined
+): Promise<GalleryScope> => {
+  const userId = await requireUserId(ctx);
+  if (!workspaceId || trashed) {
+    return { ownerId: userId };
+  }
+  await requireMembership(ctx.db, workspaceId, userId);
+  return { workspaceId };
+};
+
+/** Bounds an `[scopeField, "createdAt"]` index to one owner or workspace and the date range. */
+const scopedCreatedRange = (
+  q: IndexRangeBuilder<GenericDocument, GenericIndexFields>,
+  scope: GalleryScope,
+  createdAfter: number | undefined,
+  createdBefore: number | undefined
+): IndexRange => {
+  // Generic builders type every index as `string[]`, which hides the second field.
+  const builder = q as unknown as IndexRangeBuilder<GenericDocument, [string, "createdAt"]>;
+  const scoped =
+    "ownerId" in scope
+      ? builder.eq("ownerId", scope.ownerId)
+      : builder.eq("workspaceId", scope.workspaceId);
+  if (createdAfter !== undefined && createdBefore !== undefined) {
+    return scoped.gte("createdAt", createdAfter).lte("createdAt", createdBefore);
+  }
+  if (createdAfter !== undefined) {
+    return scoped.gte("createdAt", createdAfter);
+  }
+  if (createdBefore !== undefined) {
+    return scoped.lte("createdAt", createdBefore);
+  }
+  return scoped;
+};
+
+/**
+ * Builds the gallery query. Prompt search goes through the `search_prompt`
+ * index (ranked by relevance) with the scope and equality filters pushed into
+ * it; otherwise rows stream newest-first from the owner or workspace index
+ * with the date range as an index bound.
+ */
+export const queryGallery = (
+  db: GenericDatabaseReader<GenericDataModel>,
+  scope: GalleryScope,
+  search: string | undefined,
+  filters: GalleryFilters
+) => {
+  const { provider, model, status, aspectRatio, createdAfter, createdBefore, trashed } = filters;
+  const trimmedSearch = search?.trim();
+
+  if (trimmedSearch) {
+    return db
+      .query("images")
+      .withSearchIndex("search_prompt", (q) => {
+        let builder =
+          "ownerId" in scope
+            ? q.search("prompt", trimmedSearch).eq("ownerId", scope.ownerId)
+            : q.search("prompt", trimmedSearch).eq("workspaceId", scope.workspaceId);
+        if (provider) {
+          builder = builder.eq("provider", provider);
+        }
+        if (model) {
+          builder = builder.eq("model", model);
+        }
+        if (status) {
+          builder = builder.eq("status", status);
+        }
+        if (aspectRatio) {
+          builder = builder.eq("aspectRatio", aspectRatio);
+        }
+        return builder;
+      })
+      .filter((q) =>
+        q.and(
+          trashed ? q.neq(q.field("deletedAt"), undefined) : q.eq(q.field("deletedAt"), undefined),
+          createdAfter !== undefined ? q.gte(q.field("createdAt"), createdAfter) : true,
+          createdBefore !== undefined ? q.lte(q.field("createdAt"), createdBefore) : true
+        )
+      );
+  }
+
+  return db
+    .query("images")
+    .withIndex("ownerId" in scope ? "by_owner_created" : "by_workspace_created", (q) =>
+      scopedCreatedRange(q, scope, createdAfter, createdBefore)
+    )
+    .order("desc")
+    .filter((q) =>
+      q.and(
+        trashed ? q.neq(q.field("deletedAt"), undefined) : q.eq(q.field("deletedAt"), undefined),
+        provider ? q.eq(q.field("provider"), provider) : true,
+        model ? q.eq(q.field("model"), model) : true,
+        status ? q.eq(q.field("status"), status) : true,
+        aspectRatio ? q.eq(q.field("aspectRatio"), aspectRatio) : true
+      )
+    );
+};
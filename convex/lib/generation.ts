@@ -0,0 +1,97 @@
+import { v } from "convex/values";
+
+export type AspectRatio = "1:1" | "4:3" | "3:2" | "16:9" | "9:16";
+export type Resolution = "1K" | "2K" | "4K";
+export type OutputFormat = "png" | "jpeg" | "webp";
+/** `upscale` enlarges a source image without re-rendering it. */
+export type GenerationMode = "text-to-image" | "image-to-image" | "edit" | "upscale";
+export type GenerationStatus =
+  "queued" | "running" | "complete" | "partial" | "failed" | "cancelled" | "blocked";
+
+export const generationStatusValidator = v.union(
+  v.literal("queued"),
+  v.literal("running"),
+  v.literal("complete"),
+  v.literal("partial"),
+  v.literal("failed"),
+  v.literal("cancelled"),
+  v.literal("blocked")
+);
+
+export const ASPECT_RATIOS: AspectRatio[] = ["1:1", "4:3", "3:2", "16:9", "9:16"];
+export const RESOLUTIONS: Resolution[] = ["1K", "2K", "4K"];
+export const OUTPUT_FORMATS: OutputFormat[] = ["png", "jpeg", "webp"];
+
+export const aspectRatioValidator = v.union(
+  v.literal("1:1"),
+  v.literal("4:3"),
+  v.literal("3:2"),
+  v.literal("16:9"),
+  v.literal("9:16")
+);
+export const resolutionValidator = v.union(v.literal("1K"), v.literal("2K"), v.literal("4K"));
+export const outputFormatValidator = v.union(
+  v.literal("png"),
+  v.literal("jpeg"),
+  v.literal("webp")
+);
+
+export const generationModeValidator = v.union(
+  v.literal("text-to-image"),
+  v.literal("image-to-image"),
+  v.literal("edit"),
+  v.literal("upscale")
+);
+
+/** Live queue state a provider reported for a running row. */
+export const progressValidator = v.object({
+  /** Jobs ahead of this one; absent once the provider starts rendering. */
+  queuePosition: v.optional(v.number()),
+  /** Most recent provider log lines, oldest first. */
+  logs: v.array(v.string()),
+});
+
+export type GenerationProgress = {
+  queuePosition?: number;
+  logs: string[];
+};
+
+export const sameProgress = (a: GenerationProgress | undefined, b: GenerationProgress) =>
+  a !== undefined &&
+  a.queuePosition === b.queuePosition &&
+  a.logs.length === b.logs.length &&
+  a.logs.every((line, index) => line === b.logs[index]);
+
+export const ASPECT_RATIO_MAP: Record<AspectRatio, [number, number]> = {
+  "1:1": [1, 1],
+  "4:3": [4, 3],
+  "3:2": [3, 2],
+  "16:9": [16, 9],
+  "9:16": [9, 16],
+};
+
+export const RESOLUTION_BASE_SIZE: Record<Resolution, number> = {
+  "1K": 1024,
+  "2K": 2048,
+  "4K": 4096,
+};
+
+export const roundToMultiple = (value: number, multiple: number) =>
+  Math.max(multiple, Math.round(value / multiple) * multiple);
+
+/**
+ * Fits the aspect ratio inside a square of `baseSize`, snapping both sides to
+ * `multiple` so diffusion models that need aligned latents accept them.
+ */
+export const resolveDimensions = (aspectRatio: AspectRatio, baseSize: number, multiple = 64) => {
+  const [ratioWidth, ratioHeight] = ASPECT_RATIO_MAP[aspectRatio] ?? [1, 1];
+  const scale = baseSize / Math.max(ratioWidth, ratioHeight);
+
+  return {
+    width: roundToMultiple(ratioWidth * scale, multiple),
+    height: roundToMultiple(ratioHeight * scale, multiple),
+  };
+};
+
+/** Queued and running rows still have a worker that may write to them. */
+export const isActiveStatus = (status: string) => status === "queued" || status === "running";
@@ -0,0 +1,422 @@
+import { makeFunctionReference } from "convex/server";
+import type {
+  GenericDatabaseWriter,
+  GenericDataModel,
+  GenericDocument,
+  GenericMutationCtx,
+} from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { recordOutcome } from "./analytics";
+import { canViewImage, requireMembership } from "./auth";
+import type { BatchCell } from "./batch";
+import {
+  assertIdempotencyKey,
+  findByIdempotencyKey,
+  findReusableGeneration,
+  hashRequest,
+} from "./dedupe";
+import {
+  aspectRatioValidator,
+  generationModeValidator,
+  outputFormatValidator,
+  RESOLUTION_BASE_SIZE,
+  resolutionValidator,
+} from "./generation";
+import type { AspectRatio, GenerationMode, OutputFormat, Resolution } from "./generation";
+import {
+  looksLikeSafetyRefusal,
+  moderatePrompt,
+  providerRefusalMessage,
+  recordModerationEvent,
+  rejectionMessage,
+} from "./moderation";
+import type { OutputSettings, StoredImage } from "./outputs";
+import { advancedParamsValidator, resolveParameters } from "./parameters";
+import type { AdvancedParams } from "./parameters";
+import { estimateCost } from "./pricing";
+import { getProvider, providerValidator, resolveModel } from "./providers";
+import type { Provider } from "./providers";
+import { recordSourceRefs, resolveSourceImages, sourceImageInputValidator } from "./sources";
+import type { SourceImageInput } from "./sources";
+import { resolveTemplateRef, templateRefValidator } from "./templates";
+import type { TemplateRef } from "./templates";
+import { assertWithinBudget, dayKey, recordUsage, settleCost } from "./usage";
+
+type MutationCtx = Pick<GenericMutationCtx<GenericDataModel>, "db" | "scheduler">;
+
+/** Public arguments for queueing a generation; shared by every entry point. */
+export const generationArgs = {
+  prompt: v.string(),
+  aspectRatio: aspectRatioValidator,
+  resolution: resolutionValidator,
+  outputFormat: outputFormatValidator,
+  /** 1-100 for JPEG and WebP outputs; ignored for PNG. */
+  outputQuality: v.optional(v.number()),
+  numImages: v.optional(v.number()),
+  provider: v.optional(providerValidator),
+  parameters: v.optional(advancedParamsValidator),
+  mode: v.optional(generationModeValidator),
+  sourceImages: v.optional(v.array(sourceImageInputValidator)),
+  workspaceId: v.optional(v.id("workspaces")),
+  /** The generation this one was remixed or varied from. */
+  parentId: v.optional(v.id("images")),
+  /** The prompt template the prompt was filled in from. */
+  template: v.optional(templateRefValidator),
+  /** Retrying with the same key returns the row the first attempt created. */
+  idempotencyKey: v.optional(v.string()),
+  /** For seeded requests, return an earlier completed row with identical settings. */
+  reuseCached: v.optional(v.boolean()),
+};
+
+export type GenerationInput = {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  outputFormat: OutputFormat;
+  outputQuality?: number;
+  numImages?: number;
+  provider?: Provider;
+  parameters?: AdvancedParams;
+  mode?: GenerationMode;
+  sourceImages?: SourceImageInput[];
+  workspaceId?: GenericId<"workspaces">;
+  parentId?: GenericId<"images">;
+  template?: TemplateRef;
+  idempotencyKey?: string;
+  reuseCached?: boolean;
+  /** Server-side callers that re-roll on purpose skip folding into an identical in-flight row. */
+  allowDuplicate?: boolean;
+};
+
+/** Server-assigned fields for rows created as part of a batch. */
+export type BatchPlacement = {
+  batchId: GenericId<"batches">;
+  batchCell: BatchCell;
+};
+
+const runWorker = makeFunctionReference<"action">("images:worker");
+
+/**
+ * Validates a request against the provider's capabilities, moderation rules
+ * and budget, inserts the queued row, charges the estimate to usage and
+ * schedules the worker. Rejected prompts are stored as `blocked` rows instead.
+ * A repeated idempotency key, an identical request still in flight, or (when
+ * `reuseCached` is set) an identical seeded render returns the existing row.
+ */
+export const enqueueGeneration = async (
+  ctx: MutationCtx,
+  ownerId: GenericId<"users">,
+  args: GenerationInput,
+  placement?: BatchPlacement
+) => {
+  if (args.workspaceId) {
+    await requireMembership(ctx.db, args.workspaceId, ownerId);
+  }
+  const requestedAt = Date.now();
+  const adapter = getProvider(args.provider);
+  const { capabilities } = adapter;
+
+  if (!capabilities.aspectRatios.includes(args.aspectRatio)) {
+    throw new Error(`${adapter.label} does not support the ${args.aspectRatio} aspect ratio.`);
+  }
+
+  const mode = args.mode ?? "text-to-image";
+  if (!capabilities.modes.includes(mode)) {
+    throw new Error(`${adapter.label} does not support ${mode} generation.`);
+  }
+
+  const sourceInputs = args.sourceImages ?? [];
+  if (mode === "text-to-image" && sourceInputs.length > 0) {
+    throw new Error("Choose image-to-image or edit mode to use reference images.");
+  }
+  if (mode !== "text-to-image" && sourceInputs.length === 0) {
+    throw new Error(`Add at least one reference image for ${mode} generation.`);
+  }
+  if (sourceInputs.length > capabilities.maxSourceImages) {
+    throw new Error(
+      `${adapter.label} accepts at most ${capabilities.maxSourceImages} reference image(s).`
+    );
+  }
+  const sourceImages = await resolveSourceImages(ctx.db, ownerId, sourceInputs);
+
+  let rootId: GenericId<"images"> | undefined;
+  if (args.parentId) {
+    const parent = await ctx.db.get(args.parentId);
+    if (!parent || !(await canViewImage(ctx.db, ownerId, parent))) {
+      throw new Error("Parent generation was not found.");
+    }
+    rootId = (parent.rootId as GenericId<"images"> | undefined) ?? args.parentId;
+  }
+  const template = args.template
+    ? await resolveTemplateRef(ctx.db, ownerId, args.template)
+    : undefined;
+
+  // An upscale produces exactly one image per source.
+  const numImages =
+    mode === "upscale"
+      ? sourceImages.length
+      : Math.min(capabilities.maxImages, Math.max(1, args.numImages ?? 1));
+  const resolution = capabilities.resolutions.includes(args.resolution)
+    ? args.resolution
+    : capabilities.resolutions[0];
+  const outputFormat = capabilities.outputFormats.includes(args.outputFormat)
+    ? args.outputFormat
+    : capabilities.outputFormats[0];
+  const outputQuality = outputFormat === "png" ? undefined : args.outputQuality;
+  if (
+    outputQuality !== undefined &&
+    (!Number.isInteger(outputQuality) || outputQuality < 1 || outputQuality > 100)
+  ) {
+    throw new Error("Output quality must be a whole number from 1 to 100.");
+  }
+  const parameters = resolveParameters(capabilities.parameters, args.parameters ?? {}, mode);
+  const model = resolveModel(adapter, mode);
+  // Only a seed the caller chose makes a render repeatable; drawn seeds are left out of the hash.
+  const requestedSeed = parameters.seed === undefined ? undefined : args.parameters?.seed;
+  const requestHash = await hashRequest({
+    provider: adapter.id,
+    model,
+    prompt: args.prompt,
+    aspectRatio: args.aspectRatio,
+    resolution,
+    outputFormat,
+    outputQuality,
+    numImages,
+    mode,
+    seed: requestedSeed,
+    parameters,
+    sourceStorageIds: sourceImages.map((source) => source.storageId),
+    workspaceId: args.workspaceId,
+  });
+  if (args.idempotencyKey !== undefined) {
+    assertIdempotencyKey(args.idempotencyKey);
+    const existing = await findByIdempotencyKey(
+      ctx.db,
+      ownerId,
+      args.idempotencyKey,
+      requestHash,
+      requestedAt
+    );
+    if (existing) {
+      return existing;
+    }
+  }
+  // Batch cells are queued on purpose, so only standalone requests are folded together.
+  if (!placement && !args.allowDuplicate) {
+    const reusable = await findReusableGeneration(
+      ctx.db,
+      ownerId,
+      requestHash,
+      requestedAt,
+      args.reuseCached === true && requestedSeed !== undefined
+    );
+    if (reusable) {
+      return reusable;
+    }
+  }
+
+  const moderation = moderatePrompt(args.prompt);
+  const row = {
+    ownerId,
+    // Generic writers reject explicit undefined, so optional ids are spread in.
+    ...(args.workspaceId ? { workspaceId: args.workspaceId } : {}),
+    ...(args.parentId && rootId ? { parentId: args.parentId, rootId } : {}),
+    ...(template ? { template } : {}),
+    ...placement,
+    prompt: args.prompt,
+    model,
+    provider: adapter.id,
+    aspectRatio: args.aspectRatio,
+    resolution,
+    outputFormat,
+    ...(outputQuality !== undefined ? { outputQuality } : {}),
+    numImages,
+    parameters,
+    mode,
+    sourceImages,
+    ...(moderation.action !== "allow"
+      ? { moderation: { action: moderation.action, reasons: moderation.reasons } }
+      : {}),
+    requestHash,
+    ...(args.idempotencyKey !== undefined ? { idempotencyKey: args.idempotencyKey } : {}),
+    createdAt: requestedAt,
+    updatedAt: requestedAt,
+  };
+
+  if (moderation.action === "reject") {
+    // A blocked card explains the refusal better than a bare mutation error.
+    const blocked = {
+      ...row,
+      status: "blocked",
+      error: rejectionMessage(moderation),
+      completedAt: requestedAt,
+    };
+    const imageId = await ctx.db.insert("images", blocked);
+    await recordSourceRefs(ctx.db, imageId as GenericId<"images">, sourceImages);
+    await recordOutcome(ctx.db, blocked);
+    await recordModerationEvent(ctx.db, {
+      userId: ownerId,
+      imageId: imageId as GenericId<"images">,
+      prompt: args.prompt,
+      source: "rules",
+      decision: moderation,
+    });
+    return imageId as GenericId<"images">;
+  }
+
+  const estimatedCost = estimateCost(adapter.id, model, resolution, numImages);
+  await assertWithinBudget(ctx.db, adapter, estimatedCost, requestedAt);
+
+  const imageId = await ctx.db.insert("images", { ...row, status: "queued", estimatedCost });
+  await recordSourceRefs(ctx.db, imageId as GenericId<"images">, sourceImages);
+  await recordModerationEvent(ctx.db, {
+    userId: ownerId,
+    imageId: imageId as GenericId<"images">,
+    prompt: args.prompt,
+    source: "rules",
+    decision: moderation,
+  });
+  await recordUsage(ctx.db, {
+    userId: ownerId,
+    provider: adapter.id,
+    day: dayKey(requestedAt),
+    cost: estimatedCost,
+    images: numImages,
+    generations: 1,
+  });
+
+  const jobId = await ctx.scheduler.runAfter(0, runWorker, { id: imageId });
+  await ctx.db.patch(imageId, { jobId });
+
+  return imageId as GenericId<"images">;
+};
+
+/**
+ * How a row's outputs are stored. Upscale rows, and resolutions the model does
+ * not render itself, are enlarged to the resolution's long side first.
+ */
+export const outputSettingsFor = (image: GenericDocument): OutputSettings => {
+  const resolution = image.resolution as Resolution;
+  const native = getProvider(image.provider as string).nativeResolutions;
+  const upscale =
+    image.mode === "upscale" || (native !== undefined && !native.includes(resolution));
+  return {
+    outputFormat: image.outputFormat as OutputFormat,
+    outputQuality: image.outputQuality as number | undefined,
+    ...(upscale ? { upscaleTo: RESOLUTION_BASE_SIZE[resolution] } : {}),
+  };
+};
+
+const cancelScheduledJob = async (ctx: MutationCtx, image: GenericDocument) => {
+  // Cancelling a finished scheduled function throws, so only touch live jobs.
+  const jobId = image.jobId as GenericId<"_scheduled_functions"> | undefined;
+  const job = jobId ? await ctx.db.system.get(jobId) : null;
+  if (job && (job.state.kind === "pending" || job.state.kind === "inProgress")) {
+    await ctx.scheduler.cancel(job._id);
+  }
+};
+
+/** Stops an active row's scheduled worker and refunds what it never produced. */
+export const cancelGeneration = async (ctx: MutationCtx, image: GenericDocument) => {
+  await cancelScheduledJob(ctx, image);
+
+  const cost = await settleCost(ctx.db, image);
+  const completedAt = Date.now();
+  const settled = {
+    status: "cancelled",
+    ...(cost !== undefined ? { cost } : {}),
+    completedAt,
+    updatedAt: completedAt,
+  };
+  await ctx.db.patch(image._id as GenericId<"images">, settled);
+  await recordOutcome(ctx.db, { ...image, ...settled });
+};
+
+/** Fails a row whose worker stopped reporting, keeping any outputs it already stored. */
+export const expireGeneration = async (ctx: MutationCtx, image: GenericDocument, error: string) => {
+  await cancelScheduledJob(ctx, image);
+
+  const cost = await settleCost(ctx.db, image);
+  const completedAt = Date.now();
+  const hasOutputs = ((image.outputs as unknown[] | undefined) ?? []).length > 0;
+  const settled = {
+    status: hasOutputs ? "partial" : "failed",
+    error,
+    ...(cost !== undefined ? { cost } : {}),
+    completedAt,
+    updatedAt: completedAt,
+  };
+  await ctx.db.patch(image._id as GenericId<"images">, settled);
+  await recordOutcome(ctx.db, { ...image, ...settled });
+};
+
+/**
+ * Settles a row the provider refused under its safety policy. `detail` is the
+ * raw provider error, kept on the moderation event rather than shown to users.
+ */
+export const blockGeneration = async (
+  db: GenericDatabaseWriter<GenericDataModel>,
+  image: GenericDocument,
+  detail: string
+) => {
+  const imageId = image._id as GenericId<"images">;
+  const message = providerRefusalMessage(getProvider(image.provider as string).label);
+  const cost = await settleCost(db, image);
+  const completedAt = Date.now();
+  const settled = {
+    status: "blocked",
+    error: message,
+    ...(image.requestId ? { requestId: image.requestId } : {}),
+    ...(cost !== undefined ? { cost } : {}),
+    completedAt,
+    updatedAt: completedAt,
+  };
+  await db.patch(imageId, settled);
+  await recordOutcome(db, { ...image, ...settled });
+  await recordModerationEvent(db, {
+    userId: image.ownerId as GenericId<"users"> | undefined,
+    imageId,
+    prompt: image.prompt as string,
+    source: "provider",
+    decision: { action: "reject", reasons: [message], ruleIds: [] },
+    detail,
+  });
+};
+
+/**
+ * Settles a running row with outputs that arrived outside its worker, from a
+ * provider webhook or the reaper's recovery. `refused` marks an error the
+ * provider flagged as a safety refusal.
+ */
+export const completeGeneration = async (
+  db: GenericDatabaseWriter<GenericDataModel>,
+  image: GenericDocument,
+  outputs: StoredImage[],
+  error?: string,
+  refused = false
+) => {
+  const allOutputs = [...((image.outputs as StoredImage[] | undefined) ?? []), ...outputs];
+  if (error && allOutputs.length === 0 && (refused || looksLikeSafetyRefusal(error))) {
+    await blockGeneration(db, image, error);
+    return;
+  }
+  const failure =
+    error ??
+    (allOutputs.length === 0
+      ? `${getProvider(image.provider as string).label} returned no images.`
+      : undefined);
+  const isComplete = !failure && allOutputs.length >= (image.numImages as number);
+  const cost = await settleCost(db, { ...image, outputs: allOutputs });
+  const completedAt = Date.now();
+  const settled = {
+    outputs: allOutputs,
+    status: isComplete ? "complete" : allOutputs.length > 0 ? "partial" : "failed",
+    ...(failure ? { error: failure } : {}),
+    ...(cost !== undefined ? { cost } : {}),
+    completedAt,
+    updatedAt: completedAt,
+  };
+  await db.patch(image._id as GenericId<"images">, settled);
+  await recordOutcome(db, { ...image, ...settled });
+};
@@ -0,0 +1,244 @@
+import type { GenericDatabaseWriter, GenericDataModel } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+
+export type ModerationAction = "allow" | "warn" | "flag" | "reject";
+/** Which stage made the call: prompt rules, the optional classifier, or the provider itself. */
+export type ModerationSource = "rules" | "classifier" | "provider";
+
+export type ModerationRule = {
+  id: string;
+  pattern: RegExp;
+  action: Exclude<ModerationAction, "allow">;
+  reason: string;
+};
+
+export type ModerationDecision = {
+  action: ModerationAction;
+  reasons: string[];
+  ruleIds: string[];
+  /** Set by classifiers, 0 (harmless) to 1 (certain violation). */
+  score?: number;
+};
+
+export type PromptClassifier = {
+  id: string;
+  classify: (prompt: string) => Promise<ModerationDecision>;
+};
+
+/** What a row keeps about its moderation outcome; the full trail is in `moderation_events`. */
+export const moderationSummaryValidator = v.object({
+  action: v.string(),
+  reasons: v.array(v.string()),
+});
+
+export const moderationDecisionValidator = v.object({
+  action: v.union(v.literal("allow"), v.literal("warn"), v.literal("flag"), v.literal("reject")),
+  reasons: v.array(v.string()),
+  ruleIds: v.array(v.string()),
+  score: v.optional(v.number()),
+});
+
+const SEVERITY: Record<ModerationAction, number> = { allow: 0, warn: 1, flag: 2, reject: 3 };
+
+const MINOR_TERMS = "(child|children|minor|minors|underage|kid|kids|preteen)";
+const SEXUAL_TERMS = "(nude|naked|sexual|explicit|nsfw)";
+
+const DEFAULT_RULES: ModerationRule[] = [
+  {
+    id: "minors-sexual",
+    pattern: new RegExp(
+      `\\b${MINOR_TERMS}\\b.*\\b${SEXUAL_TERMS}\\b|\\b${SEXUAL_TERMS}\\b.*\\b${MINOR_TERMS}\\b`,
+      "i"
+    ),
+    action: "reject",
+    reason: "Sexual content involving minors is never allowed.",
+  },
+  {
+    id: "graphic-violence",
+    pattern: /\b(gore|gory|dismember\w*|disembowel\w*|decapitat\w*)\b/i,
+    action: "warn",
+    reason: "Graphic violence may be refused by the provider.",
+  },
+  {
+    id: "real-person",
+    pattern: /\b(deepfake|celebrity|real person)\b/i,
+    action: "flag",
+    reason: "Depicts a real person.",
+  },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** `MODERATION_BLOCKLIST`: comma-separated words or phrases that reject a prompt. */
+const readBlocklist = (): ModerationRule[] =>
+  (process.env.MODERATION_BLOCKLIST ?? "")
+    .split(",")
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .map((term) => ({
+      id: `blocklist:${term.toLowerCase()}`,
+      pattern: new RegExp(`\\b${escapeRegExp(term)}\\b`, "i"),
+      action: "reject",
+      reason: "The prompt contains a blocked term.",
+    }));
+
+/**
+ * `MODERATION_RULES`: a JSON array of `{ id?, pattern, flags?, action, reason }`
+ * where `pattern` is a regular expression source and `action` is warn, flag or reject.
+ */
+const readCustomRules = (): ModerationRule[] => {
+  const raw = process.env.MODERATION_RULES;
+  if (!raw) {
+    return [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    throw new Error("MODERATION_RULES must be a JSON array.");
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error("MODERATION_RULES must be a JSON array.");
+  }
+  return entries.map((entry, index) => {
+    const { id, pattern, flags, action, reason } = entry as Record<string, unknown>;
+    if (typeof pattern !== "string" || !["warn", "flag", "reject"].includes(action as string)) {
+      throw new Error(
+        `MODERATION_RULES[${index}] needs a string pattern and a warn, flag or reject action.`
+      );
+    }
+    return {
+      id: typeof id === "string" ? id : `custom:${index}`,
+      // Global and sticky flags would make `test` stateful between prompts.
+      pattern: new RegExp(pattern, typeof flags === "string" ? flags.replace(/[gy]/g, "") : "i"),
+      action: action as ModerationRule["action"],
+      reason: typeof reason === "string" ? reason : "The prompt matched a moderation rule.",
+    };
+  });
+};
+
+export const loadModerationRules = () => [
+  ...DEFAULT_RULES,
+  ...readBlocklist(),
+  ...readCustomRules(),
+];
+
+/** Merges decisions, keeping the most severe action and every reason behind it. */
+export const combineDecisions = (...decisions: ModerationDecision[]): ModerationDecision =>
+  decisions.reduce(
+    (combined, decision) => ({
+      action:
+        SEVERITY[decision.action] > SEVERITY[combined.action] ? decision.action : combined.action,
+      reasons: [...combined.reasons, ...decision.reasons],
+      ruleIds: [...combined.ruleIds, ...decision.ruleIds],
+      ...((decision.score ?? combined.score) !== undefined
+        ? { score: decision.score ?? combined.score }
+        : {}),
+    }),
+    { action: "allow", reasons: [], ruleIds: [] } as ModerationDecision
+  );
+
+export const moderatePrompt = (prompt: string, rules = loadModerationRules()) =>
+  combineDecisions(
+    ...rules
+      .filter((rule) => rule.pattern.test(prompt))
+      .map((rule) => ({ action: rule.action, reasons: [rule.reason], ruleIds: [rule.id] }))
+  );
+
+const LOCAL_CLASSIFIER_WEIGHTS: Record<string, number> = {
+  nude: 0.6,
+  naked: 0.6,
+  explicit: 0.5,
+  nsfw: 0.6,
+  gore: 0.6,
+  blood: 0.25,
+  corpse: 0.4,
+  weapon: 0.15,
+  gun: 0.15,
+  drugs: 0.3,
+  hate: 0.4,
+};
+
+/**
+ * Keyword-weight stand-in for a real classifier, so the classifier stage can
+ * be exercised offline. Enable with `MODERATION_CLASSIFIER=local`.
+ */
+const localClassifier: PromptClassifier = {
+  id: "local",
+  classify: async (prompt) => {
+    const words = prompt.toLowerCase().match(/[a-z]+/g) ?? [];
+    const hits = [...new Set(words.filter((word) => word in LOCAL_CLASSIFIER_WEIGHTS))];
+    const score = Math.min(
+      1,
+      hits.reduce((total, word) => total + LOCAL_CLASSIFIER_WEIGHTS[word], 0)
+    );
+    const action: ModerationAction =
+      score >= 0.9 ? "reject" : score >= 0.6 ? "flag" : score >= 0.3 ? "warn" : "allow";
+    return {
+      action,
+      reasons:
+        action === "allow" ? [] : [`Classifier score ${score.toFixed(2)} (${hits.join(", ")}).`],
+      ruleIds: [],
+      score,
+    };
+  },
+};
+
+/** Register other classifiers here; they run in the worker, so they may call remote APIs. */
+const CLASSIFIERS: Record<string, PromptClassifier> = {
+  local: localClassifier,
+};
+
+export const getPromptClassifier = () => {
+  const id = process.env.MODERATION_CLASSIFIER;
+  if (!id) {
+    return null;
+  }
+  const classifier = CLASSIFIERS[id];
+  if (!classifier) {
+    throw new Error(`Unknown MODERATION_CLASSIFIER "${id}".`);
+  }
+  return classifier;
+};
+
+export const rejectionMessage = (decision: ModerationDecision) =>
+  `Blocked by moderation: ${decision.reasons.join(" ")}`;
+
+const SAFETY_REFUSAL_PATTERN =
+  /content[ _]?policy|usage polic|safety (filter|checker|system)|nsfw|flagged as (unsafe|harmful)/i;
+
+/** Whether a provider error text reads like a safety refusal rather than a fault. */
+export const looksLikeSafetyRefusal = (message: string) => SAFETY_REFUSAL_PATTERN.test(message);
+
+export const providerRefusalMessage = (label: string) =>
+  `${label} declined this prompt under its safety policy. Rephrase it and try again.`;
+
+export const recordModerationEvent = async (
+  db: GenericDatabaseWriter<GenericDataModel>,
+  event: {
+    userId?: GenericId<"users">;
+    imageId?: GenericId<"images">;
+    prompt: string;
+    source: ModerationSource;
+    decision: ModerationDecision;
+    classifier?: string;
+    /** Raw provider error, kept for review when the provider refused. */
+    detail?: string;
+  }
+) => {
+  await db.insert("moderation_events", {
+    ...(event.userId ? { userId: event.userId } : {}),
+    ...(event.imageId ? { imageId: event.imageId } : {}),
+    prompt: event.prompt,
+    source: event.source,
+    action: event.decision.action,
+    reasons: event.decision.reasons,
+    ruleIds: event.decision.ruleIds,
+    ...(event.decision.score !== undefined ? { score: event.decision.score } : {}),
+    ...(event.classifier ? { classifier: event.classifier } : {}),
+    ...(event.detail ? { detail: event.detail } : {}),
+    createdAt: Date.now(),
+  });
+};
@@ -0,0 +1,313 @@
+import { ASPECT_RATIOS, OUTPUT_FORMATS, RESOLUTIONS } from "./generation";
+import { PROVIDERS } from "./providers";
+
+const STATUSES = ["queued", "running", "complete", "partial", "failed", "cancelled", "blocked"];
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const generationResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Generation" } } },
+});
+
+const parametersSchema = {
+  type: "object",
+  properties: {
+    negativePrompt: { type: "string" },
+    seed: { type: "integer" },
+    guidanceScale: { type: "number" },
+    numInferenceSteps: { type: "integer" },
+    scheduler: { type: "string" },
+    strength: { type: "number", minimum: 0, maximum: 1 },
+  },
+};
+
+const progressSchema = {
+  type: "object",
+  properties: {
+    queuePosition: { type: "integer", description: "Jobs ahead of this one at the provider." },
+    logs: { type: "array", items: { type: "string" } },
+  },
+  required: ["logs"],
+};
+
+/** OpenAPI 3.1 description of the `/v1` HTTP API, served at `/v1/openapi.json`. */
+export const buildOpenApiDocument = (serverUrl: string) => ({
+  openapi: "3.1.0",
+  info: {
+    title: "Convex Image Studio API",
+    version: "1.0.0",
+    description:
+      "Queue image generations and read their results. Create API keys from the app; " +
+      "each key has its own per-minute rate limit and every call is logged.",
+  },
+  servers: [{ url: serverUrl }],
+  security: [{ apiKey: [] }],
+  paths: {
+    "/v1/generations": {
+      post: {
+        summary: "Queue a generation",
+        operationId: "createGeneration",
+        parameters: [
+          {
+            name: "Idempotency-Key",
+            in: "header",
+            description:
+              "Retries with the same key within 24 hours return the original generation " +
+              "instead of queueing another; reusing a key for different settings fails.",
+            schema: { type: "string", maxLength: 255 },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": { schema: { $ref: "#/components/schemas/GenerationRequest" } },
+          },
+        },
+        responses: {
+          "201": generationResponse(
+            "The queued generation, or the existing one an identical request already " +
+              "started. Poll it until `status` settles."
+          ),
+          "400": errorResponse("The body was invalid or over budget."),
+          "401": errorResponse("Missing, invalid or revoked API key."),
+          "429": errorResponse("Rate limit exceeded; see the `Retry-After` header."),
+        },
+      },
+      get: {
+        summary: "List your generations, newest first",
+        operationId: "listGenerations",
+        parameters: [
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+          },
+          { name: "cursor", in: "query", schema: { type: "string" } },
+          { name: "status", in: "query", schema: { type: "string", enum: STATUSES } },
+        ],
+        responses: {
+          "200": {
+            description: "One page of generations.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: { $ref: "#/components/schemas/Generation" } },
+                    nextCursor: {
+                      type: ["string", "null"],
+                      description: "Pass as `cursor` for the next page; null on the last one.",
+                    },
+                  },
+                  required: ["data", "nextCursor"],
+                },
+              },
+            },
+          },
+          "401": errorResponse("Missing, invalid or revoked API key."),
+          "429": errorResponse("Rate limit exceeded; see the `Retry-After` header."),
+        },
+      },
+    },
+    "/v1/generations/{id}": {
+      get: {
+        summary: "Fetch one generation",
+        operationId: "getGeneration",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          "200": generationResponse("The generation with signed output URLs."),
+          "401": errorResponse("Missing, invalid or revoked API key."),
+          "404": errorResponse("No generation with that id is visible to this key."),
+          "429": errorResponse("Rate limit exceeded; see the `Retry-After` header."),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      apiKey: { type: "http", scheme: "bearer", description: "An API key from the app." },
+    },
+    schemas: {
+      GenerationRequest: {
+        type: "object",
+        properties: {
+          prompt: { type: "string" },
+          aspectRatio: { type: "string", enum: ASPECT_RATIOS },
+          resolution: { type: "string", enum: RESOLUTIONS },
+          outputFormat: { type: "string", enum: OUTPUT_FORMATS },
+          outputQuality: {
+            type: "integer",
+            minimum: 1,
+            maximum: 100,
+            description: "Encoder quality for jpeg and webp outputs.",
+          },
+          numImages: { type: "integer", minimum: 1, default: 1 },
+          provider: { type: "string", enum: Object.keys(PROVIDERS) },
+          parameters: parametersSchema,
+          mode: {
+            type: "string",
+            enum: ["text-to-image", "image-to-image", "edit", "upscale"],
+            description:
+              "`upscale` enlarges each source image to `resolution` without re-rendering.",
+          },
+          reuseCached: {
+            type: "boolean",
+            default: false,
+            description:
+              "With an explicit seed, return your latest completed generation with identical " +
+              "settings instead of rendering again.",
+          },
+          sourceImages: {
+            type: "array",
+            items: {
+              oneOf: [
+                {
+                  type: "object",
+                  properties: {
+                    kind: { const: "generation" },
+                    imageId: { type: "string" },
+                    outputIndex: { type: "integer" },
+                  },
+                  required: ["kind", "imageId", "outputIndex"],
+                },
+                {
+                  type: "object",
+                  properties: { kind: { const: "upload" }, storageId: { type: "string" } },
+                  required: ["kind", "storageId"],
+                },
+                {
+                  type: "object",
+                  description: "A reference image an earlier generation was made from.",
+                  properties: {
+                    kind: { const: "source" },
+                    imageId: { type: "string" },
+                    sourceIndex: { type: "integer" },
+                  },
+                  required: ["kind", "imageId", "sourceIndex"],
+                },
+              ],
+            },
+          },
+          workspaceId: { type: "string" },
+          parentId: { type: "string", description: "The generation this one remixes." },
+          template: {
+            type: "object",
+            description: "The prompt template the prompt was filled in from.",
+            properties: {
+              templateId: { type: "string" },
+              version: { type: "integer", minimum: 1 },
+              preset: { type: "string" },
+            },
+            required: ["templateId", "version"],
+          },
+          idempotencyKey: {
+            type: "string",
+            maxLength: 255,
+            description: "Same as the `Idempotency-Key` header, which wins when both are sent.",
+          },
+        },
+        required: ["prompt", "aspectRatio", "resolution", "outputFormat"],
+        additionalProperties: false,
+      },
+      Generation: {
+        type: "object",
+        properties: {
+          _id: { type: "string" },
+          _creationTime: { type: "number" },
+          workspaceId: { type: "string" },
+          parentId: { type: "string" },
+          rootId: { type: "string" },
+          batchId: { type: "string" },
+          prompt: { type: "string" },
+          model: { type: "string" },
+          provider: { type: "string" },
+          aspectRatio: { type: "string" },
+          resolution: { type: "string" },
+          outputFormat: { type: "string" },
+          outputQuality: { type: "integer" },
+          numImages: { type: "integer" },
+          parameters: parametersSchema,
+          mode: { type: "string" },
+          status: { type: "string", enum: STATUSES },
+          estimatedCost: { type: "number", description: "USD reserved when queued." },
+          cost: { type: "number", description: "USD for the images actually stored." },
+          requestId: { type: "string" },
+          error: { type: "string" },
+          progress: progressSchema,
+          template: {
+            type: "object",
+            properties: {
+              templateId: { type: "string" },
+              name: { type: "string" },
+              version: { type: "integer" },
+              preset: { type: "string" },
+            },
+          },
+          moderation: {
+            type: "object",
+            description: "Why moderation warned about, flagged or blocked the prompt.",
+            properties: {
+              action: { type: "string", enum: ["warn", "flag", "reject"] },
+              reasons: { type: "array", items: { type: "string" } },
+            },
+          },
+          createdAt: { type: "number" },
+          updatedAt: { type: "number" },
+          startedAt: { type: "number" },
+          completedAt: { type: "number" },
+          outputs: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                storageId: { type: "string" },
+                url: { type: ["string", "null"] },
+                width: { type: "integer" },
+                height: { type: "integer" },
+                contentType: { type: "string" },
+                byteSize: { type: "integer" },
+                sourceUrl: { type: "string" },
+                thumbnailUrl: {
+                  type: ["string", "null"],
+                  description: "A WebP preview at most 384px on its longest side.",
+                },
+                upscaler: {
+                  type: "string",
+                  description: "The model or resampling filter that enlarged this output, if any.",
+                },
+              },
+            },
+          },
+          sourceImages: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                storageId: { type: "string" },
+                imageId: { type: "string" },
+                outputIndex: { type: "integer" },
+                url: { type: ["string", "null"] },
+              },
+            },
+          },
+        },
+        required: ["_id", "prompt", "status", "createdAt", "updatedAt", "outputs"],
+      },
+      Error: {
+        type: "object",
+        properties: {
+          error: {
+            type: "object",
+            properties: { message: { type: "string" } },
+            required: ["message"],
+          },
+        },
+        required: ["error"],
+      },
+    },
+  },
+});
@@ -0,0 +1,253 @@
+import { makeFunctionReference } from "convex/server";
+import type {
+  GenericActionCtx,
+  GenericDataModel,
+  StorageActionWriter,
+  StorageReader,
+  StorageWriter,
+} from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import type { OutputFormat } from "./generation";
+import { needsUpscale } from "./upscale";
+
+export const thumbnailValidator = v.object({
+  storageId: v.id("_storage"),
+  width: v.number(),
+  height: v.number(),
+  contentType: v.string(),
+  byteSize: v.number(),
+});
+
+export const storedImageValidator = v.object({
+  storageId: v.id("_storage"),
+  width: v.optional(v.number()),
+  height: v.optional(v.number()),
+  contentType: v.string(),
+  byteSize: v.number(),
+  /** Where the provider originally served the file, if it was remote. */
+  sourceUrl: v.optional(v.string()),
+  /** Small preview for the gallery grid, stored next to the full-size file. */
+  thumbnail: v.optional(thumbnailValidator),
+  /** The model or resampling filter that enlarged the output past its rendered size. */
+  upscaler: v.optional(v.string()),
+});
+
+export type StoredThumbnail = {
+  storageId: GenericId<"_storage">;
+  width: number;
+  height: number;
+  contentType: string;
+  byteSize: number;
+};
+
+export type StoredImage = {
+  storageId: GenericId<"_storage">;
+  width?: number;
+  height?: number;
+  contentType: string;
+  byteSize: number;
+  sourceUrl?: string;
+  thumbnail?: StoredThumbnail;
+  upscaler?: string;
+};
+
+/** A provider output delivered as a link, as webhook callbacks send them. */
+export const remoteImageValidator = v.object({
+  url: v.string(),
+  width: v.optional(v.number()),
+  height: v.optional(v.number()),
+  contentType: v.optional(v.string()),
+});
+
+/** A provider output before it is copied into Convex storage. */
+export type ProviderImage = {
+  blob?: Blob;
+  url?: string;
+  width?: number;
+  height?: number;
+  contentType?: string;
+};
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) |
+    (bytes[offset + 1] << 16) |
+    (bytes[offset + 2] << 8) |
+    bytes[offset + 3]) >>>
+  0;
+const readUint16 = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+const readUint16LE = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8);
+const readUint24LE = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+const matchesAscii = (bytes: Uint8Array, offset: number, text: string) =>
+  Array.from(text).every((char, index) => bytes[offset + index] === char.charCodeAt(0));
+
+/** Reads pixel dimensions from PNG, JPEG or WebP headers without decoding. */
+export const readImageSize = (bytes: Uint8Array) => {
+  if (bytes.length >= 24 && bytes[0] === 0x89 && matchesAscii(bytes, 1, "PNG")) {
+    return {
+      width: readUint32(bytes, 16),
+      height: readUint32(bytes, 20),
+      contentType: "image/png",
+    };
+  }
+
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) {
+        offset += 1;
+        continue;
+      }
+      const marker = bytes[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          width: readUint16(bytes, offset + 7),
+          height: readUint16(bytes, offset + 5),
+          contentType: "image/jpeg",
+        };
+      }
+      offset += 2 + readUint16(bytes, offset + 2);
+    }
+    return { contentType: "image/jpeg" };
+  }
+
+  if (bytes.length >= 30 && matchesAscii(bytes, 0, "RIFF") && matchesAscii(bytes, 8, "WEBP")) {
+    const contentType = "image/webp";
+    if (matchesAscii(bytes, 12, "VP8X")) {
+      return {
+        width: readUint24LE(bytes, 24) + 1,
+        height: readUint24LE(bytes, 27) + 1,
+        contentType,
+      };
+    }
+    if (matchesAscii(bytes, 12, "VP8L")) {
+      const bits = readUint32(Uint8Array.from(bytes.subarray(21, 25)).reverse(), 0);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, contentType };
+    }
+    if (matchesAscii(bytes, 12, "VP8 ")) {
+      return {
+        width: readUint16LE(bytes, 26) & 0x3fff,
+        height: readUint16LE(bytes, 28) & 0x3fff,
+        contentType,
+      };
+    }
+    return { contentType };
+  }
+
+  return undefined;
+};
+
+/**
+ * Copies one provider output into Convex storage, downloading it first when
+ * the provider only returned a URL, and records its size and dimensions.
+ */
+export const storeProviderImage = async (
+  storage: StorageActionWriter,
+  image: ProviderImage
+): Promise<StoredImage> => {
+  let blob = image.blob;
+  if (!blob) {
+    if (!image.url) {
+      throw new Error("Provider returned an image without data or URL.");
+    }
+    const response = await fetch(image.url);
+    if (!response.ok) {
+      throw new Error(`Failed to download provider image (HTTP ${response.status}).`);
+    }
+    blob = await response.blob();
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const sniffed = readImageSize(bytes);
+  const contentType = sniffed?.contentType ?? (image.contentType || blob.type || "image/png");
+  const storageId = await storage.store(new Blob([bytes], { type: contentType }));
+
+  return {
+    storageId,
+    width: image.width ?? sniffed?.width,
+    height: image.height ?? sniffed?.height,
+    contentType,
+    byteSize: bytes.byteLength,
+    sourceUrl: image.url,
+  };
+};
+
+/** What a generation asked for; outputs are converted to match before they are saved. */
+export type OutputSettings = {
+  outputFormat: OutputFormat;
+  /** 1-100 for JPEG and WebP; PNG is always lossless. */
+  outputQuality?: number;
+  /** Long side in pixels; smaller outputs are upscaled to it before conversion. */
+  upscaleTo?: number;
+};
+
+const convertOutput = makeFunctionReference<
+  "action",
+  { output: StoredImage; outputFormat: OutputFormat; outputQuality?: number },
+  StoredImage
+>("imageProcessing:convert");
+const upscaleOutput = makeFunctionReference<
+  "action",
+  { output: StoredImage; longSide: number },
+  StoredImage
+>("imageProcessing:upscale");
+
+/**
+ * Stores a provider output, then has the Node runtime upscale it if asked,
+ * convert it to the requested format and add a thumbnail. The working copy is
+ * removed if any step fails.
+ */
+export const storeGeneratedImage = async (
+  ctx: Pick<GenericActionCtx<GenericDataModel>, "storage" | "runAction">,
+  image: ProviderImage,
+  { upscaleTo, ...settings }: OutputSettings
+) => {
+  let stored = await storeProviderImage(ctx.storage, image);
+  try {
+    if (upscaleTo !== undefined && needsUpscale(stored, upscaleTo)) {
+      stored = await ctx.runAction(upscaleOutput, { output: stored, longSide: upscaleTo });
+    }
+    return await ctx.runAction(convertOutput, { output: stored, ...settings });
+  } catch (error) {
+    await ctx.storage.delete(stored.storageId);
+    throw error;
+  }
+};
+
+/** Every storage file an output owns: the full-size image and its thumbnail. */
+export const outputStorageIds = (output: StoredImage) =>
+  output.thumbnail ? [output.storageId, output.thumbnail.storageId] : [output.storageId];
+
+export const deleteStoredOutputs = async (storage: StorageWriter, outputs: StoredImage[]) => {
+  await Promise.all(
+    outputs.flatMap(outputStorageIds).map((storageId) => storage.delete(storageId))
+  );
+};
+
+/**
+ * Adds serving URLs to stored outputs, falling back to pre-migration `imageUrls`.
+ * `thumbnailUrl` falls back to the full-size URL for outputs stored before thumbnails.
+ */
+export const resolveOutputs = async (
+  storage: StorageReader,
+  row: { outputs?: StoredImage[]; imageUrls?: string[] }
+) => {
+  if (row.outputs) {
+    return Promise.all(
+      row.outputs.map(async (output) => {
+        const url = await storage.getUrl(output.storageId);
+        return {
+          ...output,
+          url,
+          thumbnailUrl: output.thumbnail ? await storage.getUrl(output.thumbnail.storageId) : url,
+        };
+      })
+    );
+  }
+
+  return (row.imageUrls ?? []).map((url) => ({ url, thumbnailUrl: url, sourceUrl: url }));
+};
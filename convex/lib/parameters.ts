@@ -0,0 +1,94 @@
+import { v } from "convex/values";
+import type { GenerationMode } from "./generation";
+import type { ParameterSupport } from "./providers/types";
+
+export const MAX_SEED = 4_294_967_295;
+
+export const advancedParamsValidator = v.object({
+  negativePrompt: v.optional(v.string()),
+  seed: v.optional(v.number()),
+  guidanceScale: v.optional(v.number()),
+  numInferenceSteps: v.optional(v.number()),
+  scheduler: v.optional(v.string()),
+  strength: v.optional(v.number()),
+});
+
+export type AdvancedParams = {
+  negativePrompt?: string;
+  seed?: number;
+  guidanceScale?: number;
+  numInferenceSteps?: number;
+  scheduler?: string;
+  /** How far image-to-image may drift from the source (0 keeps it, 1 ignores it). */
+  strength?: number;
+};
+
+const assertInRange = (
+  label: string,
+  value: number,
+  range: { min: number; max: number; step: number }
+) => {
+  if (!Number.isFinite(value) || value < range.min || value > range.max) {
+    throw new Error(`${label} must be between ${range.min} and ${range.max}.`);
+  }
+  if (range.step >= 1 && !Number.isInteger(value)) {
+    throw new Error(`${label} must be a whole number.`);
+  }
+};
+
+/**
+ * Keeps only the parameters this provider understands, validates them, and
+ * picks a seed when the provider takes one so the render can be reproduced.
+ */
+export const resolveParameters = (
+  support: ParameterSupport,
+  requested: AdvancedParams,
+  mode: GenerationMode,
+  random: () => number = Math.random
+): AdvancedParams => {
+  const resolved: AdvancedParams = {};
+  if (mode === "upscale") {
+    // Upscaling only enlarges the source, so no sampling parameters apply.
+    return resolved;
+  }
+
+  const negativePrompt = requested.negativePrompt?.trim();
+  if (support.negativePrompt && negativePrompt) {
+    resolved.negativePrompt = negativePrompt;
+  }
+
+  if (support.seed) {
+    const seed = requested.seed ?? Math.floor(random() * MAX_SEED);
+    assertInRange("Seed", seed, { min: 0, max: MAX_SEED, step: 1 });
+    resolved.seed = seed;
+  }
+
+  if (support.guidanceScale && requested.guidanceScale !== undefined) {
+    assertInRange("Guidance scale", requested.guidanceScale, support.guidanceScale);
+    resolved.guidanceScale = requested.guidanceScale;
+  }
+
+  if (support.numInferenceSteps && requested.numInferenceSteps !== undefined) {
+    assertInRange("Inference steps", requested.numInferenceSteps, support.numInferenceSteps);
+    resolved.numInferenceSteps = requested.numInferenceSteps;
+  }
+
+  if (support.schedulers && requested.scheduler) {
+    if (!support.schedulers.includes(requested.scheduler)) {
+      throw new Error(`Unsupported scheduler "${requested.scheduler}".`);
+    }
+    resolved.scheduler = requested.scheduler;
+  }
+
+  if (support.strength && mode === "image-to-image") {
+    const strength = requested.strength ?? support.strength.default;
+    assertInRange("Strength", strength, support.strength);
+    resolved.strength = strength;
+  }
+
+  return resolved;
+};
+
+/** Per-image seed for providers that render one image per call. */
+export const seedForImage = (parameters: AdvancedParams, imageIndex: number) =>
+  parameters.seed === undefined ? undefined : (parameters.seed + imageIndex) % (MAX_SEED + 1);
@@ -0,0 +1,192 @@
+// Minimal PNG encoder for generated placeholder art. It runs in the default
+// Convex runtime (no zlib), so IDAT is compressed with a fixed-Huffman deflate
+// that only emits distance-1 run-length matches. Rows are written with the
+// PNG "Sub" filter, which turns flat color regions into long zero runs.
+
+import { crc32 } from "./crc32";
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const MAX_RUN = 258;
+const ADLER_MOD = 65521;
+const ADLER_NMAX = 5552;
+const INITIAL_OUTPUT_BYTES = 64 * 1024;
+
+const createDeflater = () => {
+  // A growing byte buffer; a plain number[] costs 8+ bytes per byte at large sizes.
+  let output = new Uint8Array(INITIAL_OUTPUT_BYTES);
+  let length = 0;
+  const pushByte = (byte: number) => {
+    if (length === output.length) {
+      const grown = new Uint8Array(output.length * 2);
+      grown.set(output);
+      output = grown;
+    }
+    output[length] = byte;
+    length += 1;
+  };
+  pushByte(0x78);
+  pushByte(0x01);
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let adlerA = 1;
+  let adlerB = 0;
+  let previous = -1;
+  let run = 0;
+
+  const writeBits = (value: number, count: number) => {
+    bitBuffer |= value << bitCount;
+    bitCount += count;
+    while (bitCount >= 8) {
+      pushByte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  // Huffman codes are packed most-significant bit first.
+  const writeCode = (code: number, length: number) => {
+    let reversed = 0;
+    for (let index = 0; index < length; index += 1) {
+      reversed = (reversed << 1) | ((code >>> index) & 1);
+    }
+    writeBits(reversed, length);
+  };
+
+  const writeSymbol = (symbol: number) => {
+    if (symbol <= 143) {
+      writeCode(0x30 + symbol, 8);
+    } else if (symbol <= 255) {
+      writeCode(0x190 + symbol - 144, 9);
+    } else if (symbol <= 279) {
+      writeCode(symbol - 256, 7);
+    } else {
+      writeCode(0xc0 + symbol - 280, 8);
+    }
+  };
+
+  const flushRun = () => {
+    if (run >= 3) {
+      let index = LENGTH_BASE.length - 1;
+      while (LENGTH_BASE[index] > run) {
+        index -= 1;
+      }
+      writeSymbol(257 + index);
+      writeBits(run - LENGTH_BASE[index], LENGTH_EXTRA[index]);
+      writeCode(0, 5);
+    } else {
+      for (let index = 0; index < run; index += 1) {
+        writeSymbol(previous);
+      }
+    }
+    run = 0;
+  };
+
+  // Final block, fixed Huffman codes.
+  writeBits(1, 1);
+  writeBits(1, 2);
+
+  return {
+    write: (bytes: Uint8Array) => {
+      for (let start = 0; start < bytes.length; start += ADLER_NMAX) {
+        const end = Math.min(bytes.length, start + ADLER_NMAX);
+        for (let index = start; index < end; index += 1) {
+          const byte = bytes[index];
+          adlerA += byte;
+          adlerB += adlerA;
+
+          if (byte === previous && run < MAX_RUN) {
+            run += 1;
+            continue;
+          }
+
+          flushRun();
+          if (byte === previous) {
+            run = 1;
+          } else {
+            writeSymbol(byte);
+            previous = byte;
+          }
+        }
+        adlerA %= ADLER_MOD;
+        adlerB %= ADLER_MOD;
+      }
+    },
+    finish: () => {
+      flushRun();
+      writeSymbol(256);
+      if (bitCount > 0) {
+        writeBits(0, 8 - bitCount);
+      }
+      const adler = ((adlerB << 16) | adlerA) >>> 0;
+      for (const shift of [24, 16, 8, 0]) {
+        pushByte((adler >>> shift) & 0xff);
+      }
+      return output.slice(0, length);
+    },
+  };
+};
+
+const createChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let index = 0; index < 4; index += 1) {
+    chunk[4 + index] = type.charCodeAt(index);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const PNG_SIGNATURE = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Encodes an 8-bit RGB image. `renderRow` fills one row of `width * 3` bytes
+ * at a time so large canvases never need a full raw buffer in memory.
+ */
+export const encodePng = (
+  width: number,
+  height: number,
+  renderRow: (y: number, row: Uint8Array) => void
+) => {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8;
+  header[9] = 2;
+
+  const deflater = createDeflater();
+  const stride = width * 3;
+  const row = new Uint8Array(stride);
+  const filtered = new Uint8Array(stride + 1);
+  filtered[0] = 1;
+
+  for (let y = 0; y < height; y += 1) {
+    renderRow(y, row);
+    for (let index = 0; index < stride; index += 1) {
+      filtered[index + 1] = index < 3 ? row[index] : (row[index] - row[index - 3]) & 0xff;
+    }
+    deflater.write(filtered);
+  }
+
+  const chunks = [
+    PNG_SIGNATURE,
+    createChunk("IHDR", header),
+    createChunk("IDAT", deflater.finish()),
+    createChunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+};
@@ -0,0 +1,45 @@
+import type { Provider } from "./providers/types";
+
+export type ModelPrice = {
+  /** USD per output image at 1K. */
+  perImage: number;
+  /** Multipliers for larger outputs; missing resolutions bill at the base price. */
+  resolutionMultipliers?: Partial<Record<string, number>>;
+};
+
+/** List prices per provider and model. Update when a provider changes its pricing. */
+export const PRICE_TABLE: Record<Provider, Record<string, ModelPrice>> = {
+  fal: {
+    "fal-ai/nano-banana-pro": { perImage: 0.15, resolutionMultipliers: { "4K": 2 } },
+    "fal-ai/nano-banana-pro/edit": { perImage: 0.15, resolutionMultipliers: { "4K": 2 } },
+  },
+  huggingface: {
+    // Covered by the free Inference API tier.
+    "ByteDance/SDXL-Lightning": { perImage: 0 },
+    "caidas/swin2SR-classical-sr-x2-64": { perImage: 0 },
+  },
+  mock: {
+    "local/mock-placeholder": { perImage: 0 },
+  },
+};
+
+export const roundUsd = (value: number) => Math.round(value * 10_000) / 10_000;
+
+export const getModelPrice = (provider: Provider, model: string) => {
+  const price = PRICE_TABLE[provider]?.[model];
+  if (!price) {
+    // Refusing unpriced models keeps budgets from being bypassed by a new adapter.
+    throw new Error(`No price is configured for ${provider} model ${model}.`);
+  }
+  return price;
+};
+
+export const pricePerImage = (price: ModelPrice, resolution: string) =>
+  price.perImage * (price.resolutionMultipliers?.[resolution] ?? 1);
+
+export const estimateCost = (
+  provider: Provider,
+  model: string,
+  resolution: string,
+  numImages: number
+) => roundUsd(pricePerImage(getModelPrice(provider, model), resolution) * numImages);
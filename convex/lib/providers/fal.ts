@@ -0,0 +1,149 @@
+import { fal } from "@fal-ai/client";
+import type { WebHookResponse } from "@fal-ai/client";
+import { ASPECT_RATIOS, OUTPUT_FORMATS, RESOLUTIONS } from "../generation";
+import type { ProviderImage } from "../outputs";
+import { DEFAULT_RETRY_POLICY, sleep } from "../retry";
+import type { GenerationRequest, ProviderAdapter, ProviderProgress } from "./types";
+
+const FAL_MODEL_NAME = "fal-ai/nano-banana-pro";
+const FAL_EDIT_MODEL_NAME = "fal-ai/nano-banana-pro/edit";
+const FAL_POLL_INTERVAL_MS = 1500;
+const MAX_PROGRESS_LOGS = 20;
+
+type FalOutput = {
+  images?: { url: string; width?: number; height?: number; content_type?: string }[];
+};
+
+type FalErrorBody = { detail?: { type?: string }[] | string };
+
+/** Fal.ai reports policy refusals as a 422 whose `detail` carries this type. */
+const hasPolicyViolation = (body: FalErrorBody | null | undefined) =>
+  Array.isArray(body?.detail) &&
+  body.detail.some((entry) => entry?.type === "content_policy_violation");
+
+const configureFal = () => {
+  const falKey = process.env.FAL_KEY;
+  if (!falKey) {
+    throw new Error("Missing FAL_KEY environment variable.");
+  }
+  fal.config({ credentials: falKey });
+};
+
+const toProviderImages = (data: FalOutput | undefined) =>
+  data?.images
+    ?.filter((image) => Boolean(image.url))
+    .map((image) => ({
+      url: image.url,
+      width: image.width,
+      height: image.height,
+      contentType: image.content_type,
+    })) ?? [];
+
+const submitRequest = async (request: GenerationRequest, webhookUrl?: string) => {
+  configureFal();
+
+  const input = {
+    prompt: request.prompt,
+    aspect_ratio: request.aspectRatio,
+    resolution: request.resolution,
+    output_format: request.outputFormat,
+    num_images: request.numImages,
+    seed: request.parameters.seed,
+  };
+
+  const { request_id: requestId } =
+    request.mode === "edit"
+      ? await fal.queue.submit(FAL_EDIT_MODEL_NAME, {
+          input: { ...input, image_urls: request.sourceImages.map((source) => source.url) },
+          webhookUrl,
+        })
+      : await fal.queue.submit(FAL_MODEL_NAME, { input, webhookUrl });
+  return requestId;
+};
+
+const readProgress = async (model: string, requestId: string): Promise<ProviderProgress> => {
+  configureFal();
+
+  const status = await fal.queue.status(model, { requestId, logs: true });
+  if (status.status === "IN_QUEUE") {
+    return { queuePosition: status.queue_position, logs: [], done: false };
+  }
+  return {
+    logs: (status.logs ?? []).slice(-MAX_PROGRESS_LOGS).map((log) => log.message),
+    done: status.status === "COMPLETED",
+  };
+};
+
+/** Reads the body Fal.ai posts to a submission's webhook URL. */
+export const parseFalWebhook = (
+  body: WebHookResponse<FalOutput | undefined>
+): { requestId: string; images: ProviderImage[]; error?: string; refused?: boolean } =>
+  body.status === "OK"
+    ? { requestId: body.request_id, images: toProviderImages(body.payload) }
+    : {
+        requestId: body.request_id,
+        images: [],
+        error: body.error || "Fal.ai reported the request as failed.",
+        refused: hasPolicyViolation(body.payload as FalErrorBody | undefined),
+      };
+
+export const falProvider: ProviderAdapter = {
+  id: "fal",
+  label: "Fal.ai",
+  model: FAL_MODEL_NAME,
+  modeModels: { edit: FAL_EDIT_MODEL_NAME },
+  modelLabel: "Nano Banana Pro",
+  description: "Premium quality and full control over aspect ratio, resolution, and output format.",
+  credentialEnvVar: "FAL_KEY",
+  capabilities: {
+    aspectRatios: ASPECT_RATIOS,
+    resolutions: RESOLUTIONS,
+    outputFormats: OUTPUT_FORMATS,
+    maxImages: 4,
+    parameters: {
+      negativePrompt: false,
+      seed: true,
+    },
+    modes: ["text-to-image", "edit"],
+    maxSourceImages: 4,
+  },
+  retryPolicy: {
+    ...DEFAULT_RETRY_POLICY,
+    baseDelayMs: 2000,
+    maxDelayMs: 20_000,
+  },
+  batchesImages: true,
+  // Past the action time limit, so a job this quiet has lost its worker.
+  jobDeadlineMs: 15 * 60_000,
+  isSafetyRefusal: (error) => hasPolicyViolation((error as { body?: FalErrorBody })?.body),
+  generate: async (_ctx, request) => {
+    // Submit and poll separately so the request id is saved before the long wait.
+    const model = request.mode === "edit" ? FAL_EDIT_MODEL_NAME : FAL_MODEL_NAME;
+    const requestId = await submitRequest(request);
+    await request.onSubmitted?.(requestId);
+
+    for (;;) {
+      const progress = await readProgress(model, requestId);
+      await request.onProgress?.(progress);
+      if (progress.done) {
+        break;
+      }
+      await sleep(FAL_POLL_INTERVAL_MS);
+    }
+    const result = await fal.queue.result(model, { requestId });
+
+    return { images: toProviderImages(result.data as FalOutput), requestId };
+  },
+  submit: (_ctx, request, webhookUrl) => submitRequest(request, webhookUrl),
+  getProgress: (_ctx, { requestId, model }) => readProgress(model, requestId),
+  recover: async (_ctx, { requestId, model }) => {
+    configureFal();
+
+    const status = await fal.queue.status(model, { requestId });
+    if (status.status !== "COMPLETED") {
+      return "pending";
+    }
+    const result = await fal.queue.result(model, { requestId });
+    return { images: toProviderImages(result.data as FalOutput), requestId };
+  },
+};
@@ -0,0 +1,129 @@
+import { InferenceClient } from "@huggingface/inference";
+import { ASPECT_RATIOS, OUTPUT_FORMATS, RESOLUTIONS, resolveDimensions } from "../generation";
+import type { AspectRatio } from "../generation";
+import type { ProviderImage } from "../outputs";
+import { seedForImage } from "../parameters";
+import { DEFAULT_RETRY_POLICY } from "../retry";
+import { SUPER_RESOLUTION_MODEL } from "../upscale";
+import type { ProviderAdapter } from "./types";
+
+const HUGGINGFACE_MODEL_NAME = "ByteDance/SDXL-Lightning";
+
+const HUGGINGFACE_BASE_SIZE = 1024;
+
+// Cold models answer 503 with `estimated_time` (seconds) until they finish loading.
+const getModelLoadingDelay = (error: unknown) => {
+  const body = (error as { httpResponse?: { body?: unknown } })?.httpResponse?.body;
+  const estimatedTime = (body as { estimated_time?: unknown } | undefined)?.estimated_time;
+  return typeof estimatedTime === "number" ? estimatedTime * 1000 : undefined;
+};
+
+const resolveHuggingFaceDimensions = (aspectRatio: AspectRatio) =>
+  resolveDimensions(aspectRatio, HUGGINGFACE_BASE_SIZE);
+
+export const huggingFaceProvider: ProviderAdapter = {
+  id: "huggingface",
+  label: "Hugging Face",
+  model: HUGGINGFACE_MODEL_NAME,
+  modeModels: { upscale: SUPER_RESOLUTION_MODEL },
+  modelLabel: "SDXL Lightning",
+  description: "Free API tier; renders at 1024px and upscales for 2K and 4K.",
+  credentialEnvVar: "HF_TOKEN",
+  capabilities: {
+    aspectRatios: ASPECT_RATIOS,
+    resolutions: RESOLUTIONS,
+    outputFormats: OUTPUT_FORMATS,
+    maxImages: 4,
+    parameters: {
+      negativePrompt: true,
+      seed: true,
+      // SDXL Lightning is distilled for very few steps and little or no guidance.
+      guidanceScale: { min: 0, max: 2, step: 0.1, default: 0 },
+      numInferenceSteps: { min: 1, max: 8, step: 1, default: 4 },
+      schedulers: [
+        "EulerDiscreteScheduler",
+        "EulerAncestralDiscreteScheduler",
+        "DPMSolverMultistepScheduler",
+      ],
+      strength: { min: 0, max: 1, step: 0.05, default: 0.6 },
+    },
+    modes: ["text-to-image", "image-to-image", "upscale"],
+    maxSourceImages: 1,
+  },
+  nativeResolutions: ["1K"],
+  retryPolicy: {
+    ...DEFAULT_RETRY_POLICY,
+    maxAttempts: 4,
+    baseDelayMs: 2000,
+    maxDelayMs: 30_000,
+  },
+  batchesImages: false,
+  jobDeadlineMs: 10 * 60_000,
+  getRetryAfterMs: getModelLoadingDelay,
+  generate: async (ctx, request) => {
+    if (request.mode === "upscale") {
+      // The source passes through as is; storing it upscales it to the requested resolution.
+      const source = request.sourceImages[request.imageIndex];
+      const blob = source ? await ctx.storage.get(source.storageId) : null;
+      if (!blob) {
+        throw new Error("The image to upscale is no longer in storage.");
+      }
+      return { images: [{ blob }] };
+    }
+
+    const huggingFaceToken = process.env.HF_TOKEN;
+    if (!huggingFaceToken) {
+      throw new Error("Missing HF_TOKEN environment variable.");
+    }
+
+    const { width, height } = resolveHuggingFaceDimensions(request.aspectRatio);
+    const images: ProviderImage[] = [];
+    const hf = new InferenceClient(huggingFaceToken);
+
+    const sourceBlob =
+      request.mode === "image-to-image" && request.sourceImages[0]
+        ? await ctx.storage.get(request.sourceImages[0].storageId)
+        : null;
+    if (request.mode === "image-to-image" && !sourceBlob) {
+      throw new Error("Source image is no longer in storage.");
+    }
+
+    for (let index = 0; index < request.numImages; index += 1) {
+      const sharedParameters = {
+        negative_prompt: request.parameters.negativePrompt,
+        seed: seedForImage(request.parameters, request.imageIndex + index),
+        guidance_scale: request.parameters.guidanceScale,
+        num_inference_steps: request.parameters.numInferenceSteps,
+        scheduler: request.parameters.scheduler,
+      };
+
+      const imageBlob = sourceBlob
+        ? await hf.imageToImage({
+            model: HUGGINGFACE_MODEL_NAME,
+            inputs: sourceBlob,
+            parameters: {
+              ...sharedParameters,
+              prompt: request.prompt,
+              strength: request.parameters.strength,
+              target_size: { width, height },
+            },
+          })
+        : await hf.textToImage(
+            {
+              model: HUGGINGFACE_MODEL_NAME,
+              inputs: request.prompt,
+              parameters: { ...sharedParameters, width, height },
+            },
+            { outputType: "blob" }
+          );
+
+      images.push({ blob: imageBlob, width, height });
+    }
+
+    if (images.length === 0) {
+      throw new Error("Hugging Face returned no images.");
+    }
+
+    return { images };
+  },
+};
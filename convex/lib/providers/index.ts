@@ -0,0 +1,39 @@
+import { v } from "convex/values";
+import { falProvider } from "./fal";
+import { huggingFaceProvider } from "./huggingface";
+import { mockProvider } from "./mock";
+import type { GenerationMode } from "../generation";
+import type { Provider, ProviderAdapter } from "./types";
+
+export type {
+  GenerationResult,
+  ParameterSupport,
+  Provider,
+  ProviderAdapter,
+  ProviderCapabilities,
+  ProviderProgress,
+  RecoveryResult,
+} from "./types";
+
+export const providerValidator = v.union(
+  v.literal("fal"),
+  v.literal("huggingface"),
+  v.literal("mock")
+);
+
+export const PROVIDERS: Record<Provider, ProviderAdapter> = {
+  fal: falProvider,
+  huggingface: huggingFaceProvider,
+  mock: mockProvider,
+};
+
+export const DEFAULT_PROVIDER: Provider = "fal";
+
+export const getProvider = (provider?: string): ProviderAdapter =>
+  PROVIDERS[provider as Provider] ?? PROVIDERS[DEFAULT_PROVIDER];
+
+export const resolveModel = (adapter: ProviderAdapter, mode: GenerationMode) =>
+  adapter.modeModels?.[mode] ?? adapter.model;
+
+export const isProviderConfigured = (adapter: ProviderAdapter) =>
+  !adapter.credentialEnvVar || Boolean(process.env[adapter.credentialEnvVar]);
@@ -0,0 +1,140 @@
+import {
+  ASPECT_RATIOS,
+  OUTPUT_FORMATS,
+  RESOLUTION_BASE_SIZE,
+  RESOLUTIONS,
+  resolveDimensions,
+} from "../generation";
+import { seedForImage } from "../parameters";
+import { encodePng } from "../png";
+import { DEFAULT_RETRY_POLICY } from "../retry";
+import type { GenerationRequest, ProviderAdapter } from "./types";
+
+const MOCK_MODEL_NAME = "local/mock-placeholder";
+// Painting and encoding happen in pure JS in the default runtime, so larger
+// resolutions are rendered at 1K and enlarged by the sharp upscale step.
+const MOCK_RENDER_SIZE = RESOLUTION_BASE_SIZE["1K"];
+
+// FNV-1a, so the same prompt and seed always paint the same placeholder.
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const createRandom = (seed: number) => {
+  let state = seed || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 0x100000000;
+  };
+};
+
+const hslToRgb = (hue: number, saturation: number, lightness: number): [number, number, number] => {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const segment = (hue / 60) % 6;
+  const secondary = chroma * (1 - Math.abs((segment % 2) - 1));
+  const [red, green, blue] =
+    segment < 1
+      ? [chroma, secondary, 0]
+      : segment < 2
+        ? [secondary, chroma, 0]
+        : segment < 3
+          ? [0, chroma, secondary]
+          : segment < 4
+            ? [0, secondary, chroma]
+            : segment < 5
+              ? [secondary, 0, chroma]
+              : [chroma, 0, secondary];
+  const offset = lightness - chroma / 2;
+  return [red, green, blue].map((channel) => Math.round((channel + offset) * 255)) as [
+    number,
+    number,
+    number,
+  ];
+};
+
+/**
+ * Paints a vertical gradient split into seeded color bands. Each row is flat
+ * within a band, which keeps the run-length PNG encoder output small.
+ */
+const renderPlaceholder = (width: number, height: number, seed: number) => {
+  const random = createRandom(seed >>> 0);
+  const baseHue = random() * 360;
+  const top = hslToRgb(baseHue, 0.7, 0.6);
+  const bottom = hslToRgb((baseHue + 40 + random() * 80) % 360, 0.65, 0.35);
+  const bandCount = 3 + Math.floor(random() * 4);
+  const bandEdges = Array.from({ length: bandCount }, (_, index) =>
+    Math.round(((index + 1) / bandCount) * width)
+  );
+  const bandTints = Array.from({ length: bandCount }, () => 0.75 + random() * 0.5);
+
+  return encodePng(width, height, (y, row) => {
+    const mix = height > 1 ? y / (height - 1) : 0;
+    const color = top.map((channel, index) => channel + (bottom[index] - channel) * mix);
+    let band = 0;
+    for (let x = 0; x < width; x += 1) {
+      if (x >= bandEdges[band]) {
+        band += 1;
+      }
+      const tint = bandTints[band];
+      const offset = x * 3;
+      row[offset] = Math.min(255, color[0] * tint);
+      row[offset + 1] = Math.min(255, color[1] * tint);
+      row[offset + 2] = Math.min(255, color[2] * tint);
+    }
+  });
+};
+
+// Source images only change the palette, so image-to-image stays reproducible offline.
+const placeholderSeed = (request: GenerationRequest, index: number) =>
+  hashString(
+    [
+      request.prompt,
+      seedForImage(request.parameters, request.imageIndex + index) ?? 0,
+      ...request.sourceImages.map((source) => source.storageId),
+    ].join("#")
+  );
+
+export const mockProvider: ProviderAdapter = {
+  id: "mock",
+  label: "Local mock",
+  model: MOCK_MODEL_NAME,
+  modelLabel: "Placeholder",
+  description: "Offline and free; paints deterministic placeholders for development.",
+  capabilities: {
+    aspectRatios: ASPECT_RATIOS,
+    resolutions: RESOLUTIONS,
+    outputFormats: OUTPUT_FORMATS,
+    maxImages: 4,
+    parameters: {
+      negativePrompt: false,
+      seed: true,
+      strength: { min: 0, max: 1, step: 0.05, default: 0.6 },
+    },
+    modes: ["text-to-image", "image-to-image", "edit"],
+    maxSourceImages: 4,
+  },
+  nativeResolutions: ["1K"],
+  retryPolicy: DEFAULT_RETRY_POLICY,
+  batchesImages: false,
+  jobDeadlineMs: 2 * 60_000,
+  generate: async (_ctx, request) => {
+    const { width, height } = resolveDimensions(request.aspectRatio, MOCK_RENDER_SIZE);
+    const images = Array.from({ length: request.numImages }, (_, index) => ({
+      blob: new Blob([renderPlaceholder(width, height, placeholderSeed(request, index))], {
+        type: "image/png",
+      }),
+      width,
+      height,
+      contentType: "image/png",
+    }));
+
+    return { images };
+  },
+};
@@ -0,0 +1,124 @@
+import type { GenericActionCtx, GenericDataModel } from "convex/server";
+import type { GenericId } from "convex/values";
+import type {
+  AspectRatio,
+  GenerationMode,
+  GenerationProgress,
+  OutputFormat,
+  Resolution,
+} from "../generation";
+import type { ProviderImage } from "../outputs";
+import type { AdvancedParams } from "../parameters";
+import type { RetryPolicy } from "../retry";
+
+export type Provider = "fal" | "huggingface" | "mock";
+
+export type NumericRange = {
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+};
+
+/** Advanced parameters a provider accepts; anything missing is never sent. */
+export type ParameterSupport = {
+  negativePrompt: boolean;
+  seed: boolean;
+  guidanceScale?: NumericRange;
+  numInferenceSteps?: NumericRange;
+  schedulers?: string[];
+  strength?: NumericRange;
+};
+
+export type ProviderCapabilities = {
+  aspectRatios: AspectRatio[];
+  resolutions: Resolution[];
+  /** Formats users can pick; outputs are converted after download, so this is usually all of them. */
+  outputFormats: OutputFormat[];
+  maxImages: number;
+  parameters: ParameterSupport;
+  modes: GenerationMode[];
+  /** Reference images accepted by the image-to-image and edit modes. */
+  maxSourceImages: number;
+};
+
+export type GenerationRequest = {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  outputFormat: OutputFormat;
+  numImages: number;
+  /** Position of the first requested image within the row, for per-image calls. */
+  imageIndex: number;
+  parameters: AdvancedParams;
+  mode: GenerationMode;
+  sourceImages: ResolvedSourceImage[];
+  /** Called once a queue-backed provider accepts the job, so a crashed worker can recover it. */
+  onSubmitted?: (requestId: string) => Promise<void>;
+  /** Called with queue position and logs while the worker waits on the provider. */
+  onProgress?: (progress: ProviderProgress) => Promise<void>;
+};
+
+export type ResolvedSourceImage = {
+  storageId: GenericId<"_storage">;
+  /** Public Convex storage URL, for providers that fetch inputs themselves. */
+  url: string;
+};
+
+export type GenerationResult = {
+  images: ProviderImage[];
+  requestId?: string;
+};
+
+export type ProviderProgress = GenerationProgress & {
+  /** True once the provider has a result, successful or not. */
+  done: boolean;
+};
+
+/** A submitted job looked up again by request id; "pending" while the provider still works. */
+export type RecoveryResult = GenerationResult | "pending" | null;
+
+export type ProviderJob = { requestId: string; model: string };
+
+export type ProviderContext = Pick<GenericActionCtx<GenericDataModel>, "storage">;
+
+export type ProviderAdapter = {
+  id: Provider;
+  label: string;
+  model: string;
+  /** Endpoints that replace `model` for other generation modes. */
+  modeModels?: Partial<Record<GenerationMode, string>>;
+  modelLabel: string;
+  description: string;
+  /** Convex environment variable holding the API key, if the provider needs one. */
+  credentialEnvVar?: string;
+  capabilities: ProviderCapabilities;
+  /** Resolutions the model renders itself; others are upscaled after download. Defaults to all. */
+  nativeResolutions?: Resolution[];
+  retryPolicy: RetryPolicy;
+  /**
+   * True when one call returns every requested image. Otherwise the worker asks
+   * for one image per call so a failure only costs that image.
+   */
+  batchesImages: boolean;
+  /** How long a job may go without progress before the reaper treats it as stuck. */
+  jobDeadlineMs: number;
+  /** Provider hint for how long to wait before retrying, e.g. model warm-up time. */
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  /** Recognizes structured safety refusals that the error message alone does not reveal. */
+  isSafetyRefusal?: (error: unknown) => boolean;
+  generate: (ctx: ProviderContext, request: GenerationRequest) => Promise<GenerationResult>;
+  /**
+   * Queues a job whose result is posted to `webhookUrl` instead of awaited, so
+   * no action stays open while it renders. Returns the provider request id.
+   */
+  submit?: (
+    ctx: ProviderContext,
+    request: GenerationRequest,
+    webhookUrl: string
+  ) => Promise<string>;
+  /** Reads queue position and logs for a submitted job. */
+  getProgress?: (ctx: ProviderContext, job: ProviderJob) => Promise<ProviderProgress>;
+  /** Fetches the outcome of an earlier submission, for providers with a request queue. */
+  recover?: (ctx: ProviderContext, job: ProviderJob) => Promise<RecoveryResult>;
+};
@@ -0,0 +1,66 @@
+import type {
+  GenericDatabaseReader,
+  GenericDataModel,
+  GenericDocument,
+  GenericIndexFields,
+  IndexRange,
+  IndexRangeBuilder,
+} from "convex/server";
+import type { GenericId } from "convex/values";
+
+export const MAX_RATING = 5;
+
+export type OutputRating = {
+  outputIndex: number;
+  favorite: boolean;
+  rating?: number;
+};
+
+/** 0 clears a rating; anything else must be a whole number of stars. */
+export const assertRating = (rating: number) => {
+  if (!Number.isInteger(rating) || rating < 0 || rating > MAX_RATING) {
+    throw new Error(`Ratings are whole numbers from 1 to ${MAX_RATING}, or 0 to clear.`);
+  }
+};
+
+/** Bounds `by_user_image` to one user's marks on a generation, or on one of its outputs. */
+export const userImageRange = (
+  q: IndexRangeBuilder<GenericDocument, GenericIndexFields>,
+  userId: GenericId<"users">,
+  imageId: GenericId<"images">,
+  outputIndex?: number
+): IndexRange => {
+  // Generic builders type every index as `string[]`, which hides the later fields.
+  const builder = q as unknown as IndexRangeBuilder<
+    GenericDocument,
+    ["userId", "imageId", "outputIndex"]
+  >;
+  const scoped = builder.eq("userId", userId).eq("imageId", imageId);
+  return outputIndex === undefined ? scoped : scoped.eq("outputIndex", outputIndex);
+};
+
+/** Bounds `by_user_favorite` to one user's favorites, ordered by when they were marked. */
+export const userFavoritesRange = (
+  q: IndexRangeBuilder<GenericDocument, GenericIndexFields>,
+  userId: GenericId<"users">
+): IndexRange =>
+  (q as unknown as IndexRangeBuilder<GenericDocument, ["userId", "favorite", "updatedAt"]>)
+    .eq("userId", userId)
+    .eq("favorite", true);
+
+/** The caller's marks on each output of one generation, for cards and the lightbox. */
+export const loadRatings = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  userId: GenericId<"users">,
+  imageId: GenericId<"images">
+): Promise<OutputRating[]> => {
+  const rows = await db
+    .query("ratings")
+    .withIndex("by_user_image", (q) => userImageRange(q, userId, imageId))
+    .collect();
+  return rows.map((row) => ({
+    outputIndex: row.outputIndex as number,
+    favorite: row.favorite as boolean,
+    ...(row.rating !== undefined ? { rating: row.rating as number } : {}),
+  }));
+};
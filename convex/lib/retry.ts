@@ -0,0 +1,135 @@
+import { v } from "convex/values";
+
+export type RetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** HTTP statuses worth another attempt, e.g. rate limits and cold starts. */
+  retryableStatuses: number[];
+};
+
+export type AttemptRecord = {
+  attempt: number;
+  provider: string;
+  imageIndex: number;
+  startedAt: number;
+  finishedAt: number;
+  ok: boolean;
+  error?: string;
+  httpStatus?: number;
+  transient?: boolean;
+  retryInMs?: number;
+};
+
+export const attemptValidator = v.object({
+  attempt: v.number(),
+  provider: v.string(),
+  imageIndex: v.number(),
+  startedAt: v.number(),
+  finishedAt: v.number(),
+  ok: v.boolean(),
+  error: v.optional(v.string()),
+  httpStatus: v.optional(v.number()),
+  transient: v.optional(v.boolean()),
+  retryInMs: v.optional(v.number()),
+});
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15_000,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+const TRANSIENT_MESSAGE_PATTERN =
+  /rate limit|too many requests|currently loading|is loading|timed? ?out|temporarily unavailable|fetch failed|network|ECONNRESET|ETIMEDOUT/i;
+
+/** Reads the HTTP status from Fal (`status`) and Hugging Face (`httpResponse.status`) errors. */
+export const getErrorStatus = (error: unknown) => {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  const candidate = error as { status?: unknown; httpResponse?: { status?: unknown } };
+  const status = candidate.status ?? candidate.httpResponse?.status;
+  return typeof status === "number" ? status : undefined;
+};
+
+export const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Unexpected image generation error.";
+
+export const classifyError = (error: unknown, policy: RetryPolicy) => {
+  const httpStatus = getErrorStatus(error);
+  const message = getErrorMessage(error);
+  const transient =
+    httpStatus !== undefined
+      ? policy.retryableStatuses.includes(httpStatus)
+      : TRANSIENT_MESSAGE_PATTERN.test(message);
+
+  return { httpStatus, message, transient };
+};
+
+/** Exponential backoff with up to 20% jitter, capped at the policy maximum. */
+export const backoffDelay = (policy: RetryPolicy, attempt: number, retryAfterMs?: number) => {
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const jittered = exponential * (1 + Math.random() * 0.2);
+  return Math.round(Math.min(policy.maxDelayMs, Math.max(jittered, retryAfterMs ?? 0)));
+};
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `task` until it succeeds, hits a permanent error, or exhausts the
+ * policy. Every attempt is reported through `onAttempt`; returning false from
+ * it aborts further work (for example when the job was cancelled).
+ */
+export const withRetry = async <T>({
+  policy,
+  provider,
+  imageIndex,
+  task,
+  onAttempt,
+  getRetryAfterMs,
+}: {
+  policy: RetryPolicy;
+  provider: string;
+  imageIndex: number;
+  task: () => Promise<T>;
+  onAttempt: (record: AttemptRecord, result?: T) => Promise<boolean>;
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+}): Promise<T> => {
+  for (let attempt = 1; ; attempt += 1) {
+    const startedAt = Date.now();
+    try {
+      const result = await task();
+      await onAttempt(
+        { attempt, provider, imageIndex, startedAt, finishedAt: Date.now(), ok: true },
+        result
+      );
+      return result;
+    } catch (error) {
+      const { httpStatus, message, transient } = classifyError(error, policy);
+      const willRetry = transient && attempt < policy.maxAttempts;
+      const retryInMs = willRetry
+        ? backoffDelay(policy, attempt, getRetryAfterMs?.(error))
+        : undefined;
+
+      const shouldContinue = await onAttempt({
+        attempt,
+        provider,
+        imageIndex,
+        startedAt,
+        finishedAt: Date.now(),
+        ok: false,
+        error: message,
+        httpStatus,
+        transient,
+        retryInMs,
+      });
+
+      if (!willRetry || !shouldContinue) {
+        throw error;
+      }
+      await sleep(retryInMs ?? 0);
+    }
+  }
+};
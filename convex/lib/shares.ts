@@ -0,0 +1,177 @@
+import type { GenericDocument } from "convex/server";
+import { toHex } from "./crypto";
+
+export const SHARE_PATH_PREFIX = "/share/";
+export const MAX_SHARE_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DESCRIPTION_LENGTH = 200;
+
+export const sharePath = (token: string) => `${SHARE_PATH_PREFIX}${token}`;
+
+/** The public page for a token, served by the deployment's HTTP routes. */
+export const shareUrl = (token: string) => {
+  const siteUrl = process.env.CONVEX_SITE_URL;
+  return siteUrl ? new URL(sharePath(token), siteUrl).toString() : null;
+};
+
+/** 128 random bits, so tokens cannot be guessed or enumerated. */
+export const generateShareToken = () => toHex(crypto.getRandomValues(new Uint8Array(16)));
+
+export const shareExpiry = (now: number, expiresInDays: number | undefined) => {
+  if (expiresInDays === undefined) {
+    return undefined;
+  }
+  if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_SHARE_DAYS) {
+    throw new Error(`Links can expire after 1 to ${MAX_SHARE_DAYS} days.`);
+  }
+  return now + expiresInDays * DAY_MS;
+};
+
+// Chat and social apps fetch a pasted link to build its preview card; those fetches are not views.
+const LINK_PREVIEW_AGENT =
+  /bot\b|crawler|spider|facebookexternalhit|facebookcatalog|embedly|whatsapp|skypeuripreview|vkshare|iframely|preview/i;
+
+/** Whether a request comes from a link unfurler or crawler rather than a person. */
+export const isLinkPreviewAgent = (userAgent: string | null) =>
+  userAgent !== null && LINK_PREVIEW_AGENT.test(userAgent);
+
+export const isShareActive = (share: GenericDocument, now: number) =>
+  share.revokedAt === undefined &&
+  (share.expiresAt === undefined || (share.expiresAt as number) > now);
+
+export type SharedImage = {
+  url: string;
+  width?: number;
+  height?: number;
+  prompt: string | null;
+};
+
+/** What the public page shows; prompts are already null when the share hides them. */
+export type SharedPage = {
+  kind: "generation" | "collection";
+  title: string;
+  description: string | null;
+  images: SharedImage[];
+  details: { label: string; value: string }[];
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+const renderFigure = (image: SharedImage, alt: string, caption: boolean) => {
+  const size =
+    (image.width ? ` width="${image.width}"` : "") +
+    (image.height ? ` height="${image.height}"` : "");
+  const figcaption =
+    caption && image.prompt ? `<figcaption>${escapeHtml(image.prompt)}</figcaption>` : "";
+  return (
+    `<figure><img src="${escapeHtml(image.url)}" alt="${escapeHtml(image.prompt ?? alt)}"` +
+    `${size} />${figcaption}</figure>`
+  );
+};
+
+const PAGE_STYLE = `
+  body { margin: 0; font-family: system-ui, sans-serif; background: #f6f3ee; color: #1d1b19; }
+  main { max-width: 1100px; margin: 0 auto; padding: 32px 20px; }
+  h1 { font-size: 1.4rem; margin: 0 0 8px; }
+  .prompt { margin: 0 0 20px; line-height: 1.5; }
+  .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(260px, 1fr)); gap: 16px; }
+  figure { margin: 0; }
+  img { display: block; width: 100%; height: auto; border: 2px solid #1d1b19; }
+  figcaption { font-size: 0.8rem; margin-top: 6px; }
+  dl { display: flex; flex-wrap: wrap; gap: 8px 24px; margin: 20px 0 0; font-size: 0.85rem; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  footer { margin-top: 28px; font-size: 0.75rem; opacity: 0.7; }
+  .embed main { padding: 0; }
+`;
+
+/**
+ * A standalone HTML page for a share, with Open Graph and Twitter tags so chat
+ * tools can preview the link. `embed` drops the text for use inside an iframe.
+ */
+export const renderSharePage = (page: SharedPage, url: string, embed: boolean) => {
+  const cover = page.images[0];
+  const description = truncate(
+    page.description ?? `${page.images.length} image(s) from Convex Image Studio`,
+    DESCRIPTION_LENGTH
+  );
+  const meta = [
+    ["og:type", "website"],
+    ["og:site_name", "Convex Image Studio"],
+    ["og:title", page.title],
+    ["og:description", description],
+    ["og:url", url],
+    ...(cover
+      ? [
+          ["og:image", cover.url],
+          ...(cover.width ? [["og:image:width", String(cover.width)]] : []),
+          ...(cover.height ? [["og:image:height", String(cover.height)]] : []),
+        ]
+      : []),
+  ]
+    .map(
+      ([property, content]) => `<meta property="${property}" content="${escapeHtml(content)}" />`
+    )
+    .join("\n    ");
+  const figures = page.images
+    .map((image) => renderFigure(image, page.title, page.kind === "collection" && !embed))
+    .join("\n      ");
+  const details = page.details
+    .map(
+      ({ label, value }) => `<div><dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd></div>`
+    )
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex" />
+    <title>${escapeHtml(page.title)}</title>
+    <meta name="description" content="${escapeHtml(description)}" />
+    ${meta}
+    <meta name="twitter:card" content="${cover ? "summary_large_image" : "summary"}" />
+    <style>${PAGE_STYLE}</style>
+  </head>
+  <body${embed ? ' class="embed"' : ""}>
+    <main>
+      ${embed ? "" : `<h1>${escapeHtml(page.title)}</h1>`}
+      ${!embed && page.description ? `<p class="prompt">${escapeHtml(page.description)}</p>` : ""}
+      <div class="grid">
+      ${figures}
+      </div>
+      ${!embed && details ? `<dl>${details}</dl>` : ""}
+      ${embed ? "" : "<footer>Shared from Convex Image Studio</footer>"}
+    </main>
+  </body>
+</html>
+`;
+};
+
+/** Shown for unknown, revoked and expired tokens alike, so none can be told apart. */
+export const renderMissingSharePage = () => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="robots" content="noindex" />
+    <title>Link unavailable</title>
+    <style>${PAGE_STYLE}</style>
+  </head>
+  <body>
+    <main>
+      <h1>This link is no longer available</h1>
+      <p class="prompt">It may have expired or been revoked by its owner.</p>
+    </main>
+  </body>
+</html>
+`;
@@ -0,0 +1,130 @@
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import type {
+  GenericDatabaseReader,
+  GenericDatabaseWriter,
+  GenericDataModel,
+  StorageReader,
+} from "convex/server";
+import { canViewImage } from "./auth";
+import type { StoredImage } from "./outputs";
+import { requireOwnUpload } from "./uploads";
+
+/**
+ * What the client sends: a fresh upload of its own, an output of an earlier
+ * generation, or a reference image an earlier generation was made from.
+ */
+export const sourceImageInputValidator = v.union(
+  v.object({
+    kind: v.literal("upload"),
+    storageId: v.id("_storage"),
+  }),
+  v.object({
+    kind: v.literal("generation"),
+    imageId: v.id("images"),
+    outputIndex: v.number(),
+  }),
+  v.object({
+    kind: v.literal("source"),
+    imageId: v.id("images"),
+    sourceIndex: v.number(),
+  })
+);
+
+/** What the row keeps so each render can be traced back to its inputs. */
+export const sourceImageValidator = v.object({
+  storageId: v.id("_storage"),
+  imageId: v.optional(v.id("images")),
+  outputIndex: v.optional(v.number()),
+});
+
+export type SourceImageInput =
+  | { kind: "upload"; storageId: GenericId<"_storage"> }
+  | { kind: "generation"; imageId: GenericId<"images">; outputIndex: number }
+  | { kind: "source"; imageId: GenericId<"images">; sourceIndex: number };
+
+export type SourceImage = {
+  storageId: GenericId<"_storage">;
+  imageId?: GenericId<"images">;
+  outputIndex?: number;
+};
+
+/**
+ * Checks every input against what the caller may use. Uploads must be the
+ * caller's own; anything stored for a generation is only reachable through
+ * that generation, which the caller must be able to view.
+ */
+export const resolveSourceImages = async (
+  db: GenericDatabaseWriter<GenericDataModel>,
+  userId: GenericId<"users">,
+  inputs: SourceImageInput[]
+): Promise<SourceImage[]> =>
+  Promise.all(
+    inputs.map(async (input) => {
+      if (input.kind === "upload") {
+        const file = await requireOwnUpload(db, userId, input.storageId);
+        if (file.contentType && !file.contentType.startsWith("image/")) {
+          throw new Error("Source uploads must be images.");
+        }
+        return { storageId: input.storageId };
+      }
+
+      const generation = await db.get(input.imageId);
+      if (!generation || !(await canViewImage(db, userId, generation))) {
+        throw new Error("Source generation was not found.");
+      }
+      if (input.kind === "source") {
+        const source = (generation.sourceImages as SourceImage[] | undefined)?.[input.sourceIndex];
+        if (!source) {
+          throw new Error("Source generation has no reference image at that position.");
+        }
+        return source;
+      }
+      const output = (generation.outputs as StoredImage[] | undefined)?.[input.outputIndex];
+      if (!output) {
+        throw new Error("Source generation has no stored image at that position.");
+      }
+      return {
+        storageId: output.storageId,
+        imageId: input.imageId,
+        outputIndex: input.outputIndex,
+      };
+    })
+  );
+
+/** Records the files a new row was made from in `source_refs`. */
+export const recordSourceRefs = async (
+  db: GenericDatabaseWriter<GenericDataModel>,
+  imageId: GenericId<"images">,
+  sources: SourceImage[]
+) => {
+  for (const storageId of new Set(sources.map((source) => source.storageId))) {
+    await db.insert("source_refs", { imageId, storageId });
+  }
+};
+
+/** Whether any row was made from the file. */
+export const isSourceOfAnyRow = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  storageId: GenericId<"_storage">
+) =>
+  (await db
+    .query("source_refs")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .first()) !== null;
+
+/**
+ * Turns a stored source of `imageId` back into an input, keeping the link to
+ * the generation it came from, or to `imageId` itself for an upload.
+ */
+export const toSourceInput =
+  (imageId: GenericId<"images">) =>
+  (source: SourceImage, sourceIndex: number): SourceImageInput =>
+    source.imageId !== undefined && source.outputIndex !== undefined
+      ? { kind: "generation", imageId: source.imageId, outputIndex: source.outputIndex }
+      : { kind: "source", imageId, sourceIndex };
+
+export const resolveSourceUrls = async (storage: StorageReader, sources: SourceImage[] = []) =>
+  Promise.all(
+    sources.map(async (source) => ({ ...source, url: await storage.getUrl(source.storageId) }))
+  );
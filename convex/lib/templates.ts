@@ -0,0 +1,218 @@
+import type {
+  GenericDatabaseReader,
+  GenericDatabaseWriter,
+  GenericDataModel,
+  GenericDocument,
+  IndexRangeBuilder,
+} from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { aspectRatioValidator, outputFormatValidator, resolutionValidator } from "./generation";
+import { providerValidator } from "./providers";
+
+export const MAX_TEMPLATE_PRESETS = 12;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export type StylePreset = {
+  name: string;
+  /** Appended to the rendered prompt, after a comma. */
+  suffix?: string;
+  negativePrompt?: string;
+};
+
+export type TemplateVariable = {
+  name: string;
+  defaultValue?: string;
+};
+
+export const stylePresetValidator = v.object({
+  name: v.string(),
+  suffix: v.optional(v.string()),
+  negativePrompt: v.optional(v.string()),
+});
+
+export const templateVariableValidator = v.object({
+  name: v.string(),
+  defaultValue: v.optional(v.string()),
+});
+
+/** Generation settings a template fills into the form; anything unset is left alone. */
+export const templateDefaultsValidator = v.object({
+  provider: v.optional(providerValidator),
+  aspectRatio: v.optional(aspectRatioValidator),
+  resolution: v.optional(resolutionValidator),
+  outputFormat: v.optional(outputFormatValidator),
+});
+
+/** What a generation keeps about the template that produced its prompt. */
+export const templateRefValidator = v.object({
+  templateId: v.id("prompt_templates"),
+  version: v.number(),
+  preset: v.optional(v.string()),
+});
+
+/** The stored form adds the template name, so it still reads well after the template is gone. */
+export const storedTemplateRefValidator = v.object({
+  templateId: v.id("prompt_templates"),
+  name: v.string(),
+  version: v.number(),
+  preset: v.optional(v.string()),
+});
+
+export type TemplateRef = {
+  templateId: GenericId<"prompt_templates">;
+  version: number;
+  preset?: string;
+};
+
+/** `{{name}}` placeholders in order of first use. */
+export const templateVariableNames = (body: string) => [
+  ...new Set([...body.matchAll(VARIABLE_PATTERN)].map((match) => match[1])),
+];
+
+/**
+ * Fills `{{name}}` placeholders from `values`, falling back to each variable's
+ * default, then applies the style preset. Unfilled placeholders stay in the
+ * prompt and are listed in `missing`.
+ */
+export const renderTemplate = (
+  template: { body: string; variables: TemplateVariable[]; presets: StylePreset[] },
+  values: Record<string, string>,
+  presetName?: string
+) => {
+  const missing = new Set<string>();
+  const filled = template.body.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value =
+      values[name]?.trim() ||
+      template.variables.find((variable) => variable.name === name)?.defaultValue?.trim();
+    if (!value) {
+      missing.add(name);
+      return placeholder;
+    }
+    return value;
+  });
+
+  const preset = presetName
+    ? template.presets.find((candidate) => candidate.name === presetName)
+    : undefined;
+  const prompt = (preset?.suffix ? `${filled.trim()}, ${preset.suffix}` : filled)
+    .replace(/\s+/g, " ")
+    .trim();
+  return { prompt, negativePrompt: preset?.negativePrompt, missing: [...missing] };
+};
+
+/** Trims the editable fields and derives the variable list from the body. */
+export const normalizeTemplate = (fields: {
+  name: string;
+  description?: string;
+  body: string;
+  variableDefaults?: TemplateVariable[];
+  presets?: StylePreset[];
+}) => {
+  const name = fields.name.trim();
+  const body = fields.body.trim();
+  if (!name) {
+    throw new Error("Give the template a name.");
+  }
+  if (!body) {
+    throw new Error("The template prompt is empty.");
+  }
+
+  const presets = (fields.presets ?? [])
+    .map((preset) => ({
+      name: preset.name.trim(),
+      ...(preset.suffix?.trim() ? { suffix: preset.suffix.trim() } : {}),
+      ...(preset.negativePrompt?.trim() ? { negativePrompt: preset.negativePrompt.trim() } : {}),
+    }))
+    .filter((preset) => preset.name);
+  if (presets.length > MAX_TEMPLATE_PRESETS) {
+    throw new Error(`A template can have at most ${MAX_TEMPLATE_PRESETS} style presets.`);
+  }
+  if (new Set(presets.map((preset) => preset.name)).size !== presets.length) {
+    throw new Error("Style preset names must be unique.");
+  }
+
+  const variables = templateVariableNames(body).map((variableName) => {
+    const defaultValue = fields.variableDefaults
+      ?.find((variable) => variable.name === variableName)
+      ?.defaultValue?.trim();
+    return { name: variableName, ...(defaultValue ? { defaultValue } : {}) };
+  });
+
+  return {
+    name,
+    ...(fields.description?.trim() ? { description: fields.description.trim() } : {}),
+    body,
+    variables,
+    presets,
+  };
+};
+
+/** Records the body, variables and presets a template version was saved with. */
+export const saveTemplateVersion = async (
+  db: GenericDatabaseWriter<GenericDataModel>,
+  templateId: GenericId<"prompt_templates">,
+  version: number,
+  fields: { body: string; variables: TemplateVariable[]; presets: StylePreset[] }
+) => {
+  await db.insert("prompt_template_versions", {
+    templateId,
+    version,
+    body: fields.body,
+    variables: fields.variables,
+    presets: fields.presets,
+    createdAt: Date.now(),
+  });
+};
+
+/** The saved copy of one template version, if it exists. */
+export const getTemplateVersion = (
+  db: GenericDatabaseReader<GenericDataModel>,
+  templateId: GenericId<"prompt_templates">,
+  version: number
+) =>
+  db
+    .query("prompt_template_versions")
+    .withIndex("by_template_version", (q) =>
+      // Generic builders type every index as `string[]`, which hides the second field.
+      (q as unknown as IndexRangeBuilder<GenericDocument, ["templateId", "version"]>)
+        .eq("templateId", templateId)
+        .eq("version", version)
+    )
+    .unique();
+
+/**
+ * Checks a generation's template reference against the version it names and
+ * adds the name it is stored with. The preset must be one that version had.
+ */
+export const resolveTemplateRef = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  ownerId: GenericId<"users">,
+  ref: TemplateRef
+) => {
+  const template = await db.get(ref.templateId);
+  if (!template || template.ownerId !== ownerId) {
+    throw new Error("Prompt template not found.");
+  }
+  // Templates saved before version history existed only know their current version.
+  const saved = Number.isInteger(ref.version)
+    ? ((await getTemplateVersion(db, ref.templateId, ref.version)) ??
+      (ref.version === template.version ? template : null))
+    : null;
+  if (!saved) {
+    throw new Error("Unknown prompt template version.");
+  }
+  if (
+    ref.preset !== undefined &&
+    !(saved.presets as StylePreset[]).some((preset) => preset.name === ref.preset)
+  ) {
+    throw new Error(`This template version has no "${ref.preset}" style preset.`);
+  }
+  return {
+    templateId: ref.templateId,
+    name: template.name as string,
+    version: ref.version,
+    ...(ref.preset ? { preset: ref.preset } : {}),
+  };
+};
@@ -0,0 +1,46 @@
+import type { GenericDataModel, GenericDocument, GenericMutationCtx } from "convex/server";
+import type { GenericId } from "convex/values";
+import { outputStorageIds } from "./outputs";
+import type { StoredImage } from "./outputs";
+import { isSourceOfAnyRow } from "./sources";
+
+/** How long a trashed generation can still be restored. */
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Unreferenced files younger than this may belong to an upload or render in flight. */
+export const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_BULK_IDS = 100;
+
+/**
+ * Deletes a row, its output files, and the ratings, collection items, share
+ * links and source references that point at it. Any file another row was made
+ * from, whether an uploaded source or an output used by a remix, variation or
+ * upscale, is left for the orphan sweep.
+ */
+export const purgeImage = async (
+  ctx: Pick<GenericMutationCtx<GenericDataModel>, "db" | "storage">,
+  image: GenericDocument
+) => {
+  const imageId = image._id as GenericId<"images">;
+  for (const table of ["ratings", "collection_items", "shares", "source_refs"]) {
+    const references = await ctx.db
+      .query(table)
+      .withIndex("by_image", (q) => q.eq("imageId", imageId))
+      .collect();
+    for (const reference of references) {
+      await ctx.db.delete(reference._id as GenericId<string>);
+    }
+  }
+  const outputs = (image.outputs as StoredImage[] | undefined) ?? [];
+  for (const storageId of outputs.flatMap(outputStorageIds)) {
+    if (await isSourceOfAnyRow(ctx.db, storageId)) {
+      continue;
+    }
+    // Another purge (or the sweep) may have removed the file already.
+    if (await ctx.db.system.get(storageId)) {
+      await ctx.storage.delete(storageId);
+    }
+  }
+  await ctx.db.delete(imageId);
+};
@@ -0,0 +1,113 @@
+import type {
+  GenericDatabaseWriter,
+  GenericDataModel,
+  GenericDocument,
+  GenericMutationCtx,
+  IndexRangeBuilder,
+} from "convex/server";
+import type { GenericId } from "convex/values";
+
+/** How long a ticket from `images:generateUploadUrl` can be redeemed. */
+export const UPLOAD_TICKET_TTL_MS = 60 * 60 * 1000;
+
+/** Expired tickets removed per new ticket, so the table cleans itself up. */
+const PRUNE_LIMIT = 20;
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+type DatabaseWriter = GenericDatabaseWriter<GenericDataModel>;
+
+const ownerIssuedRange = (q: unknown, ownerId: GenericId<"users">) =>
+  (q as IndexRangeBuilder<GenericDocument, ["ownerId", "issuedAt"]>).eq("ownerId", ownerId);
+
+/**
+ * Records that the user is about to upload a file with this checksum. Upload
+ * URLs are not tied to anyone, so the ticket is what later proves ownership.
+ */
+export const issueUploadTicket = async (
+  db: DatabaseWriter,
+  ownerId: GenericId<"users">,
+  sha256: string
+) => {
+  if (!SHA256_HEX.test(sha256)) {
+    throw new Error("Send the file's SHA-256 checksum as 64 lowercase hex characters.");
+  }
+  const issuedAt = Date.now();
+  const expired = await db
+    .query("uploads")
+    .withIndex("by_owner_issued", (q) =>
+      ownerIssuedRange(q, ownerId).lt("issuedAt", issuedAt - UPLOAD_TICKET_TTL_MS)
+    )
+    .filter((q) => q.eq(q.field("storageId"), undefined))
+    .take(PRUNE_LIMIT);
+  for (const ticket of expired) {
+    await db.delete(ticket._id as GenericId<"uploads">);
+  }
+  await db.insert("uploads", { ownerId, sha256, issuedAt });
+};
+
+const hexToBase64 = (hex: string) =>
+  btoa(String.fromCharCode(...(hex.match(/../g) ?? []).map((byte) => parseInt(byte, 16))));
+
+// Storage metadata has reported the checksum both hex and base64 encoded.
+const sameChecksum = (stored: string, hex: string) => stored === hex || stored === hexToBase64(hex);
+
+/**
+ * Fails unless the file is one the user uploaded. Its first use redeems an
+ * unexpired ticket with the same checksum that was issued before the file was
+ * stored, so a file that already existed, such as someone else's output,
+ * can never be claimed.
+ */
+export const requireOwnUpload = async (
+  db: DatabaseWriter,
+  ownerId: GenericId<"users">,
+  storageId: GenericId<"_storage">
+) => {
+  const notFound = "The uploaded file was not found.";
+  const file = await db.system.get(storageId);
+  if (!file) {
+    throw new Error(notFound);
+  }
+  const claimed = await db
+    .query("uploads")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .first();
+  if (claimed) {
+    if (claimed.ownerId !== ownerId) {
+      throw new Error(notFound);
+    }
+    return file;
+  }
+
+  const tickets = await db
+    .query("uploads")
+    .withIndex("by_owner_issued", (q) =>
+      ownerIssuedRange(q, ownerId)
+        .gte("issuedAt", Date.now() - UPLOAD_TICKET_TTL_MS)
+        .lte("issuedAt", file._creationTime)
+    )
+    .filter((q) => q.eq(q.field("storageId"), undefined))
+    .collect();
+  const ticket = tickets.find((candidate) => sameChecksum(file.sha256, candidate.sha256 as string));
+  if (!ticket) {
+    throw new Error(notFound);
+  }
+  await db.patch(ticket._id as GenericId<"uploads">, { storageId });
+  return file;
+};
+
+/** Deletes an upload the user owns along with its ticket. */
+export const discardOwnUpload = async (
+  ctx: Pick<GenericMutationCtx<GenericDataModel>, "db" | "storage">,
+  ownerId: GenericId<"users">,
+  storageId: GenericId<"_storage">
+) => {
+  await requireOwnUpload(ctx.db, ownerId, storageId);
+  const tickets = await ctx.db
+    .query("uploads")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .collect();
+  for (const ticket of tickets) {
+    await ctx.db.delete(ticket._id as GenericId<"uploads">);
+  }
+  await ctx.storage.delete(storageId);
+};
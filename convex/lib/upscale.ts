@@ -0,0 +1,30 @@
+import { InferenceClient } from "@huggingface/inference";
+
+/** Hugging Face super-resolution model; doubles each side. */
+export const SUPER_RESOLUTION_MODEL = "caidas/swin2SR-classical-sr-x2-64";
+
+/** What `upscaler` records when the local resampler did all the work. */
+export const LOCAL_UPSCALER = "lanczos3";
+
+/** Whether an output is smaller than the long side it should be delivered at. */
+export const needsUpscale = (image: { width?: number; height?: number }, longSide: number) =>
+  Math.max(image.width ?? 0, image.height ?? 0) < longSide;
+
+/**
+ * Runs the super-resolution model when `HF_TOKEN` is set. Returns null without
+ * a token or when the model fails, so callers fall back to local resampling.
+ */
+export const superResolve = async (image: Blob) => {
+  const huggingFaceToken = process.env.HF_TOKEN;
+  if (!huggingFaceToken) {
+    return null;
+  }
+
+  try {
+    const hf = new InferenceClient(huggingFaceToken);
+    return await hf.imageToImage({ model: SUPER_RESOLUTION_MODEL, inputs: image });
+  } catch {
+    // Cold or unavailable models should not fail the generation; `upscaler` records the fallback.
+    return null;
+  }
+};
@@ -0,0 +1,156 @@
+import type {
+  GenericDatabaseReader,
+  GenericDatabaseWriter,
+  GenericDataModel,
+  GenericDocument,
+} from "convex/server";
+import type { GenericId } from "convex/values";
+import { roundUsd } from "./pricing";
+import type { ProviderAdapter } from "./providers/types";
+
+type Db = GenericDatabaseReader<GenericDataModel>;
+type WriterDb = GenericDatabaseWriter<GenericDataModel>;
+
+export type Budget = {
+  daily?: number;
+  monthly?: number;
+};
+
+export type UsageDelta = {
+  userId: GenericId<"users">;
+  provider: string;
+  day: string;
+  cost: number;
+  images: number;
+  generations: number;
+};
+
+/** UTC calendar day, e.g. `2026-10-19`; usage rows and budgets roll over at midnight UTC. */
+export const dayKey = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+export const monthStartKey = (timestamp: number) => `${dayKey(timestamp).slice(0, 8)}01`;
+
+const readBudgetEnv = (name: string) => {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") {
+    return undefined;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+/** Reads `<PROVIDER>_DAILY_BUDGET_USD` and `<PROVIDER>_MONTHLY_BUDGET_USD`; unset means unlimited. */
+export const getBudget = (adapter: ProviderAdapter): Budget => {
+  const prefix = adapter.id.toUpperCase();
+  return {
+    daily: readBudgetEnv(`${prefix}_DAILY_BUDGET_USD`),
+    monthly: readBudgetEnv(`${prefix}_MONTHLY_BUDGET_USD`),
+  };
+};
+
+const usageSince = (db: Db, fromDay: string) =>
+  db
+    .query("usage")
+    .withIndex("by_day", (q) => q.gte("day", fromDay))
+    .collect();
+
+const sumCost = (rows: GenericDocument[]) =>
+  roundUsd(rows.reduce((total, row) => total + (row.cost as number), 0));
+
+/** Spend across all users for one provider, today and month to date. */
+export const getProviderSpend = async (db: Db, provider: string, now: number) => {
+  const today = dayKey(now);
+  const rows = (await usageSince(db, monthStartKey(now))).filter(
+    (row) => row.provider === provider
+  );
+  return {
+    today: sumCost(rows.filter((row) => row.day === today)),
+    month: sumCost(rows),
+  };
+};
+
+export const getUserSpend = async (db: Db, userId: GenericId<"users">, now: number) => {
+  const today = dayKey(now);
+  const rows = (await usageSince(db, monthStartKey(now))).filter((row) => row.userId === userId);
+  return {
+    today: sumCost(rows.filter((row) => row.day === today)),
+    month: sumCost(rows),
+  };
+};
+
+/** Rejects a request whose estimate would push the provider past a configured budget. */
+export const assertWithinBudget = async (
+  db: Db,
+  adapter: ProviderAdapter,
+  estimatedCost: number,
+  now: number
+) => {
+  if (estimatedCost <= 0) {
+    return;
+  }
+  const budget = getBudget(adapter);
+  if (budget.daily === undefined && budget.monthly === undefined) {
+    return;
+  }
+
+  const spend = await getProviderSpend(db, adapter.id, now);
+  if (budget.daily !== undefined && spend.today + estimatedCost > budget.daily) {
+    throw new Error(
+      `${adapter.label} daily budget of $${budget.daily.toFixed(2)} would be exceeded ($${spend.today.toFixed(2)} spent today).`
+    );
+  }
+  if (budget.monthly !== undefined && spend.month + estimatedCost > budget.monthly) {
+    throw new Error(
+      `${adapter.label} monthly budget of $${budget.monthly.toFixed(2)} would be exceeded ($${spend.month.toFixed(2)} spent this month).`
+    );
+  }
+};
+
+/** Adds (or with negative values, refunds) usage on the user's row for that day and provider. */
+export const recordUsage = async (db: WriterDb, delta: UsageDelta) => {
+  const existing = await db
+    .query("usage")
+    .withIndex("by_day", (q) => q.eq("day", delta.day))
+    .filter((q) =>
+      q.and(q.eq(q.field("userId"), delta.userId), q.eq(q.field("provider"), delta.provider))
+    )
+    .first();
+
+  if (!existing) {
+    await db.insert("usage", { ...delta, updatedAt: Date.now() });
+    return;
+  }
+  await db.patch(existing._id as GenericId<"usage">, {
+    cost: roundUsd((existing.cost as number) + delta.cost),
+    images: (existing.images as number) + delta.images,
+    generations: (existing.generations as number) + delta.generations,
+    updatedAt: Date.now(),
+  });
+};
+
+/**
+ * Bills only the images that were actually stored once a row stops running,
+ * refunding the unused part of the estimate charged at queue time. Returns the
+ * final cost to patch onto the row.
+ */
+export const settleCost = async (db: WriterDb, image: GenericDocument) => {
+  const estimatedCost = image.estimatedCost as number | undefined;
+  if (estimatedCost === undefined || !image.ownerId) {
+    return undefined;
+  }
+
+  const numImages = image.numImages as number;
+  const produced = ((image.outputs as unknown[] | undefined) ?? []).length;
+  const cost = roundUsd((estimatedCost / numImages) * Math.min(produced, numImages));
+  if (cost !== estimatedCost) {
+    await recordUsage(db, {
+      userId: image.ownerId as GenericId<"users">,
+      provider: image.provider as string,
+      day: dayKey(image.createdAt as number),
+      cost: roundUsd(cost - estimatedCost),
+      images: Math.min(produced, numImages) - numImages,
+      generations: 0,
+    });
+  }
+  return cost;
+};
@@ -0,0 +1,32 @@
+import { hmacSha256Hex, timingSafeEqual } from "./crypto";
+
+/**
+ * Provider callbacks carry an HMAC of the row id in their URL, so the HTTP
+ * route can trust the row it names without a provider-specific signature scheme.
+ */
+const WEBHOOK_SECRET_ENV_VAR = "WEBHOOK_SECRET";
+
+export const webhookPath = (provider: string) => `/webhooks/${provider}`;
+
+/** Callback URL for one row, or null when webhooks are not configured on this deployment. */
+export const buildWebhookUrl = async (provider: string, imageId: string) => {
+  const secret = process.env[WEBHOOK_SECRET_ENV_VAR];
+  const siteUrl = process.env.CONVEX_SITE_URL;
+  if (!secret || !siteUrl) {
+    return null;
+  }
+
+  const url = new URL(webhookPath(provider), siteUrl);
+  url.searchParams.set("imageId", imageId);
+  url.searchParams.set("token", await hmacSha256Hex(secret, imageId));
+  return url.toString();
+};
+
+export const verifyWebhookToken = async (imageId: string, token: string) => {
+  const secret = process.env[WEBHOOK_SECRET_ENV_VAR];
+  if (!secret) {
+    return false;
+  }
+
+  return timingSafeEqual(await hmacSha256Hex(secret, imageId), token);
+};
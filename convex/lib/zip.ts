@@ -0,0 +1,192 @@
+// Minimal ZIP writer and reader for generation archives. Entries are written
+// uncompressed (images are already compressed); the reader also accepts
+// deflated entries when the caller supplies an inflater, so archives that were
+// re-zipped by another tool still import. ZIP64 is not supported.
+
+import { crc32 } from "./crc32";
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+};
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const VERSION = 20;
+const UTF8_NAMES = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** MS-DOS date and time fields, which ZIP stores in local time; UTC keeps exports stable. */
+const dosTimestamp = (time: number) => {
+  const date = new Date(time);
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date:
+      ((Math.max(date.getUTCFullYear(), 1980) - 1980) << 9) |
+      ((date.getUTCMonth() + 1) << 5) |
+      date.getUTCDate(),
+  };
+};
+
+export const createZip = (entries: ZipEntry[], modifiedAt = Date.now()) => {
+  const { time, date } = dosTimestamp(modifiedAt);
+  const files = entries.map((entry) => ({
+    ...entry,
+    nameBytes: encoder.encode(entry.name),
+    crc: crc32(entry.data),
+  }));
+  const localSize = files.reduce(
+    (total, file) => total + LOCAL_HEADER_SIZE + file.nameBytes.length + file.data.length,
+    0
+  );
+  const centralSize = files.reduce(
+    (total, file) => total + CENTRAL_HEADER_SIZE + file.nameBytes.length,
+    0
+  );
+  if (files.length > 0xffff || localSize + centralSize > 0xffffffff) {
+    throw new Error("The archive is too large.");
+  }
+
+  const bytes = new Uint8Array(localSize + centralSize + END_RECORD_SIZE);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  const localOffsets: number[] = [];
+
+  for (const file of files) {
+    localOffsets.push(offset);
+    view.setUint32(offset, LOCAL_HEADER, true);
+    view.setUint16(offset + 4, VERSION, true);
+    view.setUint16(offset + 6, UTF8_NAMES, true);
+    view.setUint16(offset + 8, STORED, true);
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.nameBytes.length, true);
+    view.setUint16(offset + 28, 0, true);
+    bytes.set(file.nameBytes, offset + LOCAL_HEADER_SIZE);
+    bytes.set(file.data, offset + LOCAL_HEADER_SIZE + file.nameBytes.length);
+    offset += LOCAL_HEADER_SIZE + file.nameBytes.length + file.data.length;
+  }
+
+  files.forEach((file, index) => {
+    view.setUint32(offset, CENTRAL_HEADER, true);
+    view.setUint16(offset + 4, VERSION, true);
+    view.setUint16(offset + 6, VERSION, true);
+    view.setUint16(offset + 8, UTF8_NAMES, true);
+    view.setUint16(offset + 10, STORED, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.nameBytes.length, true);
+    view.setUint32(offset + 42, localOffsets[index], true);
+    bytes.set(file.nameBytes, offset + CENTRAL_HEADER_SIZE);
+    offset += CENTRAL_HEADER_SIZE + file.nameBytes.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, localSize, true);
+  return bytes;
+};
+
+const findEndRecord = (view: DataView) => {
+  const lowest = Math.max(0, view.byteLength - END_RECORD_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = view.byteLength - END_RECORD_SIZE; offset >= lowest; offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error("The file is not a ZIP archive.");
+};
+
+/**
+ * Reads every file entry, skipping directories. Throws on corrupt or
+ * unsupported entries, or once the extracted data would pass `maxTotalBytes`.
+ * The inflater gets the bytes still allowed so it can stop early.
+ */
+export const readZip = (
+  bytes: Uint8Array,
+  maxTotalBytes: number,
+  inflateRaw?: (data: Uint8Array, maxOutputLength: number) => Uint8Array
+) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const endRecord = findEndRecord(view);
+  const count = view.getUint16(endRecord + 10, true);
+  let offset = view.getUint32(endRecord + 16, true);
+  const entries: ZipEntry[] = [];
+  const tooLarge = "The archive expands to more data than one import can hold.";
+  let totalBytes = 0;
+
+  for (let index = 0; index < count; index += 1) {
+    if (
+      offset + CENTRAL_HEADER_SIZE > bytes.length ||
+      view.getUint32(offset, true) !== CENTRAL_HEADER
+    ) {
+      throw new Error("The ZIP central directory is damaged.");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength)
+    );
+    offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) {
+      continue;
+    }
+
+    // The local header may carry a different extra field, so read its lengths too.
+    const dataStart =
+      localOffset +
+      LOCAL_HEADER_SIZE +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    const remaining = maxTotalBytes - totalBytes;
+    if (size > remaining) {
+      throw new Error(tooLarge);
+    }
+    let data: Uint8Array;
+    if (method === STORED) {
+      data = raw;
+    } else if (method === DEFLATED && inflateRaw) {
+      // The declared size is only a hint; the inflater enforces the real limit.
+      try {
+        data = inflateRaw(raw, remaining);
+      } catch {
+        throw new Error(`"${name}" is corrupt or expands past the import size limit.`);
+      }
+    } else {
+      throw new Error(`"${name}" uses an unsupported ZIP compression method.`);
+    }
+    totalBytes += data.length;
+    if (totalBytes > maxTotalBytes) {
+      throw new Error(tooLarge);
+    }
+    if (crc32(data) !== crc) {
+      throw new Error(`"${name}" is corrupt.`);
+    }
+    entries.push({ name, data });
+  }
+  return entries;
+};
@@ -0,0 +1,161 @@
+import {
+  internalActionGeneric,
+  internalMutationGeneric,
+  internalQueryGeneric,
+  makeFunctionReference,
+} from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { storedImageValidator, storeProviderImage } from "./lib/outputs";
+import type { StoredImage } from "./lib/outputs";
+import { getErrorMessage } from "./lib/retry";
+import { recordSourceRefs } from "./lib/sources";
+import type { SourceImage } from "./lib/sources";
+
+const MIGRATION_BATCH_SIZE = 20;
+const CLAIM_BATCH_SIZE = 200;
+const SOURCE_REFS_PAGE_SIZE = 100;
+
+const getLegacyBatch = makeFunctionReference<"query">("migrations:legacyBatch");
+const saveMigratedOutputs = makeFunctionReference<"mutation">("migrations:saveOutputs");
+const continueMigration = makeFunctionReference<"action">("migrations:migrateImageOutputs");
+const continueSourceRefs = makeFunctionReference<"mutation">("migrations:backfillSourceRefs");
+
+/** Rows that still only reference remote `imageUrls`. */
+export const legacyBatch = internalQueryGeneric({
+  args: {},
+  handler: async ({ db }) => {
+    return db
+      .query("images")
+      .filter((q) =>
+        q.and(q.neq(q.field("imageUrls"), undefined), q.eq(q.field("outputs"), undefined))
+      )
+      .take(MIGRATION_BATCH_SIZE);
+  },
+});
+
+export const saveOutputs = internalMutationGeneric({
+  args: {
+    id: v.id("images"),
+    outputs: v.array(storedImageValidator),
+    error: v.optional(v.string()),
+  },
+  handler: async ({ db }, { id, outputs, error }) => {
+    const image = await db.get(id);
+    if (!image) {
+      return;
+    }
+
+    await db.patch(id, {
+      outputs,
+      imageUrls: undefined,
+      error: error ?? image.error,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Copies every legacy image URL into Convex storage and replaces `imageUrls`
+ * with structured `outputs`. Links that already expired are dropped and noted
+ * on the row. Run once with `npx convex run migrations:migrateImageOutputs`;
+ * it reschedules itself until no legacy rows remain.
+ */
+export const migrateImageOutputs = internalActionGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const rows = await ctx.runQuery(getLegacyBatch, {});
+
+    for (const row of rows) {
+      const outputs: StoredImage[] = [];
+      const failures: string[] = [];
+
+      for (const url of row.imageUrls as string[]) {
+        try {
+          outputs.push(await storeProviderImage(ctx.storage, { url }));
+        } catch (error) {
+          failures.push(getErrorMessage(error));
+        }
+      }
+
+      await ctx.runMutation(saveMigratedOutputs, {
+        id: row._id,
+        outputs,
+        error:
+          failures.length > 0
+            ? `${failures.length} image(s) could not be migrated: ${failures[0]}`
+            : undefined,
+      });
+    }
+
+    if (rows.length === MIGRATION_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, continueMigration, {});
+    }
+
+    return { migrated: rows.length };
+  },
+});
+
+/**
+ * Hands rows created before accounts existed to one user, e.g.
+ * `npx convex run migrations:claimUnownedImages '{"email":"me@example.com"}'`.
+ * Run it again until `claimed` is 0.
+ */
+export const claimUnownedImages = internalMutationGeneric({
+  args: {
+    email: v.string(),
+  },
+  handler: async ({ db }, { email }) => {
+    const user = await db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", email))
+      .unique();
+    if (!user) {
+      throw new Error(`No account uses ${email}.`);
+    }
+
+    const rows = await db
+      .query("images")
+      .withIndex("by_owner_created", (q) => q.eq("ownerId", undefined))
+      .take(CLAIM_BATCH_SIZE);
+    for (const row of rows) {
+      await db.patch(row._id, { ownerId: user._id });
+    }
+    return { claimed: rows.length };
+  },
+});
+
+/**
+ * Fills `source_refs` for rows created before it existed, so purging a
+ * generation spares outputs that older remixes and upscales were made from.
+ * Run once with `npx convex run migrations:backfillSourceRefs`; it reschedules
+ * itself until every row has been visited.
+ */
+export const backfillSourceRefs = internalMutationGeneric({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async ({ db, scheduler }, { cursor }) => {
+    const page = await db
+      .query("images")
+      .paginate({ cursor: cursor ?? null, numItems: SOURCE_REFS_PAGE_SIZE });
+
+    let recorded = 0;
+    for (const row of page.page) {
+      const sources = (row.sourceImages as SourceImage[] | undefined) ?? [];
+      const existing = await db
+        .query("source_refs")
+        .withIndex("by_image", (q) => q.eq("imageId", row._id))
+        .first();
+      if (sources.length === 0 || existing) {
+        continue;
+      }
+      await recordSourceRefs(db, row._id as GenericId<"images">, sources);
+      recorded += 1;
+    }
+    if (!page.isDone) {
+      await scheduler.runAfter(0, continueSourceRefs, { cursor: page.continueCursor });
+    }
+    return { recorded, isDone: page.isDone };
+  },
+});
@@ -0,0 +1,18 @@
+import { queryGeneric } from "convex/server";
+import { isProviderConfigured, PROVIDERS } from "./lib/providers";
+
+export const list = queryGeneric({
+  args: {},
+  handler: async () => {
+    return Object.values(PROVIDERS).map((adapter) => ({
+      id: adapter.id,
+      label: adapter.label,
+      model: adapter.model,
+      models: [adapter.model, ...Object.values(adapter.modeModels ?? {})],
+      modelLabel: adapter.modelLabel,
+      description: adapter.description,
+      capabilities: adapter.capabilities,
+      configured: isProviderConfigured(adapter),
+    }));
+  },
+});
@@ -0,0 +1,86 @@
+import { mutationGeneric, paginationOptsValidator, queryGeneric } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { requireUserId } from "./lib/auth";
+import { requireViewableOutput, resolveOutputTile } from "./lib/collections";
+import { assertRating, userFavoritesRange, userImageRange } from "./lib/ratings";
+
+/**
+ * Marks one output as a favorite and/or gives it 1-5 stars. Fields left out
+ * keep their value; a rating of 0 clears the stars.
+ */
+export const set = mutationGeneric({
+  args: {
+    imageId: v.id("images"),
+    outputIndex: v.number(),
+    favorite: v.optional(v.boolean()),
+    rating: v.optional(v.number()),
+  },
+  handler: async (ctx, { imageId, outputIndex, favorite, rating }) => {
+    const userId = await requireUserId(ctx);
+    await requireViewableOutput(ctx.db, userId, imageId, outputIndex);
+    if (rating !== undefined) {
+      assertRating(rating);
+    }
+
+    const existing = await ctx.db
+      .query("ratings")
+      .withIndex("by_user_image", (q) => userImageRange(q, userId, imageId, outputIndex))
+      .unique();
+    const next = {
+      favorite: favorite ?? (existing?.favorite as boolean | undefined) ?? false,
+      rating: rating === undefined ? (existing?.rating as number | undefined) : rating || undefined,
+    };
+    const updatedAt = Date.now();
+
+    if (!next.favorite && next.rating === undefined) {
+      // Nothing left to remember about this output.
+      if (existing) {
+        await ctx.db.delete(existing._id as GenericId<"ratings">);
+      }
+      return;
+    }
+    if (existing) {
+      // Patching undefined clears stars the user removed.
+      await ctx.db.patch(existing._id as GenericId<"ratings">, { ...next, updatedAt });
+      return;
+    }
+    await ctx.db.insert("ratings", {
+      userId,
+      imageId,
+      outputIndex,
+      favorite: next.favorite,
+      ...(next.rating !== undefined ? { rating: next.rating } : {}),
+      updatedAt,
+    });
+  },
+});
+
+/** The caller's favorite outputs, most recently marked first. */
+export const favorites = queryGeneric({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { paginationOpts }) => {
+    const userId = await requireUserId(ctx);
+    const result = await ctx.db
+      .query("ratings")
+      .withIndex("by_user_favorite", (q) => userFavoritesRange(q, userId))
+      .order("desc")
+      .paginate(paginationOpts);
+
+    const tiles = await Promise.all(
+      result.page.map(async (row) => {
+        const tile = await resolveOutputTile(
+          ctx,
+          userId,
+          row.imageId as GenericId<"images">,
+          row.outputIndex as number
+        );
+        return tile && { ...tile, favorite: true, rating: row.rating as number | undefined };
+      })
+    );
+    // Trashed or unshared generations drop out, so a page can come back short.
+    return { ...result, page: tiles.filter((tile) => tile !== null) };
+  },
+});
@@ -0,0 +1,175 @@
+import {
+  internalActionGeneric,
+  internalMutationGeneric,
+  internalQueryGeneric,
+  makeFunctionReference,
+} from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { isActiveStatus } from "./lib/generation";
+import { completeGeneration, expireGeneration, outputSettingsFor } from "./lib/jobs";
+import { deleteStoredOutputs, storedImageValidator, storeGeneratedImage } from "./lib/outputs";
+import type { OutputSettings, StoredImage } from "./lib/outputs";
+import { getProvider } from "./lib/providers";
+import type { RecoveryResult } from "./lib/providers";
+import { getErrorMessage } from "./lib/retry";
+
+/** A provider that still reports the job as running gets this many deadlines in total. */
+const PENDING_GRACE_FACTOR = 2;
+
+type StaleJob = {
+  _id: GenericId<"images">;
+  provider: string;
+  model: string;
+  status: string;
+  requestId?: string;
+  outputSettings: OutputSettings;
+  updatedAt: number;
+};
+
+const getStaleJobs = makeFunctionReference<"query">("reaper:stale");
+const completeRecovered = makeFunctionReference<"mutation">("reaper:recovered");
+const expireJob = makeFunctionReference<"mutation">("reaper:expire");
+
+/** Queued or running rows that have not made progress within their provider's deadline. */
+export const stale = internalQueryGeneric({
+  args: {
+    now: v.number(),
+  },
+  handler: async ({ db }, { now }) => {
+    const jobs: StaleJob[] = [];
+    for (const status of ["queued", "running"]) {
+      const rows = await db
+        .query("images")
+        .withIndex("by_status", (q) => q.eq("status", status))
+        .collect();
+      for (const row of rows) {
+        const updatedAt = row.updatedAt as number;
+        if (now - updatedAt > getProvider(row.provider as string).jobDeadlineMs) {
+          jobs.push({
+            _id: row._id as GenericId<"images">,
+            provider: row.provider as string,
+            model: row.model as string,
+            status,
+            requestId: row.requestId as string | undefined,
+            outputSettings: outputSettingsFor(row),
+            updatedAt,
+          });
+        }
+      }
+    }
+    return jobs;
+  },
+});
+
+/**
+ * Finishes a running row with outputs fetched from the provider after its
+ * worker died. Returns false when the row moved on, so the caller drops the files.
+ */
+export const recovered = internalMutationGeneric({
+  args: {
+    id: v.id("images"),
+    updatedAt: v.number(),
+    outputs: v.array(storedImageValidator),
+  },
+  handler: async ({ db }, { id, updatedAt, outputs }) => {
+    const image = await db.get(id);
+    if (!image || image.status !== "running" || image.updatedAt !== updatedAt) {
+      return false;
+    }
+
+    await completeGeneration(db, image, outputs);
+    return true;
+  },
+});
+
+/** Fails a stuck row unless it made progress since the reaper looked at it. */
+export const expire = internalMutationGeneric({
+  args: {
+    id: v.id("images"),
+    updatedAt: v.number(),
+    error: v.string(),
+  },
+  handler: async (ctx, { id, updatedAt, error }) => {
+    const image = await ctx.db.get(id);
+    if (!image || !isActiveStatus(image.status as string) || image.updatedAt !== updatedAt) {
+      return;
+    }
+
+    await expireGeneration(ctx, image, error);
+  },
+});
+
+const timeoutMessage = (job: StaleJob, label: string, now: number) => {
+  const minutes = Math.max(1, Math.round((now - job.updatedAt) / 60_000));
+  return job.status === "queued"
+    ? `Timed out after ${minutes} minutes waiting to start.`
+    : `Timed out after ${minutes} minutes without a result from ${label}.`;
+};
+
+/**
+ * Resolves generations whose worker crashed or hung. Jobs a provider can look
+ * up by request id are recovered when they finished; everything else is
+ * marked failed, including jobs whose recovered images cannot be stored, so
+ * one bad job never stalls the pass. Run by `crons.ts`.
+ */
+export const reap = internalActionGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const jobs: StaleJob[] = await ctx.runQuery(getStaleJobs, { now });
+    let recoveredCount = 0;
+    let expiredCount = 0;
+
+    for (const job of jobs) {
+      const adapter = getProvider(job.provider);
+      let recoveryError: string | undefined;
+      if (job.status === "running" && job.requestId && adapter.recover) {
+        let result: RecoveryResult = null;
+        try {
+          result = await adapter.recover(ctx, { requestId: job.requestId, model: job.model });
+        } catch {
+          // Lookups retry on later passes until the grace period runs out.
+          result = "pending";
+        }
+
+        if (
+          result === "pending" &&
+          now - job.updatedAt < adapter.jobDeadlineMs * PENDING_GRACE_FACTOR
+        ) {
+          continue;
+        }
+        if (result && result !== "pending" && result.images.length > 0) {
+          const outputs: StoredImage[] = [];
+          try {
+            for (const providerImage of result.images) {
+              outputs.push(await storeGeneratedImage(ctx, providerImage, job.outputSettings));
+            }
+            const kept: boolean = await ctx.runMutation(completeRecovered, {
+              id: job._id,
+              updatedAt: job.updatedAt,
+              outputs,
+            });
+            if (kept) {
+              recoveredCount += 1;
+            } else {
+              await deleteStoredOutputs(ctx.storage, outputs);
+            }
+            continue;
+          } catch (caught) {
+            await deleteStoredOutputs(ctx.storage, outputs);
+            recoveryError = `Recovered result could not be stored: ${getErrorMessage(caught)}`;
+          }
+        }
+      }
+
+      await ctx.runMutation(expireJob, {
+        id: job._id,
+        updatedAt: job.updatedAt,
+        error: recoveryError ?? timeoutMessage(job, adapter.label, now),
+      });
+      expiredCount += 1;
+    }
+    return { recovered: recoveredCount, expired: expiredCount };
+  },
+});
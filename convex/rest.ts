@@ -0,0 +1,241 @@
+import {
+  httpActionGeneric,
+  internalMutationGeneric,
+  internalQueryGeneric,
+  makeFunctionReference,
+} from "convex/server";
+import type {
+  GenericActionCtx,
+  GenericDataModel,
+  GenericDocument,
+  StorageReader,
+} from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { hashApiKey } from "./lib/apiKeys";
+import { canViewImage } from "./lib/auth";
+import { queryGallery } from "./lib/gallery";
+import { enqueueGeneration, generationArgs } from "./lib/jobs";
+import { buildOpenApiDocument } from "./lib/openapi";
+import { resolveOutputs } from "./lib/outputs";
+import type { StoredImage } from "./lib/outputs";
+import { getErrorMessage } from "./lib/retry";
+import { resolveSourceUrls } from "./lib/sources";
+import type { SourceImage } from "./lib/sources";
+
+export const API_PREFIX = "/v1";
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/** Row fields the API returns; ownership, scheduling and trash bookkeeping stay internal. */
+const PUBLIC_FIELDS = [
+  "_id",
+  "_creationTime",
+  "workspaceId",
+  "parentId",
+  "rootId",
+  "template",
+  "batchId",
+  "prompt",
+  "model",
+  "provider",
+  "aspectRatio",
+  "resolution",
+  "outputFormat",
+  "outputQuality",
+  "numImages",
+  "parameters",
+  "mode",
+  "status",
+  "estimatedCost",
+  "cost",
+  "requestId",
+  "error",
+  "progress",
+  "moderation",
+  "createdAt",
+  "updatedAt",
+  "startedAt",
+  "completedAt",
+] as const;
+
+type AuthorizeResult =
+  | { ok: true; userId: GenericId<"users">; requestId: GenericId<"apiRequests"> }
+  | { ok: false; status: number; message: string; retryAfterSeconds?: number };
+
+type ApiResult = { response: Response; imageId?: GenericId<"images"> };
+
+const authorizeKey = makeFunctionReference<
+  "mutation",
+  { hashedKey: string; method: string; path: string },
+  AuthorizeResult
+>("apiKeys:authorize");
+const finishApiRequest = makeFunctionReference<"mutation">("apiKeys:finishRequest");
+const enqueueRef = makeFunctionReference<"mutation">("rest:enqueue");
+const findRef = makeFunctionReference<"query">("rest:find");
+const pageRef = makeFunctionReference<"query">("rest:page");
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const errorResponse = (status: number, message: string, headers?: Record<string, string>) =>
+  json({ error: { message } }, status, headers);
+
+const toApiGeneration = async (storage: StorageReader, row: GenericDocument) => ({
+  ...Object.fromEntries(
+    PUBLIC_FIELDS.filter((field) => row[field] !== undefined).map((field) => [field, row[field]])
+  ),
+  outputs: await resolveOutputs(storage, row as { outputs?: StoredImage[]; imageUrls?: string[] }),
+  sourceImages: await resolveSourceUrls(storage, row.sourceImages as SourceImage[] | undefined),
+});
+
+export const enqueue = internalMutationGeneric({
+  args: {
+    userId: v.id("users"),
+    ...generationArgs,
+  },
+  handler: async (ctx, { userId, ...args }) => {
+    return enqueueGeneration(ctx, userId, args);
+  },
+});
+
+/** One generation the key's owner can see, or null. */
+export const find = internalQueryGeneric({
+  args: {
+    userId: v.id("users"),
+    id: v.string(),
+  },
+  handler: async (ctx, { userId, id }) => {
+    const imageId = ctx.db.normalizeId("images", id);
+    const image = imageId ? await ctx.db.get(imageId) : null;
+    if (!image || !(await canViewImage(ctx.db, userId, image))) {
+      return null;
+    }
+    return toApiGeneration(ctx.storage, image);
+  },
+});
+
+/** The key owner's own generations, newest first, outside the trash. */
+export const page = internalQueryGeneric({
+  args: {
+    userId: v.id("users"),
+    cursor: v.union(v.string(), v.null()),
+    limit: v.number(),
+    status: v.optional(v.string()),
+  },
+  handler: async (ctx, { userId, cursor, limit, status }) => {
+    const result = await queryGallery(ctx.db, { ownerId: userId }, undefined, {
+      status,
+    }).paginate({ cursor, numItems: limit });
+    return {
+      data: await Promise.all(result.page.map((row) => toApiGeneration(ctx.storage, row))),
+      nextCursor: result.isDone ? null : result.continueCursor,
+    };
+  },
+});
+
+/**
+ * Wraps a handler with bearer key checks, the key's rate limit and the usage
+ * log. Anything the handler throws becomes a 400 with the error message.
+ */
+const withApiKey = (
+  handler: (
+    ctx: GenericActionCtx<GenericDataModel>,
+    request: Request,
+    userId: GenericId<"users">
+  ) => Promise<ApiResult>
+) =>
+  httpActionGeneric(async (ctx, request) => {
+    const key = request.headers.get("Authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!key) {
+      return errorResponse(401, "Send an API key as `Authorization: Bearer <key>`.");
+    }
+
+    const auth = await ctx.runMutation(authorizeKey, {
+      hashedKey: await hashApiKey(key),
+      method: request.method,
+      path: new URL(request.url).pathname,
+    });
+    if (!auth.ok) {
+      return errorResponse(
+        auth.status,
+        auth.message,
+        auth.retryAfterSeconds ? { "Retry-After": String(auth.retryAfterSeconds) } : undefined
+      );
+    }
+
+    let result: ApiResult;
+    try {
+      result = await handler(ctx, request, auth.userId);
+    } catch (error) {
+      result = { response: errorResponse(400, getErrorMessage(error)) };
+    }
+    await ctx.runMutation(finishApiRequest, {
+      requestId: auth.requestId,
+      status: result.response.status,
+      imageId: result.imageId,
+    });
+    return result.response;
+  });
+
+/**
+ * `POST /v1/generations`: queues a generation from a JSON body shaped like
+ * `images:generate`. An `Idempotency-Key` header takes precedence over the body's key.
+ */
+export const createGeneration = withApiKey(async (ctx, request, userId) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { response: errorResponse(400, "Expected a JSON body.") };
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { response: errorResponse(400, "Expected a JSON object.") };
+  }
+
+  const idempotencyKey = request.headers.get("Idempotency-Key");
+  const imageId: GenericId<"images"> = await ctx.runMutation(enqueueRef, {
+    ...body,
+    ...(idempotencyKey !== null ? { idempotencyKey } : {}),
+    userId,
+  });
+  const generation = await ctx.runQuery(findRef, { userId, id: imageId });
+  return {
+    response: json(generation, 201, { Location: `${API_PREFIX}/generations/${imageId}` }),
+    imageId,
+  };
+});
+
+/** `GET /v1/generations/:id` */
+export const getGeneration = withApiKey(async (ctx, request, userId) => {
+  const id = new URL(request.url).pathname.slice(`${API_PREFIX}/generations/`.length);
+  const generation = await ctx.runQuery(findRef, { userId, id });
+  if (!generation) {
+    return { response: errorResponse(404, "Generation not found.") };
+  }
+  return { response: json(generation), imageId: generation._id };
+});
+
+/** `GET /v1/generations?limit=&cursor=&status=` */
+export const listGenerations = withApiKey(async (ctx, request, userId) => {
+  const params = new URL(request.url).searchParams;
+  const requested = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const limit = Number.isFinite(requested)
+    ? Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(requested)))
+    : DEFAULT_PAGE_SIZE;
+  const result = await ctx.runQuery(pageRef, {
+    userId,
+    cursor: params.get("cursor") || null,
+    limit,
+    status: params.get("status") || undefined,
+  });
+  return { response: json(result) };
+});
+
+/** `GET /v1/openapi.json`, public so tooling can fetch it without a key. */
+export const openApiDocument = httpActionGeneric(async (_ctx, request) => {
+  return json(buildOpenApiDocument(new URL(request.url).origin));
+});
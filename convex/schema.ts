@@ -1,20 +1,278 @@
+import { authTables } from "@convex-dev/auth/server";
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { outcomeCountsValidator, tallyValidator } from "./lib/analytics";
+import { generationModeValidator, progressValidator } from "./lib/generation";
+import { batchCellValidator } from "./lib/batch";
+import { moderationSummaryValidator } from "./lib/moderation";
+import { storedImageValidator } from "./lib/outputs";
+import { advancedParamsValidator } from "./lib/parameters";
+import { attemptValidator } from "./lib/retry";
+import { sourceImageValidator } from "./lib/sources";
+import {
+  storedTemplateRefValidator,
+  stylePresetValidator,
+  templateDefaultsValidator,
+  templateVariableValidator,
+} from "./lib/templates";
 
 export default defineSchema({
+  ...authTables,
+  workspaces: defineTable({
+    name: v.string(),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  }),
+  workspaceMembers: defineTable({
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    role: v.union(v.literal("owner"), v.literal("member")),
+    joinedAt: v.number(),
+  })
+    .index("by_workspace", ["workspaceId"])
+    .index("by_user", ["userId"]),
+  /** Spend per user, provider and UTC day; see `lib/usage.ts`. */
+  usage: defineTable({
+    userId: v.id("users"),
+    provider: v.string(),
+    day: v.string(),
+    cost: v.number(),
+    images: v.number(),
+    generations: v.number(),
+    updatedAt: v.number(),
+  }).index("by_day", ["day"]),
+  /** Settled generations per owner, UTC day, provider and model; see `lib/analytics.ts`. */
+  generation_stats: defineTable({
+    ownerId: v.id("users"),
+    day: v.string(),
+    provider: v.string(),
+    model: v.string(),
+    generations: v.number(),
+    outcomes: outcomeCountsValidator,
+    images: v.number(),
+    /** Counts per `LATENCY_BUCKETS_MS` bucket, created to completed, for rows with outputs. */
+    latencyHistogram: v.array(v.number()),
+    latencyTotalMs: v.number(),
+    /** Error messages grouped by `groupErrorMessage`. */
+    errors: tallyValidator,
+    aspectRatios: tallyValidator,
+    resolutions: tallyValidator,
+    updatedAt: v.number(),
+  }).index("by_owner_day", ["ownerId", "day"]),
+  /** A prompt × aspect ratio × provider × seed matrix; its rows point back via `batchId`. */
+  batches: defineTable({
+    ownerId: v.id("users"),
+    workspaceId: v.optional(v.id("workspaces")),
+    prompts: v.array(v.string()),
+    aspectRatios: v.array(v.string()),
+    providers: v.array(v.string()),
+    /** Null means "pick a random seed" for that column. */
+    seeds: v.array(v.union(v.number(), v.null())),
+    resolution: v.string(),
+    outputFormat: v.string(),
+    numImages: v.number(),
+    total: v.number(),
+    createdAt: v.number(),
+  }).index("by_owner_created", ["ownerId", "createdAt"]),
+  /** Keys for the `/v1` HTTP API. Only a hash is stored; the key is shown once. */
+  apiKeys: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    /** Leading characters of the key, so owners can tell keys apart. */
+    prefix: v.string(),
+    hashedKey: v.string(),
+    rateLimitPerMinute: v.number(),
+    createdAt: v.number(),
+    lastUsedAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId"])
+    .index("by_hashed_key", ["hashedKey"]),
+  /** Reusable prompts with `{{variable}}` placeholders; `version` goes up on every edit. */
+  prompt_templates: defineTable({
+    ownerId: v.id("users"),
+    name: v.string(),
+    description: v.optional(v.string()),
+    body: v.string(),
+    variables: v.array(templateVariableValidator),
+    defaults: templateDefaultsValidator,
+    presets: v.array(stylePresetValidator),
+    version: v.number(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_owner_updated", ["ownerId", "updatedAt"]),
+  /** What each template version rendered from, so a generation's `template` ref outlives edits. */
+  prompt_template_versions: defineTable({
+    templateId: v.id("prompt_templates"),
+    version: v.number(),
+    body: v.string(),
+    variables: v.array(templateVariableValidator),
+    presets: v.array(stylePresetValidator),
+    createdAt: v.number(),
+  }).index("by_template_version", ["templateId", "version"]),
+  /** Every moderation decision: prompt rules, the classifier and provider refusals. */
+  moderation_events: defineTable({
+    userId: v.optional(v.id("users")),
+    imageId: v.optional(v.id("images")),
+    prompt: v.string(),
+    source: v.union(v.literal("rules"), v.literal("classifier"), v.literal("provider")),
+    action: v.union(v.literal("allow"), v.literal("warn"), v.literal("flag"), v.literal("reject")),
+    reasons: v.array(v.string()),
+    ruleIds: v.array(v.string()),
+    score: v.optional(v.number()),
+    classifier: v.optional(v.string()),
+    detail: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_created_at", ["createdAt"])
+    .index("by_image", ["imageId"]),
+  /** A user's star rating and favorite mark for one output of a generation. */
+  ratings: defineTable({
+    userId: v.id("users"),
+    imageId: v.id("images"),
+    outputIndex: v.number(),
+    favorite: v.boolean(),
+    /** 1-5 stars; unset until the user rates the output. */
+    rating: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_user_image", ["userId", "imageId", "outputIndex"])
+    .index("by_user_favorite", ["userId", "favorite", "updatedAt"])
+    .index("by_image", ["imageId"]),
+  /** Named boards of outputs picked from any generations the owner can see. */
+  collections: defineTable({
+    ownerId: v.id("users"),
+    name: v.string(),
+    description: v.optional(v.string()),
+    /** Falls back to the first item when unset or when that item is removed. */
+    coverItemId: v.optional(v.id("collection_items")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_owner_updated", ["ownerId", "updatedAt"]),
+  collection_items: defineTable({
+    collectionId: v.id("collections"),
+    imageId: v.id("images"),
+    outputIndex: v.number(),
+    /** Sort key within the collection, lowest first. */
+    position: v.number(),
+    addedAt: v.number(),
+  })
+    .index("by_collection_position", ["collectionId", "position"])
+    .index("by_image", ["imageId"]),
+  /** One row per `/v1` call, for rate limits and the usage log. */
+  apiRequests: defineTable({
+    keyId: v.id("apiKeys"),
+    method: v.string(),
+    path: v.string(),
+    /** HTTP status sent back; 0 while the call is still being handled. */
+    status: v.number(),
+    imageId: v.optional(v.id("images")),
+    createdAt: v.number(),
+  })
+    .index("by_key_created", ["keyId", "createdAt"])
+    .index("by_created_at", ["createdAt"]),
+  uploads: defineTable({
+    ownerId: v.id("users"),
+    /** Hex SHA-256 the client announced before uploading. */
+    sha256: v.string(),
+    issuedAt: v.number(),
+    /** Set once the ticket is redeemed for the file it was issued for. */
+    storageId: v.optional(v.id("_storage")),
+  })
+    .index("by_owner_issued", ["ownerId", "issuedAt"])
+    .index("by_storage", ["storageId"]),
+  /** One row per file a generation was made from, so purges can tell a file is still in use. */
+  source_refs: defineTable({
+    imageId: v.id("images"),
+    storageId: v.id("_storage"),
+  })
+    .index("by_image", ["imageId"])
+    .index("by_storage", ["storageId"]),
+  shares: defineTable({
+    ownerId: v.id("users"),
+    /** Random token in the public URL; it is the only credential the page needs. */
+    token: v.string(),
+    /** Exactly one of `imageId` and `collectionId` is set. */
+    imageId: v.optional(v.id("images")),
+    collectionId: v.optional(v.id("collections")),
+    hidePrompt: v.boolean(),
+    expiresAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+    views: v.number(),
+    lastViewedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_token", ["token"])
+    .index("by_owner_created", ["ownerId", "createdAt"])
+    .index("by_image", ["imageId"])
+    .index("by_collection", ["collectionId"]),
   images: defineTable({
+    /** Optional only for rows created before accounts; see `migrations:claimUnownedImages`. */
+    ownerId: v.optional(v.id("users")),
+    /** Set when the owner shares the generation with a team workspace. */
+    workspaceId: v.optional(v.id("workspaces")),
+    /** The generation this row was remixed or varied from. */
+    parentId: v.optional(v.id("images")),
+    /** First ancestor of the lineage, so a whole tree loads from one index. */
+    rootId: v.optional(v.id("images")),
+    batchId: v.optional(v.id("batches")),
+    batchCell: v.optional(batchCellValidator),
     prompt: v.string(),
     model: v.string(),
     provider: v.string(),
     aspectRatio: v.string(),
     resolution: v.string(),
     outputFormat: v.string(),
+    /** Encoder quality for JPEG and WebP outputs; unset means the default. */
+    outputQuality: v.optional(v.number()),
     numImages: v.number(),
+    /** Advanced parameters actually sent, including the resolved seed. */
+    parameters: v.optional(advancedParamsValidator),
+    mode: v.optional(generationModeValidator),
+    /** Uploaded files or earlier outputs that fed this render. */
+    sourceImages: v.optional(v.array(sourceImageValidator)),
     status: v.string(),
+    /** USD charged against budgets when queued, from `lib/pricing.ts`. */
+    estimatedCost: v.optional(v.number()),
+    /** USD for the images actually stored, set once the row stops running. */
+    cost: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
+    outputs: v.optional(v.array(storedImageValidator)),
+    /** Pre-storage remote links; cleared by `migrations:migrateImageOutputs`. */
     imageUrls: v.optional(v.array(v.string())),
     requestId: v.optional(v.string()),
     error: v.optional(v.string()),
-  }).index("by_created_at", ["createdAt"]),
+    jobId: v.optional(v.id("_scheduled_functions")),
+    startedAt: v.optional(v.number()),
+    completedAt: v.optional(v.number()),
+    attempts: v.optional(v.array(attemptValidator)),
+    /** Queue position and log tail while a webhook-backed job runs. */
+    progress: v.optional(progressValidator),
+    /** When the provider's callback was accepted; repeated deliveries are ignored. */
+    callbackAt: v.optional(v.number()),
+    /** Set when moderation warned about or flagged the prompt; `blocked` rows explain in `error`. */
+    moderation: v.optional(moderationSummaryValidator),
+    /** The prompt template and version the prompt was filled in from. */
+    template: v.optional(storedTemplateRefValidator),
+    /** Set while the row sits in the trash; `trash:purgeExpired` removes it for good. */
+    deletedAt: v.optional(v.number()),
+    /** Hash of the normalized request settings, used to fold identical requests together. */
+    requestHash: v.optional(v.string()),
+    /** The caller-supplied key a retry can repeat to get this row back. */
+    idempotencyKey: v.optional(v.string()),
+  })
+    .index("by_created_at", ["createdAt"])
+    .index("by_owner_created", ["ownerId", "createdAt"])
+    .index("by_workspace_created", ["workspaceId", "createdAt"])
+    .index("by_root", ["rootId"])
+    .index("by_batch", ["batchId"])
+    .index("by_deleted_at", ["deletedAt"])
+    .index("by_status", ["status"])
+    .index("by_owner_request_hash", ["ownerId", "requestHash"])
+    .index("by_owner_idempotency_key", ["ownerId", "idempotencyKey"])
+    .searchIndex("search_prompt", {
+      searchField: "prompt",
+      filterFields: ["ownerId", "workspaceId", "provider", "model", "status", "aspectRatio"],
+    }),
 });
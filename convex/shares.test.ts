@@ -0,0 +1,67 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import type { GenericId } from "convex/values";
+import { describe, expect, test } from "vitest";
+import { sharePath } from "./lib/shares";
+import schema from "./schema";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const BROWSER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0 Safari/537.36";
+
+const setup = async () => {
+  const t = convexTest(schema, modules);
+  const shareId = await t.run(async (ctx) => {
+    const ownerId = await ctx.db.insert("users", {});
+    const now = Date.now();
+    const collectionId = await ctx.db.insert("collections", {
+      ownerId,
+      name: "Lighthouses",
+      createdAt: now,
+      updatedAt: now,
+    });
+    return ctx.db.insert("shares", {
+      ownerId,
+      token: "share-token",
+      collectionId,
+      hidePrompt: false,
+      views: 0,
+      createdAt: now,
+    });
+  });
+  return { t, shareId: shareId as GenericId<"shares"> };
+};
+
+describe("/share/:token", () => {
+  test("counts a page load from a browser as a view", async () => {
+    const { t, shareId } = await setup();
+
+    const response = await t.fetch(sharePath("share-token"), {
+      headers: { "User-Agent": BROWSER_AGENT },
+    });
+
+    expect(response.status).toBe(200);
+    const share = await t.run((ctx) => ctx.db.get(shareId));
+    expect(share?.views).toBe(1);
+    expect(share?.lastViewedAt).toBeTypeOf("number");
+  });
+
+  test.each([
+    "Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)",
+    "Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)",
+    "facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)",
+    "WhatsApp/2.23.20.0",
+  ])("serves the page without counting a view for %s", async (userAgent) => {
+    const { t, shareId } = await setup();
+
+    const response = await t.fetch(sharePath("share-token"), {
+      headers: { "User-Agent": userAgent },
+    });
+
+    expect(response.status).toBe(200);
+    const share = await t.run((ctx) => ctx.db.get(shareId));
+    expect(share?.views).toBe(0);
+    expect(share?.lastViewedAt).toBeUndefined();
+  });
+});
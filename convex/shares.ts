@@ -0,0 +1,268 @@
+import {
+  httpActionGeneric,
+  internalMutationGeneric,
+  makeFunctionReference,
+  mutationGeneric,
+  queryGeneric,
+} from "convex/server";
+import type { GenericDatabaseReader, GenericDataModel, GenericDocument } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { requireUserId } from "./lib/auth";
+import { MAX_COLLECTION_ITEMS, requireOwnedCollection, resolveOutputTile } from "./lib/collections";
+import { resolveOutputs } from "./lib/outputs";
+import type { StoredImage } from "./lib/outputs";
+import type { AdvancedParams } from "./lib/parameters";
+import {
+  generateShareToken,
+  isLinkPreviewAgent,
+  isShareActive,
+  renderMissingSharePage,
+  renderSharePage,
+  SHARE_PATH_PREFIX,
+  shareExpiry,
+  shareUrl,
+} from "./lib/shares";
+import type { SharedImage, SharedPage } from "./lib/shares";
+
+const SHARE_LIST_LIMIT = 100;
+
+const openShareRef = makeFunctionReference<"mutation">("shares:open");
+
+const requireOwnedShare = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  userId: GenericId<"users">,
+  shareId: GenericId<"shares">
+) => {
+  const share = await db.get(shareId);
+  if (!share || share.ownerId !== userId) {
+    throw new Error("Share link not found.");
+  }
+  return share;
+};
+
+/** What a share points at, for the owner's list; null once the target is gone. */
+const describeTarget = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  share: GenericDocument
+) => {
+  if (share.imageId) {
+    const image = await db.get(share.imageId as GenericId<"images">);
+    return image && image.deletedAt === undefined
+      ? { kind: "generation" as const, title: image.prompt as string }
+      : null;
+  }
+  const collection = await db.get(share.collectionId as GenericId<"collections">);
+  return collection ? { kind: "collection" as const, title: collection.name as string } : null;
+};
+
+/** The caller's links that still work, newest first, with their view counts. */
+export const list = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    const now = Date.now();
+    const shares = await ctx.db
+      .query("shares")
+      .withIndex("by_owner_created", (q) => q.eq("ownerId", userId))
+      .order("desc")
+      .take(SHARE_LIST_LIMIT);
+
+    const summaries = await Promise.all(
+      shares
+        .filter((share) => isShareActive(share, now))
+        .map(async (share) => {
+          const target = await describeTarget(ctx.db, share);
+          return (
+            target && {
+              _id: share._id as GenericId<"shares">,
+              ...target,
+              url: shareUrl(share.token as string),
+              hidePrompt: share.hidePrompt as boolean,
+              views: share.views as number,
+              lastViewedAt: share.lastViewedAt as number | undefined,
+              expiresAt: share.expiresAt as number | undefined,
+              createdAt: share.createdAt as number,
+            }
+          );
+        })
+    );
+    return summaries.filter((summary) => summary !== null);
+  },
+});
+
+/**
+ * Creates a public link to one of the caller's generations or collections.
+ * Without `expiresInDays` the link lasts until it is revoked.
+ */
+export const create = mutationGeneric({
+  args: {
+    imageId: v.optional(v.id("images")),
+    collectionId: v.optional(v.id("collections")),
+    hidePrompt: v.optional(v.boolean()),
+    expiresInDays: v.optional(v.number()),
+  },
+  handler: async (ctx, { imageId, collectionId, hidePrompt, expiresInDays }) => {
+    const userId = await requireUserId(ctx);
+    if (Boolean(imageId) === Boolean(collectionId)) {
+      throw new Error("Share either a generation or a collection.");
+    }
+    if (imageId) {
+      const image = await ctx.db.get(imageId);
+      if (!image || image.ownerId !== userId || image.deletedAt !== undefined) {
+        throw new Error("Generation not found.");
+      }
+      if (((image.outputs as StoredImage[] | undefined) ?? []).length === 0) {
+        throw new Error("Only generations with images can be shared.");
+      }
+    }
+    if (collectionId) {
+      await requireOwnedCollection(ctx.db, userId, collectionId);
+    }
+
+    const createdAt = Date.now();
+    const expiresAt = shareExpiry(createdAt, expiresInDays);
+    const token = generateShareToken();
+    const shareId = await ctx.db.insert("shares", {
+      ownerId: userId,
+      token,
+      ...(imageId ? { imageId } : {}),
+      ...(collectionId ? { collectionId } : {}),
+      hidePrompt: hidePrompt ?? false,
+      ...(expiresAt !== undefined ? { expiresAt } : {}),
+      views: 0,
+      createdAt,
+    });
+    return { _id: shareId, url: shareUrl(token) };
+  },
+});
+
+/** Turns a link off for good; anyone opening it sees the unavailable page. */
+export const revoke = mutationGeneric({
+  args: {
+    id: v.id("shares"),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    const share = await requireOwnedShare(ctx.db, userId, id);
+    if (share.revokedAt === undefined) {
+      await ctx.db.patch(id, { revokedAt: Date.now() });
+    }
+  },
+});
+
+/**
+ * Returns the public page for a token, counting a view when `countView` is
+ * set, or null when the token is unknown, revoked, expired or its generation
+ * is gone. Prompts are left out when the share hides them; provider URLs and
+ * ids never leave.
+ */
+export const open = internalMutationGeneric({
+  args: {
+    token: v.string(),
+    countView: v.boolean(),
+  },
+  handler: async (ctx, { token, countView }): Promise<SharedPage | null> => {
+    const now = Date.now();
+    const share = await ctx.db
+      .query("shares")
+      .withIndex("by_token", (q) => q.eq("token", token))
+      .unique();
+    if (!share || !isShareActive(share, now)) {
+      return null;
+    }
+    const hidePrompt = share.hidePrompt as boolean;
+    const ownerId = share.ownerId as GenericId<"users">;
+    let page: SharedPage | null = null;
+
+    if (share.imageId) {
+      const image = await ctx.db.get(share.imageId as GenericId<"images">);
+      if (image && image.deletedAt === undefined) {
+        const prompt = hidePrompt ? null : (image.prompt as string);
+        const outputs = await resolveOutputs(ctx.storage, image as { outputs?: StoredImage[] });
+        const seed = (image.parameters as AdvancedParams | undefined)?.seed;
+        page = {
+          kind: "generation",
+          title: `Generated with ${image.model as string}`,
+          description: prompt,
+          images: outputs
+            .filter((output) => output.url !== null)
+            .map((output) => ({
+              url: output.url as string,
+              width: "width" in output ? output.width : undefined,
+              height: "height" in output ? output.height : undefined,
+              prompt,
+            })),
+          details: [
+            { label: "Aspect ratio", value: image.aspectRatio as string },
+            { label: "Resolution", value: image.resolution as string },
+            ...(seed !== undefined ? [{ label: "Seed", value: String(seed) }] : []),
+            {
+              label: "Created",
+              value: new Date(image.createdAt as number).toISOString().slice(0, 10),
+            },
+          ],
+        };
+      }
+    } else {
+      const collectionId = share.collectionId as GenericId<"collections">;
+      const collection = await ctx.db.get(collectionId);
+      if (collection && collection.ownerId === ownerId) {
+        const items = await ctx.db
+          .query("collection_items")
+          .withIndex("by_collection_position", (q) => q.eq("collectionId", collectionId))
+          .take(MAX_COLLECTION_ITEMS);
+        const images: SharedImage[] = [];
+        for (const item of items) {
+          const tile = await resolveOutputTile(
+            ctx,
+            ownerId,
+            item.imageId as GenericId<"images">,
+            item.outputIndex as number
+          );
+          if (tile?.url) {
+            images.push({ url: tile.url, prompt: hidePrompt ? null : tile.prompt });
+          }
+        }
+        page = {
+          kind: "collection",
+          title: collection.name as string,
+          description: (collection.description as string | undefined) ?? null,
+          images,
+          details: [{ label: "Images", value: String(images.length) }],
+        };
+      }
+    }
+
+    if (page && countView) {
+      await ctx.db.patch(share._id as GenericId<"shares">, {
+        views: (share.views as number) + 1,
+        lastViewedAt: now,
+      });
+    }
+    return page;
+  },
+});
+
+/** `GET /share/:token`: the public page; add `?embed=1` for an iframe-friendly version. */
+export const sharePage = httpActionGeneric(async (ctx, request) => {
+  const url = new URL(request.url);
+  const token = url.pathname.slice(SHARE_PATH_PREFIX.length);
+  const countView = !isLinkPreviewAgent(request.headers.get("user-agent"));
+  const page: SharedPage | null = token
+    ? await ctx.runMutation(openShareRef, { token, countView })
+    : null;
+  const headers = {
+    "Content-Type": "text/html; charset=utf-8",
+    // Revoking has to take effect on the next load, so nothing may cache the page.
+    "Cache-Control": "no-store",
+    "X-Robots-Tag": "noindex",
+  };
+  if (!page) {
+    return new Response(renderMissingSharePage(), { status: 404, headers });
+  }
+  return new Response(
+    renderSharePage(page, `${url.origin}${url.pathname}`, url.searchParams.get("embed") === "1"),
+    { status: 200, headers }
+  );
+});
@@ -0,0 +1,150 @@
+import { mutationGeneric, queryGeneric } from "convex/server";
+import type { GenericDatabaseReader, GenericDataModel } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { requireUserId } from "./lib/auth";
+import {
+  getTemplateVersion,
+  normalizeTemplate,
+  renderTemplate,
+  saveTemplateVersion,
+  stylePresetValidator,
+  templateDefaultsValidator,
+  templateVariableValidator,
+} from "./lib/templates";
+import type { StylePreset, TemplateVariable } from "./lib/templates";
+
+const TEMPLATE_LIST_LIMIT = 100;
+
+const templateFields = {
+  name: v.string(),
+  description: v.optional(v.string()),
+  body: v.string(),
+  /** Defaults for `{{variables}}` in the body; entries for names not in the body are dropped. */
+  variableDefaults: v.optional(v.array(templateVariableValidator)),
+  defaults: v.optional(templateDefaultsValidator),
+  presets: v.optional(v.array(stylePresetValidator)),
+};
+
+const requireOwnedTemplate = async (
+  db: GenericDatabaseReader<GenericDataModel>,
+  userId: GenericId<"users">,
+  templateId: GenericId<"prompt_templates">
+) => {
+  const template = await db.get(templateId);
+  if (!template || template.ownerId !== userId) {
+    throw new Error("Prompt template not found.");
+  }
+  return template;
+};
+
+/** The caller's templates, most recently edited first. */
+export const list = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    return ctx.db
+      .query("prompt_templates")
+      .withIndex("by_owner_updated", (q) => q.eq("ownerId", userId))
+      .order("desc")
+      .take(TEMPLATE_LIST_LIMIT);
+  },
+});
+
+export const create = mutationGeneric({
+  args: templateFields,
+  handler: async (ctx, { defaults, ...fields }) => {
+    const userId = await requireUserId(ctx);
+    const createdAt = Date.now();
+    const normalized = normalizeTemplate(fields);
+    const templateId = await ctx.db.insert("prompt_templates", {
+      ownerId: userId,
+      ...normalized,
+      defaults: defaults ?? {},
+      version: 1,
+      createdAt,
+      updatedAt: createdAt,
+    });
+    await saveTemplateVersion(ctx.db, templateId as GenericId<"prompt_templates">, 1, normalized);
+    return templateId;
+  },
+});
+
+/**
+ * Saves an edit as the next version. Earlier versions stay in
+ * `prompt_template_versions`, so generations can still look up what they used.
+ */
+export const update = mutationGeneric({
+  args: {
+    id: v.id("prompt_templates"),
+    ...templateFields,
+  },
+  handler: async (ctx, { id, defaults, ...fields }) => {
+    const userId = await requireUserId(ctx);
+    const template = await requireOwnedTemplate(ctx.db, userId, id);
+    const normalized = normalizeTemplate(fields);
+    const version = (template.version as number) + 1;
+    await ctx.db.patch(id, {
+      ...normalized,
+      // Patching undefined clears a description the edit removed.
+      description: normalized.description,
+      defaults: defaults ?? {},
+      version,
+      updatedAt: Date.now(),
+    });
+    await saveTemplateVersion(ctx.db, id, version, normalized);
+  },
+});
+
+export const remove = mutationGeneric({
+  args: {
+    id: v.id("prompt_templates"),
+  },
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnedTemplate(ctx.db, userId, id);
+    const versions = await ctx.db
+      .query("prompt_template_versions")
+      .withIndex("by_template_version", (q) => q.eq("templateId", id))
+      .collect();
+    for (const version of versions) {
+      await ctx.db.delete(version._id as GenericId<"prompt_template_versions">);
+    }
+    await ctx.db.delete(id);
+  },
+});
+
+/** The prompt a template renders to with the given values, for the form's live preview. */
+export const preview = queryGeneric({
+  args: {
+    id: v.id("prompt_templates"),
+    values: v.record(v.string(), v.string()),
+    preset: v.optional(v.string()),
+  },
+  handler: async (ctx, { id, values, preset }) => {
+    const userId = await requireUserId(ctx);
+    const template = await requireOwnedTemplate(ctx.db, userId, id);
+    return renderTemplate(
+      {
+        body: template.body as string,
+        variables: template.variables as TemplateVariable[],
+        presets: template.presets as StylePreset[],
+      },
+      values,
+      preset
+    );
+  },
+});
+
+/** The body, variables and presets a template had at `version`, for generations made from it. */
+export const getVersion = queryGeneric({
+  args: {
+    id: v.id("prompt_templates"),
+    version: v.number(),
+  },
+  handler: async (ctx, { id, version }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnedTemplate(ctx.db, userId, id);
+    return getTemplateVersion(ctx.db, id, version);
+  },
+});
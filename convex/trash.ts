@@ -0,0 +1,112 @@
+import {
+  internalActionGeneric,
+  internalMutationGeneric,
+  internalQueryGeneric,
+  makeFunctionReference,
+} from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { outputStorageIds } from "./lib/outputs";
+import type { StoredImage } from "./lib/outputs";
+import type { SourceImage } from "./lib/sources";
+import { ORPHAN_GRACE_MS, purgeImage, TRASH_RETENTION_MS } from "./lib/trash";
+
+const PURGE_BATCH_SIZE = 50;
+const SCAN_PAGE_SIZE = 200;
+
+const continuePurge = makeFunctionReference<"mutation">("trash:purgeExpired");
+const getReferencedPage = makeFunctionReference<"query">("trash:referencedPage");
+const getStoragePage = makeFunctionReference<"query">("trash:storagePage");
+
+/** Permanently deletes rows trashed longer ago than the retention window. Run by `crons.ts`. */
+export const purgeExpired = internalMutationGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - TRASH_RETENTION_MS;
+    const rows = await ctx.db
+      .query("images")
+      .withIndex("by_deleted_at", (q) => q.gte("deletedAt", 0).lt("deletedAt", cutoff))
+      .take(PURGE_BATCH_SIZE);
+
+    for (const row of rows) {
+      await purgeImage(ctx, row);
+    }
+    if (rows.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, continuePurge, {});
+    }
+    return { purged: rows.length };
+  },
+});
+
+/** Storage ids referenced by one page of `images`, as outputs, thumbnails or sources. */
+export const referencedPage = internalQueryGeneric({
+  args: {
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async ({ db }, { cursor }) => {
+    const page = await db.query("images").paginate({ cursor, numItems: SCAN_PAGE_SIZE });
+    const storageIds = page.page.flatMap((row) => [
+      ...((row.outputs as StoredImage[] | undefined) ?? []).flatMap(outputStorageIds),
+      ...((row.sourceImages as SourceImage[] | undefined) ?? []).map((source) => source.storageId),
+    ]);
+    return { storageIds, isDone: page.isDone, continueCursor: page.continueCursor };
+  },
+});
+
+export const storagePage = internalQueryGeneric({
+  args: {
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async ({ db }, { cursor }) => {
+    const page = await db.system.query("_storage").paginate({ cursor, numItems: SCAN_PAGE_SIZE });
+    return {
+      files: page.page.map((file) => ({ _id: file._id, _creationTime: file._creationTime })),
+      isDone: page.isDone,
+      continueCursor: page.continueCursor,
+    };
+  },
+});
+
+/**
+ * Deletes stored files that no row points at: leftovers from cancelled or
+ * failed renders and abandoned uploads. Files newer than the grace period are
+ * skipped because a render or upload may still be about to reference them.
+ */
+export const sweepOrphans = internalActionGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const referenced = new Set<string>();
+    let cursor: string | null = null;
+    for (;;) {
+      const page: { storageIds: string[]; isDone: boolean; continueCursor: string } =
+        await ctx.runQuery(getReferencedPage, { cursor });
+      page.storageIds.forEach((storageId) => referenced.add(storageId));
+      if (page.isDone) {
+        break;
+      }
+      cursor = page.continueCursor;
+    }
+
+    const cutoff = Date.now() - ORPHAN_GRACE_MS;
+    let deleted = 0;
+    cursor = null;
+    for (;;) {
+      const page: {
+        files: { _id: GenericId<"_storage">; _creationTime: number }[];
+        isDone: boolean;
+        continueCursor: string;
+      } = await ctx.runQuery(getStoragePage, { cursor });
+      for (const file of page.files) {
+        if (!referenced.has(file._id) && file._creationTime < cutoff) {
+          await ctx.storage.delete(file._id);
+          deleted += 1;
+        }
+      }
+      if (page.isDone) {
+        break;
+      }
+      cursor = page.continueCursor;
+    }
+    return { deleted };
+  },
+});
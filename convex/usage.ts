@@ -0,0 +1,33 @@
+import { queryGeneric } from "convex/server";
+import { requireUserId } from "./lib/auth";
+import { PROVIDERS } from "./lib/providers";
+import { getBudget, getProviderSpend, getUserSpend } from "./lib/usage";
+
+/** The caller's spend plus each budgeted provider's standing, for the header. */
+export const summary = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    const now = Date.now();
+
+    const budgets = await Promise.all(
+      Object.values(PROVIDERS).map(async (adapter) => {
+        const budget = getBudget(adapter);
+        if (budget.daily === undefined && budget.monthly === undefined) {
+          return null;
+        }
+        return {
+          provider: adapter.id,
+          label: adapter.label,
+          ...budget,
+          spent: await getProviderSpend(ctx.db, adapter.id, now),
+        };
+      })
+    );
+
+    return {
+      spent: await getUserSpend(ctx.db, userId, now),
+      budgets: budgets.filter((budget) => budget !== null),
+    };
+  },
+});
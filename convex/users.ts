@@ -0,0 +1,15 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { queryGeneric } from "convex/server";
+
+/** The signed-in account, or null while signed out. */
+export const viewer = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+    const user = await ctx.db.get(userId);
+    return user ? { _id: user._id, email: (user.email as string | undefined) ?? null } : null;
+  },
+});
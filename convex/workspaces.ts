@@ -0,0 +1,107 @@
+import { mutationGeneric, queryGeneric } from "convex/server";
+import { v } from "convex/values";
+import type { GenericId } from "convex/values";
+import { getMembership, requireMembership, requireUserId } from "./lib/auth";
+
+/** Workspaces the caller belongs to, for the gallery scope and share pickers. */
+export const list = queryGeneric({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const workspaces = await Promise.all(
+      memberships.map(async (membership) => {
+        const workspace = await ctx.db.get(membership.workspaceId as GenericId<"workspaces">);
+        return workspace
+          ? { _id: workspace._id, name: workspace.name as string, role: membership.role as string }
+          : null;
+      })
+    );
+    return workspaces.filter((workspace) => workspace !== null);
+  },
+});
+
+export const create = mutationGeneric({
+  args: {
+    name: v.string(),
+  },
+  handler: async (ctx, { name }) => {
+    const userId = await requireUserId(ctx);
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Workspace name is required.");
+    }
+
+    const createdAt = Date.now();
+    const workspaceId = await ctx.db.insert("workspaces", {
+      name: trimmed,
+      createdBy: userId,
+      createdAt,
+    });
+    await ctx.db.insert("workspaceMembers", {
+      workspaceId,
+      userId,
+      role: "owner",
+      joinedAt: createdAt,
+    });
+    return workspaceId;
+  },
+});
+
+export const members = queryGeneric({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, { workspaceId }) => {
+    const userId = await requireUserId(ctx);
+    await requireMembership(ctx.db, workspaceId, userId);
+
+    const rows = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", workspaceId))
+      .collect();
+    return Promise.all(
+      rows.map(async (row) => {
+        const user = await ctx.db.get(row.userId as GenericId<"users">);
+        return { userId: row.userId, email: user?.email ?? null, role: row.role };
+      })
+    );
+  },
+});
+
+/** Owners add teammates by the email they signed up with. */
+export const addMember = mutationGeneric({
+  args: {
+    workspaceId: v.id("workspaces"),
+    email: v.string(),
+  },
+  handler: async (ctx, { workspaceId, email }) => {
+    const userId = await requireUserId(ctx);
+    const membership = await requireMembership(ctx.db, workspaceId, userId);
+    if (membership.role !== "owner") {
+      throw new Error("Only workspace owners can add members.");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", email.trim()))
+      .unique();
+    if (!user) {
+      throw new Error("No account uses that email address.");
+    }
+    if (await getMembership(ctx.db, workspaceId, user._id)) {
+      return;
+    }
+
+    await ctx.db.insert("workspaceMembers", {
+      workspaceId,
+      userId: user._id,
+      role: "member",
+      joinedAt: Date.now(),
+    });
+  },
+});
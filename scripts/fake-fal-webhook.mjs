@@ -0,0 +1,70 @@
+// Posts a Fal.ai-style completion callback to the local webhook route, the
+// same way Fal.ai would once a queued job finishes. The image is served from a
+// throwaway local server unless --image-url points somewhere else.
+//
+//   WEBHOOK_SECRET=... CONVEX_SITE_URL=http://127.0.0.1:3211 \
+//     node scripts/fake-fal-webhook.mjs <imageId> <requestId> [--error "message"] [--image-url url]
+import { createHmac } from "node:crypto";
+import { createServer } from "node:http";
+import { parseArgs } from "node:util";
+
+// 1x1 PNG, enough for the route to sniff a content type and dimensions.
+const PIXEL_PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC",
+  "base64"
+);
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    error: { type: "string" },
+    "image-url": { type: "string" },
+    "site-url": { type: "string" },
+  },
+});
+
+const [imageId, requestId] = positionals;
+const secret = process.env.WEBHOOK_SECRET;
+const siteUrl = values["site-url"] ?? process.env.CONVEX_SITE_URL;
+if (!imageId || !requestId || !secret || !siteUrl) {
+  console.error(
+    "Usage: WEBHOOK_SECRET=... CONVEX_SITE_URL=... node scripts/fake-fal-webhook.mjs <imageId> <requestId> [--error message] [--image-url url]"
+  );
+  process.exit(1);
+}
+
+const servePixel = () =>
+  new Promise((resolve) => {
+    const server = createServer((_request, response) => {
+      response.writeHead(200, { "Content-Type": "image/png" });
+      response.end(PIXEL_PNG);
+    });
+    server.listen(0, "127.0.0.1", () => resolve(server));
+  });
+
+const server = values.error || values["image-url"] ? null : await servePixel();
+const imageUrl = values["image-url"] ?? `http://127.0.0.1:${server?.address().port}/pixel.png`;
+
+const body = values.error
+  ? { request_id: requestId, status: "ERROR", error: values.error, payload: null }
+  : {
+      request_id: requestId,
+      status: "OK",
+      payload: { images: [{ url: imageUrl, content_type: "image/png" }] },
+    };
+
+const url = new URL("/webhooks/fal", siteUrl);
+url.searchParams.set("imageId", imageId);
+url.searchParams.set("token", createHmac("sha256", secret).update(imageId).digest("hex"));
+
+try {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  console.log(`${response.status} ${response.statusText} ${await response.text()}`.trim());
+  process.exitCode = response.ok ? 0 : 1;
+} finally {
+  server?.close();
+}
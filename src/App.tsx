@@ -1,53 +1,288 @@
-import { useEffect, useState } from "react";
-import type { FormEvent } from "react";
-import { useAction, useQuery } from "convex/react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ChangeEvent, FormEvent } from "react";
+import { useAuthActions } from "@convex-dev/auth/react";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
 import { api } from "./convexApi";
+import { uploadFile } from "./uploads";
+import AnalyticsDashboard from "./components/AnalyticsDashboard";
+import ApiKeysPanel from "./components/ApiKeysPanel";
+import ArchiveBar from "./components/ArchiveBar";
+import BatchForm from "./components/BatchForm";
+import BatchView from "./components/BatchView";
+import BoardView from "./components/BoardView";
+import CollectionPicker from "./components/CollectionPicker";
+import GalleryFilterBar from "./components/GalleryFilterBar";
+import GallerySidebar from "./components/GallerySidebar";
+import GenerationDetail from "./components/GenerationDetail";
+import LineagePanel from "./components/LineagePanel";
+import RatingControl from "./components/RatingControl";
+import ShareButton from "./components/ShareButton";
+import SharesPanel from "./components/SharesPanel";
+import TemplatePicker from "./components/TemplatePicker";
+import type { AppliedTemplate } from "./components/TemplatePicker";
+import TemplatesPanel from "./components/TemplatesPanel";
+import WorkspaceBar from "./components/WorkspaceBar";
+import type { WorkspaceOption } from "./components/WorkspaceBar";
+import {
+  FAVORITES_BOARD,
+  hasActiveFilters,
+  readFiltersFromUrl,
+  toGalleryQueryArgs,
+  writeFiltersToUrl,
+} from "./galleryFilters";
+import type { GalleryFilterState } from "./galleryFilters";
+import { ANALYTICS_PATH, batchPath, generationPath, navigate, useRoute } from "./routes";
 import "./App.css";
 
+type GenerationAttempt = {
+  attempt: number;
+  provider: string;
+  imageIndex: number;
+  finishedAt: number;
+  ok: boolean;
+  error?: string;
+};
+
+type GenerationOutput = {
+  url: string | null;
+  /** Small WebP preview for the grid; the full-size `url` is for the lightbox. */
+  thumbnailUrl?: string | null;
+  width?: number;
+  height?: number;
+  contentType?: string;
+  byteSize?: number;
+  sourceUrl?: string;
+};
+
+type GenerationParameters = {
+  negativePrompt?: string;
+  seed?: number;
+  guidanceScale?: number;
+  numInferenceSteps?: number;
+  scheduler?: string;
+  strength?: number;
+};
+
+type GenerationMode = "text-to-image" | "image-to-image" | "edit" | "upscale";
+
+type SourceImage = {
+  storageId: string;
+  imageId?: string;
+  outputIndex?: number;
+  url: string | null;
+};
+
+type SourceSelection =
+  | { kind: "upload"; storageId: string; previewUrl: string; name: string }
+  | { kind: "generation"; imageId: string; outputIndex: number; previewUrl: string; name: string }
+  | { kind: "source"; imageId: string; sourceIndex: number; previewUrl: string; name: string };
+
 type ImageGeneration = {
   _id: string;
+  ownerId?: string;
+  workspaceId?: string;
+  parentId?: string;
+  batchId?: string;
   prompt: string;
   status: string;
   model: string;
   provider?: string;
+  estimatedCost?: number;
+  cost?: number;
   aspectRatio: string;
   resolution: string;
   outputFormat: string;
+  outputQuality?: number;
   numImages: number;
+  parameters?: GenerationParameters;
+  mode?: GenerationMode;
+  sourceImages: SourceImage[];
   createdAt: number;
   updatedAt: number;
-  imageUrls?: string[];
+  outputs: GenerationOutput[];
   error?: string;
+  startedAt?: number;
+  completedAt?: number;
+  attempts?: GenerationAttempt[];
+  progress?: { queuePosition?: number; logs: string[] };
+  moderation?: { action: string; reasons: string[] };
+  template?: { templateId: string; name: string; version: number; preset?: string };
+  /** The viewer's favorite marks and stars, per output. */
+  ratings?: { outputIndex: number; favorite: boolean; rating?: number }[];
 };
 
-type Provider = "fal" | "huggingface";
+type Provider = "fal" | "huggingface" | "mock";
 type Theme = "light" | "dark";
 
+type NumericRange = {
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+};
+
+type ParameterSupport = {
+  negativePrompt: boolean;
+  seed: boolean;
+  guidanceScale?: NumericRange;
+  numInferenceSteps?: NumericRange;
+  schedulers?: string[];
+  strength?: NumericRange;
+};
+
+type ProviderCapabilities = {
+  aspectRatios: string[];
+  resolutions: string[];
+  outputFormats: string[];
+  maxImages: number;
+  parameters: ParameterSupport;
+  modes: GenerationMode[];
+  maxSourceImages: number;
+};
+
+type AdvancedFields = {
+  negativePrompt: string;
+  seed: string;
+  guidanceScale: string;
+  numInferenceSteps: string;
+  scheduler: string;
+  strength: string;
+};
+
 type ProviderOption = {
   id: Provider;
   label: string;
   model: string;
+  models: string[];
+  modelLabel: string;
   description: string;
+  capabilities: ProviderCapabilities;
+  configured: boolean;
 };
 
-const providerOptions: ProviderOption[] = [
-  {
-    id: "fal",
-    label: "Fal.ai",
-    model: "Nano Banana Pro",
-    description: "Premium quality and full control over aspect ratio, resolution, and output format.",
-  },
-  {
-    id: "huggingface",
-    label: "Hugging Face",
-    model: "SDXL Lightning",
-    description: "Free API tier; outputs 1024px PNG images for quick experiments.",
-  },
-];
-
 const aspectRatios = ["1:1", "4:3", "3:2", "16:9", "9:16"];
 const resolutions = ["1K", "2K", "4K"];
 const outputFormats = ["png", "jpeg", "webp"];
+const statuses = ["queued", "running", "complete", "partial", "failed", "cancelled", "blocked"];
+
+const GALLERY_PAGE_SIZE = 18;
+const VARIATION_COUNT = 3;
+
+const modeLabels: Record<GenerationMode, string> = {
+  "text-to-image": "Text to image",
+  "image-to-image": "Image to image",
+  edit: "Edit with references",
+  upscale: "Upscale",
+};
+
+const resolutionSides: Record<string, number> = { "1K": 1024, "2K": 2048, "4K": 4096 };
+
+/** The smallest resolution larger than an output, or undefined when it is already 4K. */
+const nextResolution = (output?: GenerationOutput) => {
+  const longSide = Math.max(output?.width ?? 0, output?.height ?? 0);
+  return longSide > 0
+    ? resolutions.find((resolution) => resolutionSides[resolution] > longSide)
+    : undefined;
+};
+
+const placeholderLabels: Record<string, string> = {
+  queued: "Queued",
+  running: "Rendering",
+  failed: "No output",
+  cancelled: "Cancelled",
+  blocked: "Blocked",
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+const isActiveStatus = (status: string) => status === "queued" || status === "running";
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const describeProgress = (progress?: ImageGeneration["progress"]) => {
+  if (progress?.queuePosition !== undefined) {
+    return progress.queuePosition === 0
+      ? "Next in queue"
+      : `${progress.queuePosition} ahead in queue`;
+  }
+  return progress?.logs.at(-1) ?? null;
+};
+
+// Queued time counts from submission, render time from when the worker picked it up.
+const elapsedSince = (image: ImageGeneration, now: number) =>
+  formatElapsed(
+    now - (image.status === "running" ? (image.startedAt ?? image.createdAt) : image.createdAt)
+  );
+
+const emptyAdvancedFields: AdvancedFields = {
+  negativePrompt: "",
+  seed: "",
+  guidanceScale: "",
+  numInferenceSteps: "",
+  scheduler: "",
+  strength: "",
+};
+
+const parseOptionalNumber = (value: string) =>
+  value.trim() === "" || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+// Only send what the selected provider accepts; the server drops the rest anyway.
+const buildParameters = (
+  fields: AdvancedFields,
+  support?: ParameterSupport
+): GenerationParameters => ({
+  negativePrompt: support?.negativePrompt ? fields.negativePrompt.trim() || undefined : undefined,
+  seed: support?.seed ? parseOptionalNumber(fields.seed) : undefined,
+  guidanceScale: support?.guidanceScale ? parseOptionalNumber(fields.guidanceScale) : undefined,
+  numInferenceSteps: support?.numInferenceSteps
+    ? parseOptionalNumber(fields.numInferenceSteps)
+    : undefined,
+  scheduler: support?.schedulers?.includes(fields.scheduler) ? fields.scheduler : undefined,
+  strength: support?.strength ? parseOptionalNumber(fields.strength) : undefined,
+});
+
+const toSourceInput = (source: SourceSelection) => {
+  if (source.kind === "upload") {
+    return { kind: source.kind, storageId: source.storageId };
+  }
+  if (source.kind === "source") {
+    return { kind: source.kind, imageId: source.imageId, sourceIndex: source.sourceIndex };
+  }
+  return { kind: source.kind, imageId: source.imageId, outputIndex: source.outputIndex };
+};
+
+const toAdvancedFields = (parameters: GenerationParameters = {}): AdvancedFields => ({
+  negativePrompt: parameters.negativePrompt ?? "",
+  seed: parameters.seed?.toString() ?? "",
+  guidanceScale: parameters.guidanceScale?.toString() ?? "",
+  numInferenceSteps: parameters.numInferenceSteps?.toString() ?? "",
+  scheduler: parameters.scheduler ?? "",
+  strength: parameters.strength?.toString() ?? "",
+});
+
+// Uploads are reused through the generation that holds them; only the uploader owns the file.
+const toSourceSelection =
+  (imageId: string) =>
+  (source: SourceImage, sourceIndex: number): SourceSelection =>
+    source.imageId !== undefined && source.outputIndex !== undefined
+      ? {
+          kind: "generation",
+          imageId: source.imageId,
+          outputIndex: source.outputIndex,
+          previewUrl: source.url ?? "",
+          name: "Earlier generation",
+        }
+      : { kind: "source", imageId, sourceIndex, previewUrl: source.url ?? "", name: "Upload" };
+
+/** JPEG and WebP take an encoder quality; blank keeps the server default. */
+const toOutputQuality = (format: string, value: string) =>
+  format === "png" || !value.trim() ? undefined : Number(value);
+
+const pickSupported = (value: string, supported: string[]) =>
+  supported.includes(value) ? value : supported[0] ?? value;
 
 const getInitialTheme = (): Theme => {
   if (typeof window === "undefined") {
@@ -69,22 +304,119 @@ function App() {
   const [aspectRatio, setAspectRatio] = useState("1:1");
   const [resolution, setResolution] = useState("1K");
   const [outputFormat, setOutputFormat] = useState("png");
+  const [outputQuality, setOutputQuality] = useState("");
   const [numImages, setNumImages] = useState(1);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [advanced, setAdvanced] = useState<AdvancedFields>(emptyAdvancedFields);
+  const [reuseCached, setReuseCached] = useState(false);
+  const [mode, setMode] = useState<GenerationMode>("text-to-image");
+  const [sources, setSources] = useState<SourceSelection[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [remixParent, setRemixParent] = useState<ImageGeneration | null>(null);
+  const [appliedTemplate, setAppliedTemplate] = useState<AppliedTemplate | null>(null);
+  const [lineageId, setLineageId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const route = useRoute();
+  const [galleryFilters, setGalleryFilters] = useState<GalleryFilterState>(readFiltersFromUrl);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [isQueueing, setIsQueueing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const generateImage = useAction(api.images.generate);
-  const images = (useQuery(api.images.list, { limit: 18 }) ?? []) as ImageGeneration[];
+  const generateImage = useMutation(api.images.generate);
+  const cancelImage = useMutation(api.images.cancel);
+  const generateUploadUrl = useMutation(api.images.generateUploadUrl);
+  const shareImage = useMutation(api.images.setWorkspace);
+  const queueVariations = useMutation(api.images.variations);
+  const queueUpscale = useMutation(api.images.upscale);
+  const trashImages = useMutation(api.images.remove);
+  const restoreImages = useMutation(api.images.restore);
+  const purgeImages = useMutation(api.images.purge);
+  const { signOut } = useAuthActions();
+  const viewer = useQuery(api.users.viewer, {});
+  const workspaces = (useQuery(api.workspaces.list) ?? []) as WorkspaceOption[];
+  const usage = useQuery(api.usage.summary, {});
+  const weekSuccess = useQuery(api.analytics.dashboard, { days: 7 })?.totals.successRate ?? null;
+  const galleryArgs = useMemo(() => toGalleryQueryArgs(galleryFilters), [galleryFilters]);
+  const {
+    results,
+    status: galleryStatus,
+    loadMore,
+  } = usePaginatedQuery(api.images.list, galleryArgs, { initialNumItems: GALLERY_PAGE_SIZE });
+  const images = results as ImageGeneration[];
+  const galleryCount = useQuery(api.images.count, galleryArgs);
+  const providerOptions = (useQuery(api.providers.list) ?? []) as ProviderOption[];
+  const templates = useQuery(api.templates.list, {}) ?? [];
+  const collections = useQuery(api.collections.list, {}) ?? [];
 
-  const imageCount = images.length;
+  const imageCount = galleryCount?.count ?? images.length;
+  const imageCountLabel = `${imageCount}${galleryCount?.capped ? "+" : ""}`;
+  const inTrash = galleryFilters.trash === "1";
+  const activeBoard = galleryFilters.board;
+  const activeCollection = collections.find((collection) => collection._id === activeBoard);
+  const activeWorkspace = workspaces.find(
+    (workspace) => workspace._id === galleryFilters.workspace
+  );
   const activeProvider = providerOptions.find((option) => option.id === provider);
-  const isHuggingFace = provider === "huggingface";
+  const activeBudget = usage?.budgets.find((budget) => budget.provider === provider);
+  const budgetNote = [
+    activeBudget?.daily !== undefined
+      ? ` Team budget: ${formatUsd(activeBudget.spent.today)} of ${formatUsd(activeBudget.daily)} today.`
+      : "",
+    activeBudget?.monthly !== undefined
+      ? ` ${formatUsd(activeBudget.spent.month)} of ${formatUsd(activeBudget.monthly)} this month.`
+      : "",
+  ].join("");
+  const capabilities = activeProvider?.capabilities;
+  const supportedResolutions = capabilities?.resolutions ?? resolutions;
+  const supportedFormats = capabilities?.outputFormats ?? outputFormats;
+  const maxImages = capabilities?.maxImages ?? 4;
+  const parameterSupport = capabilities?.parameters;
+  // Upscaling is a card action on finished images, not something to pick in the form.
+  const supportedModes = (capabilities?.modes ?? ["text-to-image"]).filter(
+    (option) => option !== "upscale"
+  );
+  const maxSourceImages = capabilities?.maxSourceImages ?? 0;
+  const usesSources = mode !== "text-to-image";
+  const providerSummary = providerOptions.map((option) => option.label).join(" + ");
+  const modelSummary = providerOptions.map((option) => option.modelLabel).join(" + ");
 
   useEffect(() => {
     document.documentElement.dataset.theme = theme;
     window.localStorage.setItem("theme", theme);
   }, [theme]);
 
+  useEffect(() => {
+    writeFiltersToUrl(galleryFilters);
+  }, [galleryFilters]);
+
+  const hasActiveJobs = images.some((image) => isActiveStatus(image.status));
+  useEffect(() => {
+    if (!hasActiveJobs) {
+      return;
+    }
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [hasActiveJobs]);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || galleryStatus !== "CanLoadMore") {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadMore(GALLERY_PAGE_SIZE);
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+    // The sentinel unmounts while a board is open, so observe it again on the way back.
+  }, [galleryStatus, loadMore, activeBoard]);
+
   const toggleTheme = () => {
     setTheme((current) => (current === "light" ? "dark" : "light"));
   };
@@ -98,7 +430,7 @@ function App() {
       return;
     }
 
-    setIsGenerating(true);
+    setIsQueueing(true);
     setError(null);
 
     try {
@@ -107,24 +439,191 @@ function App() {
         aspectRatio,
         resolution,
         outputFormat,
+        outputQuality: toOutputQuality(outputFormat, outputQuality),
         numImages,
         provider,
+        parameters: buildParameters(advanced, parameterSupport),
+        mode,
+        sourceImages: usesSources ? sources.map(toSourceInput) : [],
+        workspaceId: galleryFilters.workspace || undefined,
+        parentId: remixParent?._id,
+        template: appliedTemplate?.ref,
+        reuseCached: reuseCached || undefined,
       });
       setPrompt("");
+      setRemixParent(null);
+      setAppliedTemplate(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unable to queue generation.";
+      setError(message);
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    try {
+      await cancelImage({ id });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unable to cancel generation.";
+      setError(message);
+    }
+  };
+
+  /** Loads a stored generation's prompt and settings back into the form. */
+  const handleRemix = (image: ImageGeneration) => {
+    const option = providerOptions.find((candidate) => candidate.id === image.provider);
+    if (option) {
+      handleProviderChange(option);
+    }
+    setPrompt(image.prompt);
+    setAspectRatio(image.aspectRatio);
+    setResolution(image.resolution);
+    setOutputFormat(image.outputFormat);
+    setOutputQuality(image.outputQuality?.toString() ?? "");
+    setNumImages(image.numImages);
+    setAdvanced(toAdvancedFields(image.parameters));
+    const remixMode = image.mode === "upscale" ? "text-to-image" : (image.mode ?? "text-to-image");
+    setMode(remixMode);
+    setSources(
+      remixMode === "text-to-image" ? [] : image.sourceImages.map(toSourceSelection(image._id))
+    );
+    setRemixParent(image);
+    setAppliedTemplate(null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleVariations = async (id: string) => {
+    try {
+      await queueVariations({ id, count: VARIATION_COUNT });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unable to queue variations.";
+      setError(message);
+    }
+  };
+
+  const handleUpscale = async (id: string, resolution: string) => {
+    try {
+      await queueUpscale({ id, outputIndex: 0, resolution });
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Unable to generate image.";
+      const message = err instanceof Error ? err.message : "Unable to queue the upscale.";
+      setError(message);
+    }
+  };
+
+  const runBulk = async (
+    action: (args: { ids: string[] }) => Promise<unknown>,
+    ids: string[],
+    fallback: string
+  ) => {
+    try {
+      await action({ ids });
+      setSelectedIds((current) => current.filter((id) => !ids.includes(id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  const handleTrash = (ids: string[]) =>
+    runBulk(trashImages, ids, "Unable to move generations to the trash.");
+
+  const handleRestore = (ids: string[]) =>
+    runBulk(restoreImages, ids, "Unable to restore generations.");
+
+  const handlePurge = (ids: string[]) => {
+    if (!window.confirm(`Permanently delete ${ids.length} generation(s) and their files?`)) {
+      return;
+    }
+    return runBulk(purgeImages, ids, "Unable to delete generations.");
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) =>
+      current.includes(id) ? current.filter((selected) => selected !== id) : [...current, id]
+    );
+  };
+
+  const toggleTrashView = () => {
+    setSelectedIds([]);
+    setGalleryFilters((current) => ({ ...current, trash: inTrash ? "" : "1", board: "" }));
+  };
+
+  const selectBoard = (board: string) => {
+    setSelectedIds([]);
+    setGalleryFilters((current) => ({ ...current, board, trash: "" }));
+  };
+
+  const handleShare = async (id: string, workspaceId: string) => {
+    try {
+      await shareImage({ id, workspaceId: workspaceId || undefined });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unable to share generation.";
+      setError(message);
+    }
+  };
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) {
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      const uploaded: SourceSelection[] = [];
+      for (const file of files) {
+        const storageId = await uploadFile(generateUploadUrl, file);
+        uploaded.push({
+          kind: "upload",
+          storageId,
+          previewUrl: URL.createObjectURL(file),
+          name: file.name,
+        });
+      }
+      setSources((current) => [...current, ...uploaded].slice(0, maxSourceImages));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unable to upload reference image.";
       setError(message);
     } finally {
-      setIsGenerating(false);
+      setIsUploading(false);
     }
   };
 
-  const handleProviderChange = (value: Provider) => {
-    setProvider(value);
-    if (value === "huggingface") {
-      setResolution("1K");
-      setOutputFormat("png");
+  const handleUseAsReference = (image: ImageGeneration) => {
+    const previewUrl = image.outputs[0]?.thumbnailUrl ?? image.outputs[0]?.url;
+    const referenceMode = supportedModes.find((option) => option !== "text-to-image");
+    if (!previewUrl || !referenceMode) {
+      setError(`${activeProvider?.label ?? "This provider"} does not accept reference images.`);
+      return;
     }
+
+    const reference: SourceSelection = {
+      kind: "generation",
+      imageId: image._id,
+      outputIndex: 0,
+      previewUrl,
+      name: image.prompt,
+    };
+    setMode((current) => (current === "text-to-image" ? referenceMode : current));
+    setSources((current) => [...current, reference].slice(-maxSourceImages));
+    setError(null);
+  };
+
+  const removeSource = (index: number) => {
+    setSources((current) => current.filter((_, position) => position !== index));
+  };
+
+  const handleProviderChange = (option: ProviderOption) => {
+    setProvider(option.id);
+    setMode((current) => (option.capabilities.modes.includes(current) ? current : "text-to-image"));
+    setSources((current) => current.slice(0, option.capabilities.maxSourceImages));
+    setAspectRatio((current) => pickSupported(current, option.capabilities.aspectRatios));
+    setResolution((current) => pickSupported(current, option.capabilities.resolutions));
+    setOutputFormat((current) => pickSupported(current, option.capabilities.outputFormats));
+    setNumImages((current) => Math.min(option.capabilities.maxImages, current));
     setError(null);
   };
 
@@ -134,7 +633,44 @@ function App() {
     setAspectRatio("1:1");
     setResolution("1K");
     setOutputFormat("png");
+    setOutputQuality("");
     setNumImages(1);
+    setAdvanced(emptyAdvancedFields);
+    setMode("text-to-image");
+    setSources([]);
+    setRemixParent(null);
+    setAppliedTemplate(null);
+    setError(null);
+  };
+
+  const updateAdvanced = (field: keyof AdvancedFields, value: string) => {
+    setAdvanced((current) => ({ ...current, [field]: value }));
+  };
+
+  /** Fills the form from a template: the rendered prompt, preset and saved defaults. */
+  const handleApplyTemplate = (applied: AppliedTemplate) => {
+    const { defaults } = applied;
+    const option = providerOptions.find((candidate) => candidate.id === defaults.provider);
+    if (option) {
+      handleProviderChange(option);
+    }
+    const supported = (option ?? activeProvider)?.capabilities;
+    if (defaults.aspectRatio) {
+      setAspectRatio(pickSupported(defaults.aspectRatio, supported?.aspectRatios ?? aspectRatios));
+    }
+    if (defaults.resolution) {
+      setResolution(pickSupported(defaults.resolution, supported?.resolutions ?? resolutions));
+    }
+    if (defaults.outputFormat) {
+      setOutputFormat(
+        pickSupported(defaults.outputFormat, supported?.outputFormats ?? outputFormats)
+      );
+    }
+    setPrompt(applied.prompt);
+    if (applied.negativePrompt) {
+      updateAdvanced("negativePrompt", applied.negativePrompt);
+    }
+    setAppliedTemplate(applied);
     setError(null);
   };
 
@@ -150,7 +686,16 @@ function App() {
             </div>
           </div>
           <div className="topbar-actions">
-            <span className="status-pill">Fal.ai + Hugging Face</span>
+            <span className="status-pill">{providerSummary || "Loading providers"}</span>
+            {usage ? (
+              <span className="status-pill" title="Your estimated spend, UTC">
+                {formatUsd(usage.spent.today)} today · {formatUsd(usage.spent.month)} this month
+              </span>
+            ) : null}
+            {viewer?.email ? <span className="status-pill">{viewer.email}</span> : null}
+            <button className="ghost" type="button" onClick={() => void signOut()}>
+              Sign out
+            </button>
             <button
               className="theme-toggle"
               type="button"
@@ -174,16 +719,25 @@ function App() {
             <div className="hero__stats">
               <div className="stat-card">
                 <span className="stat-title">Model</span>
-                <span className="stat-value">Nano Banana Pro + SDXL Lightning</span>
+                <span className="stat-value">{modelSummary || "Loading models"}</span>
               </div>
               <div className="stat-card">
                 <span className="stat-title">Backend</span>
                 <span className="stat-value">Convex Actions</span>
               </div>
-              <div className="stat-card">
-                <span className="stat-title">Sessions</span>
-                <span className="stat-value">{imageCount} generations</span>
-              </div>
+              <button
+                className="stat-card stat-card--link"
+                type="button"
+                onClick={() => navigate(ANALYTICS_PATH)}
+              >
+                <span className="stat-title">Last 7 days</span>
+                <span className="stat-value">
+                  {weekSuccess !== null
+                    ? `${Math.round(weekSuccess * 100)}% success`
+                    : "No renders yet"}
+                </span>
+                <span className="stat-link">Open analytics →</span>
+              </button>
             </div>
           </div>
           <div className="hero-panel hero-panel--notes">
@@ -226,15 +780,97 @@ function App() {
                     className={`provider-button ${
                       provider === option.id ? "provider-button--active" : ""
                     }`}
-                    onClick={() => handleProviderChange(option.id)}
+                    onClick={() => handleProviderChange(option)}
                   >
                     <span className="provider-label">{option.label}</span>
-                    <span className="provider-model">{option.model}</span>
+                    <span className="provider-model">{option.modelLabel}</span>
                   </button>
                 ))}
               </div>
             </label>
-            {activeProvider ? <p className="provider-note">{activeProvider.description}</p> : null}
+            {activeProvider ? (
+              <p className="provider-note">
+                {activeProvider.description}
+                {activeProvider.configured ? "" : " API key not configured on this deployment."}
+                {budgetNote}
+              </p>
+            ) : null}
+            <div className="field-row">
+              <label className="field">
+                <span>Mode</span>
+                <select
+                  value={mode}
+                  onChange={(event) => setMode(event.target.value as GenerationMode)}
+                  disabled={supportedModes.length < 2}
+                >
+                  {supportedModes.map((option) => (
+                    <option key={option} value={option}>
+                      {modeLabels[option]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="field">
+                <span>Strength</span>
+                <input
+                  type="number"
+                  min={parameterSupport?.strength?.min}
+                  max={parameterSupport?.strength?.max}
+                  step={parameterSupport?.strength?.step}
+                  placeholder={parameterSupport?.strength?.default.toString() ?? "—"}
+                  value={advanced.strength}
+                  onChange={(event) => updateAdvanced("strength", event.target.value)}
+                  disabled={mode !== "image-to-image" || !parameterSupport?.strength}
+                />
+              </label>
+            </div>
+            {usesSources ? (
+              <div className="field">
+                <span>
+                  Reference images ({sources.length}/{maxSourceImages})
+                </span>
+                <div className="source-list">
+                  {sources.map((source, index) => (
+                    <figure key={`${source.kind}-${index}`} className="source-item">
+                      <img src={source.previewUrl} alt={source.name} />
+                      <button type="button" onClick={() => removeSource(index)}>
+                        Remove
+                      </button>
+                    </figure>
+                  ))}
+                  {sources.length < maxSourceImages ? (
+                    <label className="source-upload">
+                      {isUploading ? "Uploading..." : "Upload"}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple={maxSourceImages - sources.length > 1}
+                        onChange={handleUpload}
+                        disabled={isUploading}
+                      />
+                    </label>
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+            <TemplatePicker templates={templates} onApply={handleApplyTemplate} />
+            {appliedTemplate ? (
+              <p className="remix-note">
+                From template “{appliedTemplate.name}” v{appliedTemplate.ref.version}
+                {appliedTemplate.ref.preset ? ` · ${appliedTemplate.ref.preset}` : ""}
+                <button className="ghost" type="button" onClick={() => setAppliedTemplate(null)}>
+                  Detach
+                </button>
+              </p>
+            ) : null}
+            {remixParent ? (
+              <p className="remix-note">
+                Remixing “{remixParent.prompt}”
+                <button className="ghost" type="button" onClick={() => setRemixParent(null)}>
+                  Detach
+                </button>
+              </p>
+            ) : null}
             <label className="field">
               <span>Prompt</span>
               <textarea
@@ -248,7 +884,7 @@ function App() {
               <label className="field">
                 <span>Aspect ratio</span>
                 <select value={aspectRatio} onChange={(event) => setAspectRatio(event.target.value)}>
-                  {aspectRatios.map((ratio) => (
+                  {(capabilities?.aspectRatios ?? aspectRatios).map((ratio) => (
                     <option key={ratio} value={ratio}>
                       {ratio}
                     </option>
@@ -260,9 +896,9 @@ function App() {
                 <select
                   value={resolution}
                   onChange={(event) => setResolution(event.target.value)}
-                  disabled={isHuggingFace}
+                  disabled={supportedResolutions.length < 2}
                 >
-                  {resolutions.map((option) => (
+                  {supportedResolutions.map((option) => (
                     <option key={option} value={option}>
                       {option}
                     </option>
@@ -276,33 +912,126 @@ function App() {
                 <select
                   value={outputFormat}
                   onChange={(event) => setOutputFormat(event.target.value)}
-                  disabled={isHuggingFace}
+                  disabled={supportedFormats.length < 2}
                 >
-                  {outputFormats.map((format) => (
+                  {supportedFormats.map((format) => (
                     <option key={format} value={format}>
                       {format.toUpperCase()}
                     </option>
                   ))}
                 </select>
               </label>
+              <label className="field">
+                <span>Quality</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  placeholder={outputFormat === "png" ? "Lossless" : "Default"}
+                  value={outputFormat === "png" ? "" : outputQuality}
+                  onChange={(event) => setOutputQuality(event.target.value)}
+                  disabled={outputFormat === "png"}
+                />
+              </label>
               <label className="field">
                 <span>Images</span>
                 <input
                   type="number"
                   min={1}
-                  max={4}
+                  max={maxImages}
                   value={numImages}
                   onChange={(event) => {
                     const value = Number(event.target.value);
-                    const clamped = Number.isNaN(value) ? 1 : Math.min(4, Math.max(1, value));
+                    const clamped = Number.isNaN(value) ? 1 : Math.min(maxImages, Math.max(1, value));
                     setNumImages(clamped);
                   }}
                 />
               </label>
             </div>
+            <details className="advanced">
+              <summary>Advanced</summary>
+              <div className="advanced-body">
+                <label className="field">
+                  <span>Negative prompt</span>
+                  <textarea
+                    placeholder="blurry, watermark, extra fingers"
+                    value={advanced.negativePrompt}
+                    onChange={(event) => updateAdvanced("negativePrompt", event.target.value)}
+                    rows={2}
+                    disabled={!parameterSupport?.negativePrompt}
+                  />
+                </label>
+                <div className="field-row">
+                  <label className="field">
+                    <span>Seed</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      placeholder="Random"
+                      value={advanced.seed}
+                      onChange={(event) => updateAdvanced("seed", event.target.value)}
+                      disabled={!parameterSupport?.seed}
+                    />
+                  </label>
+                  <label className="field">
+                    <span>Scheduler</span>
+                    <select
+                      value={advanced.scheduler}
+                      onChange={(event) => updateAdvanced("scheduler", event.target.value)}
+                      disabled={!parameterSupport?.schedulers?.length}
+                    >
+                      <option value="">Default</option>
+                      {(parameterSupport?.schedulers ?? []).map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <label className="chip">
+                  <input
+                    type="checkbox"
+                    checked={reuseCached}
+                    onChange={(event) => setReuseCached(event.target.checked)}
+                    disabled={!parameterSupport?.seed || advanced.seed === ""}
+                  />
+                  Reuse an identical finished render for this seed
+                </label>
+                <div className="field-row">
+                  <label className="field">
+                    <span>Guidance scale</span>
+                    <input
+                      type="number"
+                      min={parameterSupport?.guidanceScale?.min}
+                      max={parameterSupport?.guidanceScale?.max}
+                      step={parameterSupport?.guidanceScale?.step}
+                      placeholder={parameterSupport?.guidanceScale?.default.toString() ?? "—"}
+                      value={advanced.guidanceScale}
+                      onChange={(event) => updateAdvanced("guidanceScale", event.target.value)}
+                      disabled={!parameterSupport?.guidanceScale}
+                    />
+                  </label>
+                  <label className="field">
+                    <span>Inference steps</span>
+                    <input
+                      type="number"
+                      min={parameterSupport?.numInferenceSteps?.min}
+                      max={parameterSupport?.numInferenceSteps?.max}
+                      step={parameterSupport?.numInferenceSteps?.step}
+                      placeholder={parameterSupport?.numInferenceSteps?.default.toString() ?? "—"}
+                      value={advanced.numInferenceSteps}
+                      onChange={(event) => updateAdvanced("numInferenceSteps", event.target.value)}
+                      disabled={!parameterSupport?.numInferenceSteps}
+                    />
+                  </label>
+                </div>
+              </div>
+            </details>
             <div className="actions">
-              <button className="primary" type="submit" disabled={isGenerating}>
-                {isGenerating ? "Generating..." : "Generate image"}
+              <button className="primary" type="submit" disabled={isQueueing || isUploading}>
+                {isQueueing ? "Queueing..." : "Generate image"}
               </button>
               <button className="ghost" type="button" onClick={handleReset}>
                 Reset
@@ -310,61 +1039,390 @@ function App() {
             </div>
             {error ? <p className="error">{error}</p> : null}
           </form>
+          <BatchForm
+            providers={providerOptions}
+            aspectRatios={aspectRatios}
+            settings={{
+              resolution,
+              outputFormat,
+              outputQuality: toOutputQuality(outputFormat, outputQuality),
+              numImages,
+              parameters: buildParameters(advanced, parameterSupport),
+              workspaceId: galleryFilters.workspace || undefined,
+            }}
+          />
+          <TemplatesPanel
+            templates={templates}
+            providers={providerOptions}
+            aspectRatios={aspectRatios}
+            resolutions={resolutions}
+            outputFormats={outputFormats}
+          />
+          <ApiKeysPanel />
+          <SharesPanel />
         </section>
 
         <section className="panel gallery">
           <div className="panel__header">
             <div>
-              <h2>Latest generations</h2>
-              <p>Stored in Convex for rapid remixing.</p>
+              <h2>
+                {activeBoard === FAVORITES_BOARD
+                  ? "Favorites"
+                  : activeBoard
+                    ? (activeCollection?.name ?? "Collection")
+                    : inTrash
+                      ? "Trash"
+                      : activeWorkspace
+                        ? activeWorkspace.name
+                        : "Latest generations"}
+              </h2>
+              <p>
+                {activeBoard === FAVORITES_BOARD
+                  ? "Every image you marked with a heart, newest first."
+                  : activeBoard
+                    ? (activeCollection?.description ?? "A board of hand-picked images.")
+                    : inTrash
+                      ? "Deleted generations are purged for good after 30 days."
+                      : activeWorkspace
+                        ? "Shared with everyone in this workspace."
+                        : "Stored in Convex for rapid remixing."}
+              </p>
+            </div>
+            <div className="card-actions">
+              <button className="ghost" type="button" onClick={toggleTrashView}>
+                {inTrash ? "Back to gallery" : "Trash"}
+              </button>
+              {activeBoard ? null : <span className="badge">{imageCountLabel} total</span>}
             </div>
-            <span className="badge">{imageCount} total</span>
           </div>
-          <div className="gallery-grid">
-            {images.length === 0 ? (
-              <div className="empty-state">
-                <h3>No images yet</h3>
-                <p>Start your first prompt to populate the studio gallery.</p>
-              </div>
-            ) : (
-              images.map((image) => {
-                const primaryImage = image.imageUrls?.[0];
-                const extraImages = image.imageUrls && image.imageUrls.length > 1
-                  ? image.imageUrls.length - 1
-                  : 0;
-                const aspectRatioValue = image.aspectRatio?.includes(":")
-                  ? image.aspectRatio.replace(":", " / ")
-                  : "1 / 1";
-                const providerLabel = image.provider === "huggingface" ? "Hugging Face" : "Fal.ai";
-                return (
-                  <article key={image._id} className="image-card">
-                    <div className="image-frame" style={{ aspectRatio: aspectRatioValue }}>
-                      {primaryImage ? (
-                        <img src={primaryImage} alt={image.prompt} />
+          <div className="gallery-layout">
+            <GallerySidebar
+              collections={collections}
+              selected={activeBoard}
+              onSelect={selectBoard}
+            />
+            <div className="gallery-main">
+              {activeBoard ? (
+                <BoardView board={activeBoard} onClose={() => selectBoard("")} />
+              ) : (
+                <>
+                  {selectedIds.length > 0 ? (
+                    <div className="bulk-bar">
+                      <span>{selectedIds.length} selected</span>
+                      {inTrash ? (
+                        <>
+                          <button
+                            className="ghost"
+                            type="button"
+                            onClick={() => handleRestore(selectedIds)}
+                          >
+                            Restore
+                          </button>
+                          <button
+                            className="ghost"
+                            type="button"
+                            onClick={() => handlePurge(selectedIds)}
+                          >
+                            Delete forever
+                          </button>
+                        </>
                       ) : (
-                        <div className="image-placeholder">Queued</div>
+                        <button
+                          className="ghost"
+                          type="button"
+                          onClick={() => handleTrash(selectedIds)}
+                        >
+                          Move to trash
+                        </button>
                       )}
-                      <span className={`status status--${image.status}`}>{image.status}</span>
-                      {extraImages > 0 ? <span className="count">+{extraImages}</span> : null}
+                      <button className="ghost" type="button" onClick={() => setSelectedIds([])}>
+                        Clear selection
+                      </button>
                     </div>
-                    <div className="image-meta">
-                      <p className="prompt">{image.prompt}</p>
-                      <div className="meta-row">
-                        <span>{providerLabel}</span>
-                        <span>{image.aspectRatio}</span>
-                        <span>{image.resolution}</span>
-                        <span>{image.outputFormat.toUpperCase()}</span>
+                  ) : null}
+                  <WorkspaceBar
+                    workspaces={workspaces}
+                    selected={galleryFilters.workspace}
+                    onSelect={(workspace) =>
+                      setGalleryFilters((current) => ({ ...current, workspace }))
+                    }
+                  />
+                  <ArchiveBar galleryArgs={galleryArgs} selectedIds={selectedIds} />
+                  {lineageId ? (
+                    <LineagePanel imageId={lineageId} onClose={() => setLineageId(null)} />
+                  ) : null}
+                  <GalleryFilterBar
+                    filters={galleryFilters}
+                    providers={providerOptions}
+                    aspectRatios={aspectRatios}
+                    statuses={statuses}
+                    onChange={setGalleryFilters}
+                  />
+                  <div className="gallery-grid">
+                    {images.length === 0 ? (
+                      <div className="empty-state">
+                        {galleryStatus === "LoadingFirstPage" ? (
+                          <h3>Loading gallery...</h3>
+                        ) : hasActiveFilters(galleryFilters) ? (
+                          <>
+                            <h3>No matches</h3>
+                            <p>Try a different search or clear the filters.</p>
+                          </>
+                        ) : (
+                          <>
+                            <h3>No images yet</h3>
+                            <p>Start your first prompt to populate the studio gallery.</p>
+                          </>
+                        )}
                       </div>
-                    </div>
-                    {image.error ? <p className="error">{image.error}</p> : null}
-                  </article>
-                );
-              })
-            )}
+                    ) : (
+                      images.map((image) => {
+                        const primaryImage = image.outputs[0]?.url;
+                        const thumbnailImage = image.outputs[0]?.thumbnailUrl ?? primaryImage;
+                        const upscaleTarget = nextResolution(image.outputs[0]);
+                        const firstRating = image.ratings?.find(
+                          (entry) => entry.outputIndex === 0
+                        );
+                        const extraImages = image.outputs.length > 1 ? image.outputs.length - 1 : 0;
+                        const retryCount = (image.attempts ?? []).filter(
+                          (attempt) => !attempt.ok
+                        ).length;
+                        const imageCost = image.cost ?? image.estimatedCost;
+                        const progressNote = isActiveStatus(image.status)
+                          ? describeProgress(image.progress)
+                          : null;
+                        const aspectRatioValue = image.aspectRatio?.includes(":")
+                          ? image.aspectRatio.replace(":", " / ")
+                          : "1 / 1";
+                        const providerLabel =
+                          providerOptions.find((option) => option.id === image.provider)?.label ??
+                          image.provider ??
+                          "Fal.ai";
+                        const isOwn = image.ownerId === viewer?._id;
+                        return (
+                          <article key={image._id} className="image-card">
+                            <div className="image-frame" style={{ aspectRatio: aspectRatioValue }}>
+                              {isOwn ? (
+                                <input
+                                  className="select-toggle"
+                                  type="checkbox"
+                                  aria-label="Select generation"
+                                  checked={selectedIds.includes(image._id)}
+                                  onChange={() => toggleSelected(image._id)}
+                                />
+                              ) : null}
+                              {primaryImage ? (
+                                <a
+                                  href={generationPath(image._id)}
+                                  onClick={(event) => {
+                                    event.preventDefault();
+                                    navigate(generationPath(image._id));
+                                  }}
+                                >
+                                  <img src={thumbnailImage ?? undefined} alt={image.prompt} />
+                                </a>
+                              ) : (
+                                <div className="image-placeholder">
+                                  {placeholderLabels[image.status] ?? image.status}
+                                  {isActiveStatus(image.status) ? (
+                                    <span className="elapsed">{elapsedSince(image, now)}</span>
+                                  ) : null}
+                                  {progressNote ? (
+                                    <span className="progress-note">{progressNote}</span>
+                                  ) : null}
+                                </div>
+                              )}
+                              <span className={`status status--${image.status}`}>
+                                {image.status}
+                              </span>
+                              {extraImages > 0 ? (
+                                <span className="count">+{extraImages}</span>
+                              ) : null}
+                              {image.sourceImages[0]?.url ? (
+                                <img
+                                  className="source-thumb"
+                                  src={image.sourceImages[0].url}
+                                  alt="Source image"
+                                  title={`${image.sourceImages.length} source image(s)`}
+                                />
+                              ) : null}
+                            </div>
+                            <div className="image-meta">
+                              <p className="prompt">{image.prompt}</p>
+                              <div className="meta-row">
+                                <span>{providerLabel}</span>
+                                <span>{image.aspectRatio}</span>
+                                <span>{image.resolution}</span>
+                                <span>{image.outputFormat.toUpperCase()}</span>
+                                {image.parameters?.seed !== undefined ? (
+                                  <span>Seed {image.parameters.seed}</span>
+                                ) : null}
+                                {imageCost ? <span>{formatUsd(imageCost)}</span> : null}
+                                {retryCount > 0 ? (
+                                  <span>
+                                    {retryCount} {retryCount === 1 ? "retry" : "retries"}
+                                  </span>
+                                ) : null}
+                              </div>
+                              {inTrash ? (
+                                <div className="card-actions">
+                                  <button
+                                    className="ghost"
+                                    type="button"
+                                    onClick={() => handleRestore([image._id])}
+                                  >
+                                    Restore
+                                  </button>
+                                  <button
+                                    className="ghost"
+                                    type="button"
+                                    onClick={() => handlePurge([image._id])}
+                                  >
+                                    Delete forever
+                                  </button>
+                                </div>
+                              ) : (
+                                <div className="card-actions">
+                                  {primaryImage ? (
+                                    <RatingControl
+                                      imageId={image._id}
+                                      outputIndex={0}
+                                      favorite={firstRating?.favorite ?? false}
+                                      rating={firstRating?.rating}
+                                    />
+                                  ) : null}
+                                  {isActiveStatus(image.status) ? (
+                                    <button
+                                      className="ghost"
+                                      type="button"
+                                      onClick={() => handleCancel(image._id)}
+                                    >
+                                      Cancel
+                                    </button>
+                                  ) : null}
+                                  {primaryImage ? (
+                                    <button
+                                      className="ghost"
+                                      type="button"
+                                      onClick={() => handleUseAsReference(image)}
+                                    >
+                                      Use as reference
+                                    </button>
+                                  ) : null}
+                                  <button
+                                    className="ghost"
+                                    type="button"
+                                    onClick={() => handleRemix(image)}
+                                  >
+                                    Remix
+                                  </button>
+                                  <button
+                                    className="ghost"
+                                    type="button"
+                                    onClick={() => handleVariations(image._id)}
+                                  >
+                                    Variations
+                                  </button>
+                                  {primaryImage && upscaleTarget ? (
+                                    <button
+                                      className="ghost"
+                                      type="button"
+                                      onClick={() => handleUpscale(image._id, upscaleTarget)}
+                                    >
+                                      Upscale to {upscaleTarget}
+                                    </button>
+                                  ) : null}
+                                  <button
+                                    className="ghost"
+                                    type="button"
+                                    onClick={() => setLineageId(image._id)}
+                                  >
+                                    Lineage
+                                  </button>
+                                  {image.batchId ? (
+                                    <button
+                                      className="ghost"
+                                      type="button"
+                                      onClick={() => navigate(batchPath(image.batchId!))}
+                                    >
+                                      Batch
+                                    </button>
+                                  ) : null}
+                                  {isOwn ? (
+                                    <button
+                                      className="ghost"
+                                      type="button"
+                                      onClick={() => handleTrash([image._id])}
+                                    >
+                                      Delete
+                                    </button>
+                                  ) : null}
+                                  {primaryImage ? (
+                                    <CollectionPicker
+                                      collections={collections}
+                                      imageId={image._id}
+                                      outputIndex={0}
+                                    />
+                                  ) : null}
+                                  {isOwn && primaryImage ? (
+                                    <ShareButton imageId={image._id} />
+                                  ) : null}
+                                  {isOwn && workspaces.length > 0 ? (
+                                    <select
+                                      className="share-select"
+                                      aria-label="Share with workspace"
+                                      value={image.workspaceId ?? ""}
+                                      onChange={(event) =>
+                                        handleShare(image._id, event.target.value)
+                                      }
+                                    >
+                                      <option value="">Private</option>
+                                      {workspaces.map((workspace) => (
+                                        <option key={workspace._id} value={workspace._id}>
+                                          {workspace.name}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  ) : null}
+                                </div>
+                              )}
+                            </div>
+                            {image.error ? <p className="error">{image.error}</p> : null}
+                            {image.moderation && image.status !== "blocked" ? (
+                              <p className="moderation-note">
+                                {image.moderation.action === "flag" ? "Flagged" : "Warning"}:{" "}
+                                {image.moderation.reasons.join(" ")}
+                              </p>
+                            ) : null}
+                          </article>
+                        );
+                      })
+                    )}
+                  </div>
+                  <div ref={loadMoreRef} className="gallery-more">
+                    {galleryStatus === "LoadingMore" ? "Loading more..." : null}
+                    {galleryStatus === "CanLoadMore" ? (
+                      <button
+                        className="ghost"
+                        type="button"
+                        onClick={() => loadMore(GALLERY_PAGE_SIZE)}
+                      >
+                        Load more
+                      </button>
+                    ) : null}
+                  </div>
+                </>
+              )}
+            </div>
           </div>
         </section>
       </main>
     </div>
+      {route?.kind === "generation" ? (
+        <GenerationDetail id={route.id} onClose={() => navigate("/")} />
+      ) : null}
+      {route?.kind === "batch" ? <BatchView id={route.id} onClose={() => navigate("/")} /> : null}
+      {route?.kind === "analytics" ? <AnalyticsDashboard onClose={() => navigate("/")} /> : null}
     </div>
   );
 }
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../convexApi";
+import type { AnalyticsSummary, OutcomeCounts, Tally } from "../convexApi";
+
+type AnalyticsDashboardProps = {
+  onClose: () => void;
+};
+
+const WINDOWS = [
+  { days: 1, label: "Today" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+];
+
+const OUTCOME_ORDER: (keyof OutcomeCounts)[] = [
+  "complete",
+  "partial",
+  "failed",
+  "blocked",
+  "cancelled",
+];
+
+const formatLatency = (ms: number | null) => {
+  if (ms === null) {
+    return "—";
+  }
+  if (ms < 1000) {
+    return `${ms} ms`;
+  }
+  return ms < 60_000 ? `${(ms / 1000).toFixed(1)} s` : `${(ms / 60_000).toFixed(1)} min`;
+};
+
+const formatPercent = (rate: number | null) => (rate === null ? "—" : `${Math.round(rate * 100)}%`);
+
+const share = (value: number, max: number) => `${max > 0 ? (value / max) * 100 : 0}%`;
+
+/** One bar per day; failed and blocked renders are drawn on top of the successful ones. */
+function DailyChart({ daily }: { daily: AnalyticsSummary["daily"] }) {
+  const max = Math.max(0, ...daily.map((day) => day.generations));
+  return (
+    <div className="daily-chart" role="img" aria-label="Generations per day">
+      {daily.map((day) => (
+        <div
+          key={day.day}
+          className="daily-chart-column"
+          title={`${day.day}: ${day.images} images, ${day.generations} generations, ${day.failed} failed`}
+        >
+          <span className="daily-chart-bar" style={{ height: share(day.generations, max) }}>
+            <span
+              className="daily-chart-failed"
+              style={{ height: share(day.failed, day.generations) }}
+            />
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TallyBars({ tally, empty }: { tally: Tally; empty: string }) {
+  if (tally.length === 0) {
+    return <p className="analytics-empty">{empty}</p>;
+  }
+  const max = tally[0].count;
+  return (
+    <ul className="tally-bars">
+      {tally.map((entry) => (
+        <li key={entry.value}>
+          <span className="tally-label" title={entry.value}>
+            {entry.value}
+          </span>
+          <span className="tally-track">
+            <span className="tally-fill" style={{ width: share(entry.count, max) }} />
+          </span>
+          <span className="tally-count">{entry.count}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function OutcomeBar({ outcomes }: { outcomes: OutcomeCounts }) {
+  const total = OUTCOME_ORDER.reduce((sum, outcome) => sum + outcomes[outcome], 0);
+  return (
+    <span className="outcome-bar">
+      {OUTCOME_ORDER.filter((outcome) => outcomes[outcome] > 0).map((outcome) => (
+        <span
+          key={outcome}
+          className={`outcome-segment outcome-segment--${outcome}`}
+          style={{ width: share(outcomes[outcome], total) }}
+          title={`${outcomes[outcome]} ${outcome}`}
+        />
+      ))}
+    </span>
+  );
+}
+
+function ModelTable({ models }: { models: AnalyticsSummary["models"] }) {
+  const slowest = Math.max(0, ...models.map((model) => model.p95Ms ?? 0));
+  return (
+    <table className="analytics-table">
+      <thead>
+        <tr>
+          <th>Model</th>
+          <th>Runs</th>
+          <th>Success</th>
+          <th>Outcomes</th>
+          <th>Latency p50 / p95</th>
+        </tr>
+      </thead>
+      <tbody>
+        {models.map((model) => (
+          <tr key={`${model.provider}:${model.model}`}>
+            <th>
+              <span className="analytics-model">{model.model}</span>
+              <span className="analytics-provider">{model.provider}</span>
+            </th>
+            <td>{model.generations}</td>
+            <td>{formatPercent(model.successRate)}</td>
+            <td>
+              <OutcomeBar outcomes={model.outcomes} />
+            </td>
+            <td>
+              <span className="latency-bar">
+                <span className="latency-p95" style={{ width: share(model.p95Ms ?? 0, slowest) }} />
+                <span className="latency-p50" style={{ width: share(model.p50Ms ?? 0, slowest) }} />
+              </span>
+              <span className="latency-label">
+                {formatLatency(model.p50Ms)} / {formatLatency(model.p95Ms)}
+              </span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/** Provider and model performance from `generation_stats`, over a chosen window. */
+function AnalyticsDashboard({ onClose }: AnalyticsDashboardProps) {
+  const [days, setDays] = useState(7);
+  const summary = useQuery(api.analytics.dashboard, { days });
+
+  return (
+    <div className="lightbox" role="dialog" aria-modal="true" aria-label="Analytics">
+      <div className="lightbox-body">
+        <div className="lightbox-toolbar">
+          <button className="ghost" type="button" onClick={onClose}>
+            Close
+          </button>
+          <select
+            aria-label="Time window"
+            value={days}
+            onChange={(event) => setDays(Number(event.target.value))}
+          >
+            {WINDOWS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {summary ? (
+            <span className="status-pill">
+              {summary.days[0]} – {summary.days[summary.days.length - 1]} (UTC)
+            </span>
+          ) : null}
+        </div>
+
+        {summary === undefined ? (
+          <p className="lightbox-message">Loading analytics...</p>
+        ) : (
+          <div className="analytics">
+            <div className="hero__stats">
+              <div className="stat-card">
+                <span className="stat-title">Generations</span>
+                <span className="stat-value">{summary.totals.generations}</span>
+              </div>
+              <div className="stat-card">
+                <span className="stat-title">Images</span>
+                <span className="stat-value">{summary.totals.images}</span>
+              </div>
+              <div className="stat-card">
+                <span className="stat-title">Success rate</span>
+                <span className="stat-value">{formatPercent(summary.totals.successRate)}</span>
+              </div>
+              <div className="stat-card">
+                <span className="stat-title">Latency p50 / p95</span>
+                <span className="stat-value">
+                  {formatLatency(summary.totals.p50Ms)} / {formatLatency(summary.totals.p95Ms)}
+                </span>
+              </div>
+            </div>
+
+            <section className="analytics-section">
+              <h3>Generations per day</h3>
+              <DailyChart daily={summary.daily} />
+            </section>
+
+            <section className="analytics-section">
+              <h3>By model</h3>
+              {summary.models.length === 0 ? (
+                <p className="analytics-empty">No finished generations in this window.</p>
+              ) : (
+                <ModelTable models={summary.models} />
+              )}
+            </section>
+
+            <div className="analytics-columns">
+              <section className="analytics-section">
+                <h3>Top errors</h3>
+                <TallyBars tally={summary.errors} empty="No errors in this window." />
+              </section>
+              <section className="analytics-section">
+                <h3>Aspect ratios</h3>
+                <TallyBars tally={summary.aspectRatios} empty="Nothing rendered yet." />
+              </section>
+              <section className="analytics-section">
+                <h3>Resolutions</h3>
+                <TallyBars tally={summary.resolutions} empty="Nothing rendered yet." />
+              </section>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AnalyticsDashboard;
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convexApi";
+
+type ApiKeySummary = {
+  _id: string;
+  name: string;
+  prefix: string;
+  rateLimitPerMinute: number;
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+  requestsToday: number;
+};
+
+type ApiRequestLog = {
+  _id: string;
+  method: string;
+  path: string;
+  status: number;
+  createdAt: number;
+};
+
+const DEFAULT_RATE_LIMIT = 60;
+
+function RequestLog({ keyId }: { keyId: string }) {
+  const requests = useQuery(api.apiKeys.requests, { id: keyId }) as ApiRequestLog[] | undefined;
+  if (!requests) {
+    return <p className="provider-note">Loading calls...</p>;
+  }
+  if (requests.length === 0) {
+    return <p className="provider-note">No calls yet.</p>;
+  }
+
+  return (
+    <ul className="api-request-log">
+      {requests.map((request) => (
+        <li key={request._id}>
+          <span className={request.status >= 400 ? "api-status api-status--error" : "api-status"}>
+            {request.status || "…"}
+          </span>
+          <span className="api-request-path">
+            {request.method} {request.path}
+          </span>
+          <span>{new Date(request.createdAt).toLocaleTimeString()}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Create, revoke and inspect keys for the `/v1` HTTP API. */
+function ApiKeysPanel() {
+  const keys = (useQuery(api.apiKeys.list) ?? []) as ApiKeySummary[];
+  const createKey = useMutation(api.apiKeys.create);
+  const revokeKey = useMutation(api.apiKeys.revoke);
+  const [name, setName] = useState("");
+  const [rateLimit, setRateLimit] = useState(String(DEFAULT_RATE_LIMIT));
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    try {
+      const created = (await createKey({
+        name,
+        rateLimitPerMinute: Number(rateLimit) || DEFAULT_RATE_LIMIT,
+      })) as { key: string };
+      setCreatedKey(created.key);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to create the key.");
+    }
+  };
+
+  const handleRevoke = async (key: ApiKeySummary) => {
+    if (!window.confirm(`Revoke "${key.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+    try {
+      await revokeKey({ id: key._id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to revoke the key.");
+    }
+  };
+
+  return (
+    <details className="advanced api-keys">
+      <summary>API keys</summary>
+      <form className="prompt-form" onSubmit={handleSubmit}>
+        <p className="provider-note">
+          Call <code>/v1/generations</code> on your Convex site URL with{" "}
+          <code>Authorization: Bearer &lt;key&gt;</code>. The OpenAPI document is at{" "}
+          <code>/v1/openapi.json</code>.
+        </p>
+        <div className="api-key-fields">
+          <label className="field">
+            <span>Key name</span>
+            <input
+              type="text"
+              placeholder="Nightly render script"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+          <label className="field">
+            <span>Requests / minute</span>
+            <input
+              type="number"
+              min={1}
+              max={600}
+              value={rateLimit}
+              onChange={(event) => setRateLimit(event.target.value)}
+            />
+          </label>
+        </div>
+        <div className="actions">
+          <button className="primary" type="submit" disabled={!name.trim()}>
+            Create key
+          </button>
+        </div>
+        {createdKey ? (
+          <p className="api-key-created">
+            Copy this key now; it will not be shown again: <code>{createdKey}</code>
+          </p>
+        ) : null}
+        {error ? <p className="error">{error}</p> : null}
+      </form>
+      {keys.length > 0 ? (
+        <ul className="batch-list api-key-list">
+          {keys.map((key) => (
+            <li key={key._id}>
+              <div className="api-key-row">
+                <span className="batch-list-prompt">
+                  {key.name} <code>{key.prefix}…</code>
+                </span>
+                <span>
+                  {key.revokedAt
+                    ? "Revoked"
+                    : `${key.requestsToday} calls today · ${key.rateLimitPerMinute}/min`}
+                </span>
+                <button
+                  className="ghost"
+                  type="button"
+                  onClick={() => setOpenLogId(openLogId === key._id ? null : key._id)}
+                >
+                  {openLogId === key._id ? "Hide log" : "Log"}
+                </button>
+                {key.revokedAt ? null : (
+                  <button className="ghost" type="button" onClick={() => void handleRevoke(key)}>
+                    Revoke
+                  </button>
+                )}
+              </div>
+              {openLogId === key._id ? <RequestLog keyId={key._id} /> : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </details>
+  );
+}
+
+export default ApiKeysPanel;
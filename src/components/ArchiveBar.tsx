@@ -0,0 +1,90 @@
+import { useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import { useAction, useMutation } from "convex/react";
+import { api } from "../convexApi";
+import type { GalleryQueryArgs } from "../convexApi";
+import { uploadFile } from "../uploads";
+
+type ArchiveBarProps = {
+  galleryArgs: GalleryQueryArgs;
+  selectedIds: string[];
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/** Exports the selection (or the filtered gallery) as a ZIP, and imports one back. */
+function ArchiveBar({ galleryArgs, selectedIds }: ArchiveBarProps) {
+  const exportGenerations = useAction(api.archives.exportGenerations);
+  const importArchive = useAction(api.archives.importArchive);
+  const generateUploadUrl = useMutation(api.images.generateUploadUrl);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async (task: () => Promise<string>, fallback: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage(await task());
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      const archive = await exportGenerations(
+        selectedIds.length > 0 ? { ...galleryArgs, ids: selectedIds } : galleryArgs
+      );
+      if (!archive.url) {
+        throw new Error("The archive was stored but has no download link.");
+      }
+      const link = document.createElement("a");
+      link.href = archive.url;
+      link.download = archive.fileName;
+      link.click();
+      return `Exported ${archive.generations} generations (${formatMegabytes(archive.byteSize)}).`;
+    }, "Unable to export.");
+
+  const handleImport = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    void run(async () => {
+      const storageId = await uploadFile(generateUploadUrl, file, file.type || "application/zip");
+      const { imported, skipped } = await importArchive({ storageId });
+      return `Imported ${imported} generations${skipped ? `, skipped ${skipped} already here` : ""}.`;
+    }, "Unable to import the archive.");
+  };
+
+  return (
+    <div className="archive-bar">
+      <button className="ghost" type="button" disabled={busy} onClick={() => void handleExport()}>
+        {selectedIds.length > 0 ? `Export ${selectedIds.length} selected` : "Export this view"}
+      </button>
+      <button
+        className="ghost"
+        type="button"
+        disabled={busy}
+        onClick={() => fileInput.current?.click()}
+      >
+        Import archive
+      </button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".zip,application/zip"
+        hidden
+        onChange={handleImport}
+      />
+      {busy ? <span className="archive-message">Working…</span> : null}
+      {!busy && message ? <span className="archive-message">{message}</span> : null}
+    </div>
+  );
+}
+
+export default ArchiveBar;
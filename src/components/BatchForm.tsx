@@ -0,0 +1,179 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convexApi";
+import { batchPath, navigate } from "../routes";
+
+type BatchProvider = {
+  id: string;
+  label: string;
+};
+
+type BatchSettings = {
+  resolution: string;
+  outputFormat: string;
+  outputQuality?: number;
+  numImages: number;
+  parameters: Record<string, unknown>;
+  workspaceId?: string;
+};
+
+type BatchSummary = {
+  _id: string;
+  prompts: string[];
+  createdAt: number;
+  progress: { total: number; done: number; active: number };
+};
+
+type BatchFormProps = {
+  providers: BatchProvider[];
+  aspectRatios: string[];
+  settings: BatchSettings;
+};
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+const parseSeeds = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((seed) => Number.isInteger(seed) && seed >= 0);
+
+function BatchForm({ providers, aspectRatios, settings }: BatchFormProps) {
+  const createBatch = useMutation(api.batches.create);
+  const [promptText, setPromptText] = useState("");
+  const [selectedRatios, setSelectedRatios] = useState<string[]>(["1:1"]);
+  const [selectedProviders, setSelectedProviders] = useState<string[]>([]);
+  const [seedText, setSeedText] = useState("");
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const prompts = promptText.split("\n");
+  const preview = useQuery(api.batches.preview, { prompts }) as
+    { prompts: string[]; overLimit: boolean; limit: number } | undefined;
+  const recent = (useQuery(api.batches.list) ?? []) as BatchSummary[];
+
+  const seeds = parseSeeds(seedText);
+  const total =
+    (preview?.prompts.length ?? 0) *
+    selectedRatios.length *
+    selectedProviders.length *
+    Math.max(1, seeds.length);
+  const overLimit = Boolean(preview?.overLimit) || total > (preview?.limit ?? Infinity);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsQueueing(true);
+    setError(null);
+
+    try {
+      const batchId = (await createBatch({
+        prompts,
+        aspectRatios: selectedRatios,
+        providers: selectedProviders,
+        seeds,
+        ...settings,
+      })) as string;
+      setPromptText("");
+      navigate(batchPath(batchId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to queue batch.");
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  return (
+    <details className="advanced batch-form">
+      <summary>Batch & matrix</summary>
+      <form className="prompt-form" onSubmit={handleSubmit}>
+        <label className="field">
+          <span>Prompts (one per line, {"{a|b}"} expands)</span>
+          <textarea
+            rows={4}
+            placeholder={"A {red|blue} fox in the snow\nA lighthouse at dusk"}
+            value={promptText}
+            onChange={(event) => setPromptText(event.target.value)}
+          />
+        </label>
+        <div className="field">
+          <span>Aspect ratios</span>
+          <div className="chip-group">
+            {aspectRatios.map((ratio) => (
+              <label key={ratio} className="chip">
+                <input
+                  type="checkbox"
+                  checked={selectedRatios.includes(ratio)}
+                  onChange={() => setSelectedRatios((current) => toggle(current, ratio))}
+                />
+                {ratio}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="field">
+          <span>Providers</span>
+          <div className="chip-group">
+            {providers.map((provider) => (
+              <label key={provider.id} className="chip">
+                <input
+                  type="checkbox"
+                  checked={selectedProviders.includes(provider.id)}
+                  onChange={() => setSelectedProviders((current) => toggle(current, provider.id))}
+                />
+                {provider.label}
+              </label>
+            ))}
+          </div>
+        </div>
+        <label className="field">
+          <span>Seeds (comma separated, blank for random)</span>
+          <input
+            type="text"
+            placeholder="1, 42, 1234"
+            value={seedText}
+            onChange={(event) => setSeedText(event.target.value)}
+          />
+        </label>
+        <p className="provider-note">
+          {total} generation{total === 1 ? "" : "s"}
+          {overLimit ? ` — over the limit of ${preview?.limit}.` : "."} Uses the resolution, format,
+          image count and advanced settings above.
+        </p>
+        <div className="actions">
+          <button
+            className="primary"
+            type="submit"
+            disabled={isQueueing || total === 0 || overLimit}
+          >
+            {isQueueing ? "Queueing..." : "Queue batch"}
+          </button>
+        </div>
+        {error ? <p className="error">{error}</p> : null}
+      </form>
+      {recent.length > 0 ? (
+        <ul className="batch-list">
+          {recent.map((batch) => (
+            <li key={batch._id}>
+              <button
+                className="ghost"
+                type="button"
+                onClick={() => navigate(batchPath(batch._id))}
+              >
+                Open
+              </button>
+              <span className="batch-list-prompt">{batch.prompts[0]}</span>
+              <span>
+                {batch.progress.done}/{batch.progress.total} done
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </details>
+  );
+}
+
+export default BatchForm;
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convexApi";
+import { generationPath, navigate } from "../routes";
+
+type BatchCell = {
+  _id: string;
+  cell: { prompt: number; aspectRatio: number; provider: number; seed: number };
+  status: string;
+  error?: string;
+  thumbnailUrl: string | null;
+};
+
+type BatchDetail = {
+  _id: string;
+  prompts: string[];
+  aspectRatios: string[];
+  providers: string[];
+  seeds: (number | null)[];
+  progress: { total: number; done: number; active: number; counts: Record<string, number> };
+  cells: BatchCell[];
+};
+
+type BatchViewProps = {
+  id: string;
+  onClose: () => void;
+};
+
+type Column = { aspectRatio: number; provider: number; seed: number; label: string };
+
+const cellKey = (prompt: number, column: Omit<Column, "label">) =>
+  `${prompt}:${column.aspectRatio}:${column.provider}:${column.seed}`;
+
+/** Columns cross provider × aspect ratio × seed; rows are the expanded prompts. */
+const buildColumns = (batch: BatchDetail) => {
+  const columns: Column[] = [];
+  batch.providers.forEach((provider, providerIndex) => {
+    batch.aspectRatios.forEach((aspectRatio, aspectRatioIndex) => {
+      batch.seeds.forEach((seed, seedIndex) => {
+        columns.push({
+          provider: providerIndex,
+          aspectRatio: aspectRatioIndex,
+          seed: seedIndex,
+          label: [provider, aspectRatio, seed === null ? null : `seed ${seed}`]
+            .filter(Boolean)
+            .join(" · "),
+        });
+      });
+    });
+  });
+  return columns;
+};
+
+function BatchView({ id, onClose }: BatchViewProps) {
+  const batch = useQuery(api.batches.get, { id }) as BatchDetail | null | undefined;
+  const cancelBatch = useMutation(api.batches.cancel);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCancel = async () => {
+    try {
+      await cancelBatch({ id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to cancel batch.");
+    }
+  };
+
+  const cells = new Map(batch?.cells.map((cell) => [cellKey(cell.cell.prompt, cell.cell), cell]));
+  const columns = batch ? buildColumns(batch) : [];
+  const percent = batch ? Math.round((batch.progress.done / batch.progress.total) * 100) : 0;
+
+  return (
+    <div className="lightbox" role="dialog" aria-modal="true" aria-label="Batch">
+      <div className="lightbox-body">
+        <div className="lightbox-toolbar">
+          <button className="ghost" type="button" onClick={onClose}>
+            Close
+          </button>
+          <button
+            className="ghost"
+            type="button"
+            onClick={handleCancel}
+            disabled={!batch || batch.progress.active === 0}
+          >
+            Cancel remaining
+          </button>
+          {batch ? (
+            <span className="status-pill">
+              {batch.progress.done}/{batch.progress.total} done ·{" "}
+              {Object.entries(batch.progress.counts)
+                .map(([status, count]) => `${count} ${status}`)
+                .join(" · ")}
+            </span>
+          ) : null}
+        </div>
+
+        {batch === undefined ? (
+          <p className="lightbox-message">Loading batch...</p>
+        ) : batch === null ? (
+          <p className="lightbox-message">This batch does not exist or is not shared with you.</p>
+        ) : (
+          <div className="batch-view">
+            <div className="batch-progress" aria-label={`${percent}% done`}>
+              <span style={{ width: `${percent}%` }} />
+            </div>
+            {error ? <p className="error">{error}</p> : null}
+            <div className="batch-grid-scroll">
+              <table className="batch-grid">
+                <thead>
+                  <tr>
+                    <th>Prompt</th>
+                    {columns.map((column) => (
+                      <th key={column.label}>{column.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {batch.prompts.map((prompt, promptIndex) => (
+                    <tr key={prompt}>
+                      <th>{prompt}</th>
+                      {columns.map((column) => {
+                        const cell = cells.get(cellKey(promptIndex, column));
+                        return (
+                          <td key={column.label}>
+                            {cell?.thumbnailUrl ? (
+                              <a
+                                href={generationPath(cell._id)}
+                                onClick={(event) => {
+                                  event.preventDefault();
+                                  navigate(generationPath(cell._id));
+                                }}
+                              >
+                                <img src={cell.thumbnailUrl} alt={prompt} />
+                              </a>
+                            ) : (
+                              <span
+                                className={`status status--${cell?.status ?? "queued"}`}
+                                title={cell?.error}
+                              >
+                                {cell?.status ?? "missing"}
+                              </span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BatchView;
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "../convexApi";
+import type { CollectionDetail, OutputTile } from "../convexApi";
+import { FAVORITES_BOARD } from "../galleryFilters";
+import { generationPath, navigate } from "../routes";
+import RatingControl from "./RatingControl";
+import ShareButton from "./ShareButton";
+
+const FAVORITES_PAGE_SIZE = 24;
+
+type BoardViewProps = {
+  board: string;
+  /** Called after the open collection is deleted, to go back to the feed. */
+  onClose: () => void;
+};
+
+function TileImage({ tile }: { tile: OutputTile }) {
+  return (
+    <a
+      className="board-tile-image"
+      href={generationPath(tile.imageId)}
+      style={{ aspectRatio: tile.aspectRatio.replace(":", " / ") }}
+      onClick={(event) => {
+        event.preventDefault();
+        navigate(generationPath(tile.imageId));
+      }}
+    >
+      {tile.thumbnailUrl ? <img src={tile.thumbnailUrl} alt={tile.prompt} loading="lazy" /> : null}
+    </a>
+  );
+}
+
+function FavoritesBoard() {
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.ratings.favorites,
+    {},
+    { initialNumItems: FAVORITES_PAGE_SIZE }
+  );
+
+  if (results.length === 0) {
+    return (
+      <div className="empty-state">
+        {status === "LoadingFirstPage" ? (
+          <h3>Loading favorites...</h3>
+        ) : (
+          <>
+            <h3>No favorites yet</h3>
+            <p>Tap the heart on any image to keep it here.</p>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="board-grid">
+        {results.map((tile) => (
+          <article key={`${tile.imageId}:${tile.outputIndex}`} className="board-tile">
+            <TileImage tile={tile} />
+            <p className="board-tile-prompt">{tile.prompt}</p>
+            <RatingControl
+              imageId={tile.imageId}
+              outputIndex={tile.outputIndex}
+              favorite
+              rating={tile.rating}
+            />
+          </article>
+        ))}
+      </div>
+      {status === "CanLoadMore" ? (
+        <div className="gallery-more">
+          <button className="ghost" type="button" onClick={() => loadMore(FAVORITES_PAGE_SIZE)}>
+            Load more
+          </button>
+        </div>
+      ) : null}
+    </>
+  );
+}
+
+function CollectionBoard({
+  collection,
+  onClose,
+}: {
+  collection: CollectionDetail;
+  onClose: () => void;
+}) {
+  const updateCollection = useMutation(api.collections.update);
+  const removeCollection = useMutation(api.collections.remove);
+  const removeItem = useMutation(api.collections.removeItem);
+  const reorder = useMutation(api.collections.reorder);
+  const setCover = useMutation(api.collections.setCover);
+  const [name, setName] = useState(collection.name);
+  const [description, setDescription] = useState(collection.description ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  const handleRename = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void run(
+      () => updateCollection({ id: collection._id, name, description }),
+      "Unable to save the collection."
+    );
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the "${collection.name}" collection? Its images stay put.`)) {
+      return;
+    }
+    void run(async () => {
+      await removeCollection({ id: collection._id });
+      onClose();
+    }, "Unable to delete the collection.");
+  };
+
+  const move = (index: number, offset: number) => {
+    const itemIds = collection.items.map((item) => item.itemId);
+    const target = index + offset;
+    [itemIds[index], itemIds[target]] = [itemIds[target], itemIds[index]];
+    void run(() => reorder({ id: collection._id, itemIds }), "Unable to reorder the collection.");
+  };
+
+  const coverItemId = collection.coverItemId ?? collection.items[0]?.itemId;
+
+  return (
+    <>
+      <form className="board-header" onSubmit={handleRename}>
+        <input
+          type="text"
+          aria-label="Collection name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <input
+          type="text"
+          aria-label="Description"
+          placeholder="Description"
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+        />
+        <button className="ghost" type="submit" disabled={!name.trim()}>
+          Save
+        </button>
+        <ShareButton collectionId={collection._id} />
+        <button className="ghost" type="button" onClick={handleDelete}>
+          Delete collection
+        </button>
+      </form>
+      {error ? <p className="error">{error}</p> : null}
+      {collection.items.length === 0 ? (
+        <div className="empty-state">
+          <h3>This collection is empty</h3>
+          <p>Use "Add to collection" on a card or in the lightbox to fill it.</p>
+        </div>
+      ) : (
+        <div className="board-grid">
+          {collection.items.map((item, index) => (
+            <article key={item.itemId} className="board-tile">
+              <TileImage tile={item} />
+              <p className="board-tile-prompt">{item.prompt}</p>
+              <div className="card-actions">
+                <button
+                  className="ghost"
+                  type="button"
+                  aria-label="Move earlier"
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                >
+                  ←
+                </button>
+                <button
+                  className="ghost"
+                  type="button"
+                  aria-label="Move later"
+                  disabled={index === collection.items.length - 1}
+                  onClick={() => move(index, 1)}
+                >
+                  →
+                </button>
+                <button
+                  className="ghost"
+                  type="button"
+                  disabled={item.itemId === coverItemId}
+                  onClick={() =>
+                    void run(
+                      () => setCover({ id: collection._id, itemId: item.itemId }),
+                      "Unable to set the cover."
+                    )
+                  }
+                >
+                  {item.itemId === coverItemId ? "Cover" : "Make cover"}
+                </button>
+                <button
+                  className="ghost"
+                  type="button"
+                  onClick={() =>
+                    void run(
+                      () => removeItem({ itemId: item.itemId }),
+                      "Unable to remove the image."
+                    )
+                  }
+                >
+                  Remove
+                </button>
+              </div>
+            </article>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+function CollectionLoader({ id, onClose }: { id: string; onClose: () => void }) {
+  const collection = useQuery(api.collections.get, { id });
+
+  if (collection === undefined) {
+    return (
+      <div className="empty-state">
+        <h3>Loading collection...</h3>
+      </div>
+    );
+  }
+  if (collection === null) {
+    return (
+      <div className="empty-state">
+        <h3>Collection not found</h3>
+        <p>It may have been deleted.</p>
+      </div>
+    );
+  }
+  return <CollectionBoard collection={collection} onClose={onClose} />;
+}
+
+/** The favorites board or one collection, shown in place of the generation feed. */
+function BoardView({ board, onClose }: BoardViewProps) {
+  return board === FAVORITES_BOARD ? (
+    <FavoritesBoard />
+  ) : (
+    <CollectionLoader key={board} id={board} onClose={onClose} />
+  );
+}
+
+export default BoardView;
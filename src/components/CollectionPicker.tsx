@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../convexApi";
+import type { Collection } from "../convexApi";
+
+type CollectionPickerProps = {
+  collections: Collection[];
+  imageId: string;
+  outputIndex: number;
+};
+
+/** Adds one output to a collection; the select resets once the item is saved. */
+function CollectionPicker({ collections, imageId, outputIndex }: CollectionPickerProps) {
+  const addItem = useMutation(api.collections.addItem);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (collections.length === 0) {
+    return null;
+  }
+
+  const handleAdd = async (collectionId: string) => {
+    if (!collectionId) {
+      return;
+    }
+    const collection = collections.find((option) => option._id === collectionId);
+    try {
+      await addItem({ id: collectionId, imageId, outputIndex });
+      setMessage(`Added to ${collection?.name ?? "the collection"}.`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Unable to add to the collection.");
+    }
+  };
+
+  return (
+    <select
+      className="collection-picker"
+      aria-label="Add to collection"
+      title={message ?? undefined}
+      value=""
+      onChange={(event) => void handleAdd(event.target.value)}
+    >
+      <option value="">Add to collection…</option>
+      {collections.map((collection) => (
+        <option key={collection._id} value={collection._id}>
+          {collection.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default CollectionPicker;
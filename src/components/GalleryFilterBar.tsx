@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { emptyGalleryFilters, hasActiveFilters } from "../galleryFilters";
+import type { GalleryFilterState } from "../galleryFilters";
+
+type FilterProvider = {
+  id: string;
+  label: string;
+  models: string[];
+};
+
+type GalleryFilterBarProps = {
+  filters: GalleryFilterState;
+  providers: FilterProvider[];
+  aspectRatios: string[];
+  statuses: string[];
+  onChange: (filters: GalleryFilterState) => void;
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+function GalleryFilterBar({
+  filters,
+  providers,
+  aspectRatios,
+  statuses,
+  onChange,
+}: GalleryFilterBarProps) {
+  const [searchDraft, setSearchDraft] = useState(filters.search);
+
+  useEffect(() => {
+    if (searchDraft === filters.search) {
+      return;
+    }
+    const timeout = window.setTimeout(
+      () => onChange({ ...filters, search: searchDraft }),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => window.clearTimeout(timeout);
+  }, [searchDraft, filters, onChange]);
+
+  const update = (key: keyof GalleryFilterState, value: string) => {
+    onChange({ ...filters, [key]: value });
+  };
+
+  const models = (
+    filters.provider ? providers.filter((provider) => provider.id === filters.provider) : providers
+  ).flatMap((provider) => provider.models);
+
+  return (
+    <div className="filter-bar">
+      <label className="field filter-search">
+        <span>Search prompts</span>
+        <input
+          type="search"
+          placeholder="neon, portrait, watercolor..."
+          value={searchDraft}
+          onChange={(event) => setSearchDraft(event.target.value)}
+        />
+      </label>
+      <label className="field">
+        <span>Provider</span>
+        <select
+          value={filters.provider}
+          onChange={(event) => update("provider", event.target.value)}
+        >
+          <option value="">All</option>
+          {providers.map((provider) => (
+            <option key={provider.id} value={provider.id}>
+              {provider.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="field">
+        <span>Model</span>
+        <select value={filters.model} onChange={(event) => update("model", event.target.value)}>
+          <option value="">All</option>
+          {models.map((model) => (
+            <option key={model} value={model}>
+              {model}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="field">
+        <span>Status</span>
+        <select value={filters.status} onChange={(event) => update("status", event.target.value)}>
+          <option value="">All</option>
+          {statuses.map((status) => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="field">
+        <span>Aspect</span>
+        <select
+          value={filters.aspectRatio}
+          onChange={(event) => update("aspectRatio", event.target.value)}
+        >
+          <option value="">All</option>
+          {aspectRatios.map((ratio) => (
+            <option key={ratio} value={ratio}>
+              {ratio}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="field">
+        <span>From</span>
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(event) => update("from", event.target.value)}
+        />
+      </label>
+      <label className="field">
+        <span>To</span>
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(event) => update("to", event.target.value)}
+        />
+      </label>
+      {hasActiveFilters(filters) ? (
+        <button
+          className="ghost filter-clear"
+          type="button"
+          onClick={() => {
+            setSearchDraft("");
+            onChange({
+              ...emptyGalleryFilters,
+              workspace: filters.workspace,
+              trash: filters.trash,
+            });
+          }}
+        >
+          Clear
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+export default GalleryFilterBar;
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../convexApi";
+import type { Collection } from "../convexApi";
+import { FAVORITES_BOARD } from "../galleryFilters";
+
+type GallerySidebarProps = {
+  collections: Collection[];
+  selected: string;
+  onSelect: (board: string) => void;
+};
+
+/** Switches the gallery between the feed, favorites and each collection. */
+function GallerySidebar({ collections, selected, onSelect }: GallerySidebarProps) {
+  const createCollection = useMutation(api.collections.create);
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draft.trim()) {
+      return;
+    }
+    try {
+      const collectionId = (await createCollection({ name: draft })) as string;
+      setDraft("");
+      setError(null);
+      onSelect(collectionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to create the collection.");
+    }
+  };
+
+  const boardButton = (board: string, label: string, detail?: string) => (
+    <button
+      className={`sidebar-item${selected === board ? " is-active" : ""}`}
+      type="button"
+      onClick={() => onSelect(board)}
+    >
+      <span>{label}</span>
+      {detail ? <span className="sidebar-count">{detail}</span> : null}
+    </button>
+  );
+
+  return (
+    <nav className="gallery-sidebar" aria-label="Gallery views">
+      {boardButton("", "All")}
+      {boardButton(FAVORITES_BOARD, "Favorites")}
+      <span className="sidebar-heading">Collections</span>
+      {collections.map((collection) => (
+        <div key={collection._id} className="sidebar-collection">
+          {collection.coverUrl ? <img src={collection.coverUrl} alt="" /> : null}
+          {boardButton(collection._id, collection.name, String(collection.itemCount))}
+        </div>
+      ))}
+      <form className="sidebar-form" onSubmit={handleCreate}>
+        <input
+          type="text"
+          placeholder="New collection"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+        />
+        <button className="ghost" type="submit" disabled={!draft.trim()}>
+          Add
+        </button>
+      </form>
+      {error ? <p className="error">{error}</p> : null}
+    </nav>
+  );
+}
+
+export default GallerySidebar;
@@ -0,0 +1,420 @@
+import { useEffect, useRef, useState } from "react";
+import type { PointerEvent, WheelEvent } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../convexApi";
+import type { OutputRating } from "../convexApi";
+import CollectionPicker from "./CollectionPicker";
+import RatingControl from "./RatingControl";
+
+type DetailOutput = {
+  url: string | null;
+  width?: number;
+  height?: number;
+  contentType?: string;
+  byteSize?: number;
+  upscaler?: string;
+};
+
+type DetailGeneration = {
+  _id: string;
+  prompt: string;
+  status: string;
+  model: string;
+  provider?: string;
+  mode?: string;
+  aspectRatio: string;
+  resolution: string;
+  outputFormat: string;
+  numImages: number;
+  parameters?: Record<string, string | number | undefined>;
+  requestId?: string;
+  error?: string;
+  moderation?: { action: string; reasons: string[] };
+  template?: { name: string; version: number; preset?: string };
+  cost?: number;
+  estimatedCost?: number;
+  createdAt: number;
+  startedAt?: number;
+  completedAt?: number;
+  outputs: DetailOutput[];
+  ratings?: OutputRating[];
+};
+
+type GenerationDetailProps = {
+  id: string;
+  onClose: () => void;
+};
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+const ZOOM_STEP = 1.25;
+
+const extensions: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+const clampZoom = (value: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value));
+
+const formatDuration = (from?: number, to?: number) =>
+  from !== undefined && to !== undefined ? `${((to - from) / 1000).toFixed(1)}s` : "—";
+
+const formatBytes = (bytes?: number) =>
+  bytes === undefined ? "—" : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const downloadOutput = async (
+  generation: DetailGeneration,
+  output: DetailOutput,
+  index: number
+) => {
+  if (!output.url) {
+    return;
+  }
+  const response = await fetch(output.url);
+  const blob = await response.blob();
+  const extension =
+    extensions[output.contentType ?? blob.type] ?? generation.outputFormat.replace("jpeg", "jpg");
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = `generation-${generation._id}-${index + 1}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(href);
+};
+
+function GenerationDetail({ id, onClose }: GenerationDetailProps) {
+  const generation = useQuery(api.images.get, { id }) as DetailGeneration | null | undefined;
+  const collections = useQuery(api.collections.list, {}) ?? [];
+  const [index, setIndex] = useState(0);
+  const [compareIndex, setCompareIndex] = useState<number | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [copied, setCopied] = useState(false);
+  const dragStart = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+
+  const outputs = generation?.outputs ?? [];
+  const outputCount = outputs.length;
+  const currentRating = generation?.ratings?.find((entry) => entry.outputIndex === index);
+
+  const resetView = () => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const step = (delta: number) => {
+    if (outputCount === 0) {
+      return;
+    }
+    setIndex((current) => (current + delta + outputCount) % outputCount);
+    resetView();
+  };
+
+  const toggleCompare = () => {
+    setCompareIndex((current) =>
+      current === null && outputCount > 1 ? (index + 1) % outputCount : null
+    );
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) {
+        return;
+      }
+      if (event.key === "Escape") {
+        onClose();
+      } else if (event.key === "ArrowRight") {
+        step(1);
+      } else if (event.key === "ArrowLeft") {
+        step(-1);
+      } else if (event.key === "+" || event.key === "=") {
+        setZoom((current) => clampZoom(current * ZOOM_STEP));
+      } else if (event.key === "-") {
+        setZoom((current) => clampZoom(current / ZOOM_STEP));
+      } else if (event.key === "0") {
+        resetView();
+      } else if (event.key === "c") {
+        toggleCompare();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const handleWheel = (event: WheelEvent<HTMLDivElement>) => {
+    const next = clampZoom(event.deltaY < 0 ? zoom * ZOOM_STEP : zoom / ZOOM_STEP);
+    setZoom(next);
+    if (next === 1) {
+      setOffset({ x: 0, y: 0 });
+    }
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (zoom === 1) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = {
+      x: event.clientX,
+      y: event.clientY,
+      offsetX: offset.x,
+      offsetY: offset.y,
+    };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) {
+      return;
+    }
+    setOffset({
+      x: start.offsetX + event.clientX - start.x,
+      y: start.offsetY + event.clientY - start.y,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleCopyPrompt = async () => {
+    if (!generation) {
+      return;
+    }
+    await navigator.clipboard.writeText(generation.prompt);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1500);
+  };
+
+  const renderStage = (position: number) => {
+    const output = outputs[position];
+    return (
+      <div
+        className={`lightbox-stage ${zoom > 1 ? "lightbox-stage--zoomed" : ""}`}
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {output?.url ? (
+          <img
+            src={output.url}
+            alt={`${generation?.prompt ?? "Generation"} (${position + 1} of ${outputCount})`}
+            draggable={false}
+            style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})` }}
+          />
+        ) : (
+          <div className="image-placeholder">No image</div>
+        )}
+        <span className="count">
+          {position + 1}/{outputCount}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="lightbox" role="dialog" aria-modal="true" aria-label="Generation detail">
+      <div className="lightbox-body">
+        <div className="lightbox-toolbar">
+          <button className="ghost" type="button" onClick={onClose}>
+            Close
+          </button>
+          <button
+            className="ghost"
+            type="button"
+            onClick={() => step(-1)}
+            disabled={outputCount < 2}
+          >
+            ← Prev
+          </button>
+          <button
+            className="ghost"
+            type="button"
+            onClick={() => step(1)}
+            disabled={outputCount < 2}
+          >
+            Next →
+          </button>
+          <button
+            className="ghost"
+            type="button"
+            onClick={() => setZoom((current) => clampZoom(current * ZOOM_STEP))}
+          >
+            Zoom +
+          </button>
+          <button
+            className="ghost"
+            type="button"
+            onClick={() => setZoom((current) => clampZoom(current / ZOOM_STEP))}
+          >
+            Zoom −
+          </button>
+          <button className="ghost" type="button" onClick={resetView}>
+            Fit
+          </button>
+          <button
+            className="ghost"
+            type="button"
+            onClick={toggleCompare}
+            disabled={outputCount < 2}
+            aria-pressed={compareIndex !== null}
+          >
+            Compare
+          </button>
+          {compareIndex !== null ? (
+            <select
+              value={compareIndex}
+              onChange={(event) => setCompareIndex(Number(event.target.value))}
+              aria-label="Compare with"
+            >
+              {outputs.map((_, position) => (
+                <option key={position} value={position}>
+                  Image {position + 1}
+                </option>
+              ))}
+            </select>
+          ) : null}
+        </div>
+
+        {generation === undefined ? (
+          <p className="lightbox-message">Loading generation...</p>
+        ) : generation === null ? (
+          <p className="lightbox-message">
+            This generation does not exist or is not shared with you.
+          </p>
+        ) : (
+          <div className="lightbox-content">
+            <div
+              className={`lightbox-stages ${compareIndex !== null ? "lightbox-stages--compare" : ""}`}
+            >
+              {renderStage(index)}
+              {compareIndex !== null ? renderStage(compareIndex) : null}
+            </div>
+            {outputCount > 1 ? (
+              <div className="lightbox-strip">
+                {outputs.map((output, position) => (
+                  <button
+                    key={position}
+                    type="button"
+                    className={position === index ? "lightbox-thumb--active" : ""}
+                    onClick={() => {
+                      setIndex(position);
+                      resetView();
+                    }}
+                  >
+                    {output.url ? (
+                      <img src={output.url} alt={`Image ${position + 1}`} />
+                    ) : (
+                      position + 1
+                    )}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+            <aside className="lightbox-meta">
+              <p className="prompt">{generation.prompt}</p>
+              <div className="card-actions">
+                <button className="ghost" type="button" onClick={handleCopyPrompt}>
+                  {copied ? "Copied" : "Copy prompt"}
+                </button>
+                <button
+                  className="ghost"
+                  type="button"
+                  onClick={() => downloadOutput(generation, outputs[index], index)}
+                  disabled={!outputs[index]?.url}
+                >
+                  Download
+                </button>
+              </div>
+              {outputs[index] ? (
+                <div className="card-actions">
+                  <RatingControl
+                    imageId={generation._id}
+                    outputIndex={index}
+                    favorite={currentRating?.favorite ?? false}
+                    rating={currentRating?.rating}
+                  />
+                  <CollectionPicker
+                    collections={collections}
+                    imageId={generation._id}
+                    outputIndex={index}
+                  />
+                </div>
+              ) : null}
+              <dl>
+                <dt>Status</dt>
+                <dd>{generation.status}</dd>
+                <dt>Provider</dt>
+                <dd>{generation.provider ?? "fal"}</dd>
+                <dt>Model</dt>
+                <dd>{generation.model}</dd>
+                <dt>Mode</dt>
+                <dd>{generation.mode ?? "text-to-image"}</dd>
+                <dt>Settings</dt>
+                <dd>
+                  {generation.aspectRatio} · {generation.resolution} ·{" "}
+                  {generation.outputFormat.toUpperCase()} · {generation.numImages} image(s)
+                </dd>
+                <dt>Parameters</dt>
+                <dd>
+                  {Object.entries(generation.parameters ?? {})
+                    .map(([key, value]) => `${key}: ${value}`)
+                    .join(" · ") || "—"}
+                </dd>
+                <dt>Request id</dt>
+                <dd>{generation.requestId ?? "—"}</dd>
+                {generation.template ? (
+                  <>
+                    <dt>Template</dt>
+                    <dd>
+                      {generation.template.name} v{generation.template.version}
+                      {generation.template.preset ? ` · ${generation.template.preset}` : ""}
+                    </dd>
+                  </>
+                ) : null}
+                {generation.moderation ? (
+                  <>
+                    <dt>Moderation</dt>
+                    <dd>
+                      {generation.moderation.action}: {generation.moderation.reasons.join(" ")}
+                    </dd>
+                  </>
+                ) : null}
+                <dt>Created</dt>
+                <dd>{new Date(generation.createdAt).toLocaleString()}</dd>
+                <dt>Queued for</dt>
+                <dd>{formatDuration(generation.createdAt, generation.startedAt)}</dd>
+                <dt>Rendered in</dt>
+                <dd>{formatDuration(generation.startedAt, generation.completedAt)}</dd>
+                <dt>Cost</dt>
+                <dd>
+                  {generation.cost !== undefined || generation.estimatedCost !== undefined
+                    ? `$${(generation.cost ?? generation.estimatedCost ?? 0).toFixed(2)}`
+                    : "—"}
+                </dd>
+                <dt>Image</dt>
+                <dd>
+                  {outputs[index]?.width && outputs[index]?.height
+                    ? `${outputs[index].width}×${outputs[index].height}`
+                    : "—"}{" "}
+                  · {outputs[index]?.contentType ?? "—"} · {formatBytes(outputs[index]?.byteSize)}
+                </dd>
+                {outputs[index]?.upscaler ? (
+                  <>
+                    <dt>Upscaled with</dt>
+                    <dd>{outputs[index].upscaler}</dd>
+                  </>
+                ) : null}
+              </dl>
+              {generation.error ? <p className="error">{generation.error}</p> : null}
+            </aside>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default GenerationDetail;
@@ -0,0 +1,82 @@
+import { useQuery } from "convex/react";
+import { api } from "../convexApi";
+
+type LineageNode = {
+  _id: string;
+  parentId?: string;
+  prompt: string;
+  status: string;
+  parameters?: { seed?: number };
+  createdAt: number;
+  thumbnailUrl: string | null;
+};
+
+type LineagePanelProps = {
+  imageId: string;
+  onClose: () => void;
+};
+
+const renderBranch = (
+  node: LineageNode,
+  children: Map<string, LineageNode[]>,
+  highlightId: string
+) => (
+  <li key={node._id}>
+    <div className={`lineage-node ${node._id === highlightId ? "lineage-node--current" : ""}`}>
+      {node.thumbnailUrl ? (
+        <img src={node.thumbnailUrl} alt={node.prompt} />
+      ) : (
+        <span className="lineage-thumb">{node.status}</span>
+      )}
+      <div>
+        <p>{node.prompt}</p>
+        <span>
+          {new Date(node.createdAt).toLocaleString()}
+          {node.parameters?.seed !== undefined ? ` · Seed ${node.parameters.seed}` : ""}
+        </span>
+      </div>
+    </div>
+    {children.get(node._id)?.length ? (
+      <ul>{children.get(node._id)!.map((child) => renderBranch(child, children, highlightId))}</ul>
+    ) : null}
+  </li>
+);
+
+function LineagePanel({ imageId, onClose }: LineagePanelProps) {
+  const nodes = useQuery(api.images.lineage, { id: imageId }) as LineageNode[] | undefined;
+
+  const ids = new Set(nodes?.map((node) => node._id));
+  const children = new Map<string, LineageNode[]>();
+  const roots: LineageNode[] = [];
+  for (const node of nodes ?? []) {
+    // Parents hidden from this user (not shared with them) promote their children to roots.
+    if (node.parentId && ids.has(node.parentId)) {
+      children.set(node.parentId, [...(children.get(node.parentId) ?? []), node]);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return (
+    <div className="lineage-panel">
+      <div className="panel__header">
+        <div>
+          <h3>Lineage</h3>
+          <p>Every remix and variation that grew from the original prompt.</p>
+        </div>
+        <button className="ghost" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {nodes === undefined ? (
+        <p>Loading lineage...</p>
+      ) : (
+        <ul className="lineage-tree">
+          {roots.map((root) => renderBranch(root, children, imageId))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default LineagePanel;
@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../convexApi";
+
+type RatingControlProps = {
+  imageId: string;
+  outputIndex: number;
+  favorite: boolean;
+  rating?: number;
+};
+
+const STARS = [1, 2, 3, 4, 5];
+
+/** Favorite toggle and 1-5 stars for one output; clicking the current star clears it. */
+function RatingControl({ imageId, outputIndex, favorite, rating }: RatingControlProps) {
+  const setRating = useMutation(api.ratings.set);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (fields: { favorite?: boolean; rating?: number }) => {
+    try {
+      setError(null);
+      await setRating({ imageId, outputIndex, ...fields });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save the rating.");
+    }
+  };
+
+  return (
+    <div className="rating-control" title={error ?? undefined}>
+      <button
+        className={`favorite-toggle${favorite ? " is-active" : ""}`}
+        type="button"
+        aria-pressed={favorite}
+        aria-label={favorite ? "Remove from favorites" : "Add to favorites"}
+        onClick={() => void save({ favorite: !favorite })}
+      >
+        {favorite ? "♥" : "♡"}
+      </button>
+      {STARS.map((star) => (
+        <button
+          key={star}
+          className={`rating-star${rating !== undefined && star <= rating ? " is-active" : ""}`}
+          type="button"
+          aria-label={`${star} star${star === 1 ? "" : "s"}`}
+          onClick={() => void save({ rating: star === rating ? 0 : star })}
+        >
+          ★
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default RatingControl;
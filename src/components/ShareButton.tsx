@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../convexApi";
+
+type ShareButtonProps = {
+  /** Exactly one of the two is set. */
+  imageId?: string;
+  collectionId?: string;
+};
+
+const EXPIRY_OPTIONS = [
+  { days: 0, label: "Never expires" },
+  { days: 1, label: "Expires in 1 day" },
+  { days: 7, label: "Expires in 7 days" },
+  { days: 30, label: "Expires in 30 days" },
+];
+
+/** Creates a public link to a generation or collection and copies it to the clipboard. */
+function ShareButton({ imageId, collectionId }: ShareButtonProps) {
+  const createShare = useMutation(api.shares.create);
+  const [isOpen, setIsOpen] = useState(false);
+  const [hidePrompt, setHidePrompt] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+  const [link, setLink] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setMessage(null);
+    try {
+      const share = await createShare({
+        imageId,
+        collectionId,
+        hidePrompt,
+        expiresInDays: expiresInDays || undefined,
+      });
+      if (!share.url) {
+        setMessage("This deployment has no site URL to link to.");
+        return;
+      }
+      setLink(share.url);
+      try {
+        await navigator.clipboard.writeText(share.url);
+        setMessage("Link copied.");
+      } catch {
+        setMessage("Copy the link below.");
+      }
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Unable to create the link.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <span className="share-button">
+      <button
+        className="ghost"
+        type="button"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        Share
+      </button>
+      {isOpen ? (
+        <div className="share-popover">
+          <label className="chip">
+            <input
+              type="checkbox"
+              checked={hidePrompt}
+              onChange={(event) => setHidePrompt(event.target.checked)}
+            />
+            Hide prompt
+          </label>
+          <select
+            aria-label="Link expiry"
+            value={expiresInDays}
+            onChange={(event) => setExpiresInDays(Number(event.target.value))}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            className="primary"
+            type="button"
+            onClick={() => void handleCreate()}
+            disabled={isCreating}
+          >
+            {isCreating ? "Creating..." : "Create link"}
+          </button>
+          {link ? (
+            <input
+              type="text"
+              aria-label="Share link"
+              readOnly
+              value={link}
+              onFocus={(event) => event.target.select()}
+            />
+          ) : null}
+          {message ? <p className="provider-note">{message}</p> : null}
+        </div>
+      ) : null}
+    </span>
+  );
+}
+
+export default ShareButton;
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convexApi";
+import type { ShareSummary } from "../convexApi";
+
+const describeShare = (share: ShareSummary) =>
+  [
+    `${share.views} ${share.views === 1 ? "view" : "views"}`,
+    share.lastViewedAt ? `last ${new Date(share.lastViewedAt).toLocaleDateString()}` : null,
+    share.expiresAt ? `expires ${new Date(share.expiresAt).toLocaleDateString()}` : null,
+    share.hidePrompt ? "prompt hidden" : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+/** The caller's public links that still work, with view counts and a revoke action. */
+function SharesPanel() {
+  const shares = useQuery(api.shares.list) ?? [];
+  const revokeShare = useMutation(api.shares.revoke);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRevoke = async (share: ShareSummary) => {
+    if (!window.confirm("Revoke this link? Anyone who has it will no longer see the images.")) {
+      return;
+    }
+    try {
+      setError(null);
+      await revokeShare({ id: share._id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to revoke the link.");
+    }
+  };
+
+  return (
+    <details className="advanced shares-panel">
+      <summary>Shared links ({shares.length})</summary>
+      {shares.length === 0 ? (
+        <p className="provider-note shares-empty">
+          Use "Share" on a card or a collection to create a public link.
+        </p>
+      ) : (
+        <ul className="batch-list">
+          {shares.map((share) => (
+            <li key={share._id}>
+              <span className="batch-list-prompt">
+                {share.kind === "collection" ? "Collection: " : ""}
+                {share.url ? (
+                  <a href={share.url} target="_blank" rel="noreferrer">
+                    {share.title}
+                  </a>
+                ) : (
+                  share.title
+                )}
+              </span>
+              <span>{describeShare(share)}</span>
+              <button className="ghost" type="button" onClick={() => void handleRevoke(share)}>
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error ? <p className="error">{error}</p> : null}
+    </details>
+  );
+}
+
+export default SharesPanel;
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useAuthActions } from "@convex-dev/auth/react";
+import "../App.css";
+
+type Flow = "signIn" | "signUp";
+
+function SignInForm() {
+  const { signIn } = useAuthActions();
+  const [flow, setFlow] = useState<Flow>("signIn");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await signIn("password", { email: email.trim(), password, flow });
+    } catch {
+      setError(
+        flow === "signIn"
+          ? "Email or password is incorrect."
+          : "Could not create that account. Passwords need at least 8 characters."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="app">
+      <div className="frame auth-frame">
+        <form className="panel auth-panel" onSubmit={handleSubmit}>
+          <div className="panel__header">
+            <div>
+              <h2>{flow === "signIn" ? "Sign in" : "Create account"}</h2>
+              <p>Your generations are private until you share them with a workspace.</p>
+            </div>
+          </div>
+          <label className="field">
+            <span>Email</span>
+            <input
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              required
+            />
+          </label>
+          <label className="field">
+            <span>Password</span>
+            <input
+              type="password"
+              autoComplete={flow === "signIn" ? "current-password" : "new-password"}
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              required
+            />
+          </label>
+          <div className="actions">
+            <button className="primary" type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Working..." : flow === "signIn" ? "Sign in" : "Sign up"}
+            </button>
+            <button
+              className="ghost"
+              type="button"
+              onClick={() => setFlow((current) => (current === "signIn" ? "signUp" : "signIn"))}
+            >
+              {flow === "signIn" ? "Need an account?" : "Have an account?"}
+            </button>
+          </div>
+          {error ? <p className="error">{error}</p> : null}
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default SignInForm;
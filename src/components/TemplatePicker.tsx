@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../convexApi";
+import type { PromptTemplate } from "../convexApi";
+
+export type AppliedTemplate = {
+  name: string;
+  prompt: string;
+  negativePrompt?: string;
+  defaults: PromptTemplate["defaults"];
+  ref: { templateId: string; version: number; preset?: string };
+};
+
+type TemplatePickerProps = {
+  templates: PromptTemplate[];
+  onApply: (applied: AppliedTemplate) => void;
+};
+
+/** Picks a saved template, fills its variables and previews the prompt it renders to. */
+function TemplatePicker({ templates, onApply }: TemplatePickerProps) {
+  const [templateId, setTemplateId] = useState("");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [preset, setPreset] = useState("");
+
+  const template = templates.find((candidate) => candidate._id === templateId);
+  const preview = useQuery(
+    api.templates.preview,
+    template ? { id: template._id, values, preset: preset || undefined } : "skip"
+  );
+
+  const handleSelect = (id: string) => {
+    setTemplateId(id);
+    setValues({});
+    setPreset("");
+  };
+
+  const handleApply = () => {
+    if (!template || !preview) {
+      return;
+    }
+    onApply({
+      name: template.name,
+      prompt: preview.prompt,
+      negativePrompt: preview.negativePrompt,
+      defaults: template.defaults,
+      ref: { templateId: template._id, version: template.version, preset: preset || undefined },
+    });
+  };
+
+  if (templates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="template-picker">
+      <div className="field-row">
+        <label className="field">
+          <span>Template</span>
+          <select value={templateId} onChange={(event) => handleSelect(event.target.value)}>
+            <option value="">None</option>
+            {templates.map((option) => (
+              <option key={option._id} value={option._id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        {template && template.presets.length > 0 ? (
+          <label className="field">
+            <span>Style preset</span>
+            <select value={preset} onChange={(event) => setPreset(event.target.value)}>
+              <option value="">None</option>
+              {template.presets.map((option) => (
+                <option key={option.name} value={option.name}>
+                  {option.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+      </div>
+      {template ? (
+        <>
+          {template.description ? <p className="provider-note">{template.description}</p> : null}
+          {template.variables.length > 0 ? (
+            <div className="template-variables">
+              {template.variables.map((variable) => (
+                <label key={variable.name} className="field">
+                  <span>{variable.name}</span>
+                  <input
+                    type="text"
+                    placeholder={variable.defaultValue ?? ""}
+                    value={values[variable.name] ?? ""}
+                    onChange={(event) =>
+                      setValues((current) => ({ ...current, [variable.name]: event.target.value }))
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+          ) : null}
+          <p className="template-preview">{preview?.prompt ?? "…"}</p>
+          {preview?.negativePrompt ? (
+            <p className="provider-note">Negative prompt: {preview.negativePrompt}</p>
+          ) : null}
+          <div className="actions">
+            <button
+              className="ghost"
+              type="button"
+              onClick={handleApply}
+              disabled={!preview || preview.missing.length > 0}
+            >
+              {preview && preview.missing.length > 0
+                ? `Fill in ${preview.missing.join(", ")}`
+                : "Use template"}
+            </button>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+export default TemplatePicker;
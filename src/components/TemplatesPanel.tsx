@@ -0,0 +1,314 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../convexApi";
+import type { PromptTemplate } from "../convexApi";
+
+type TemplateProvider = {
+  id: string;
+  label: string;
+};
+
+type TemplatesPanelProps = {
+  templates: PromptTemplate[];
+  providers: TemplateProvider[];
+  aspectRatios: string[];
+  resolutions: string[];
+  outputFormats: string[];
+};
+
+type Preset = PromptTemplate["presets"][number];
+type Defaults = PromptTemplate["defaults"];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const variableNames = (body: string) => [
+  ...new Set([...body.matchAll(VARIABLE_PATTERN)].map((match) => match[1])),
+];
+
+const emptyPreset: Preset = { name: "", suffix: "", negativePrompt: "" };
+
+/** A select for one template default; "Keep current" leaves the form's value alone. */
+function DefaultSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value?: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string | undefined) => void;
+}) {
+  return (
+    <label className="field">
+      <span>{label}</span>
+      <select value={value ?? ""} onChange={(event) => onChange(event.target.value || undefined)}>
+        <option value="">Keep current</option>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+/** Create, edit and delete prompt templates with `{{variable}}` placeholders. */
+function TemplatesPanel({
+  templates,
+  providers,
+  aspectRatios,
+  resolutions,
+  outputFormats,
+}: TemplatesPanelProps) {
+  const createTemplate = useMutation(api.templates.create);
+  const updateTemplate = useMutation(api.templates.update);
+  const removeTemplate = useMutation(api.templates.remove);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [body, setBody] = useState("");
+  const [variableDefaults, setVariableDefaults] = useState<Record<string, string>>({});
+  const [defaults, setDefaults] = useState<Defaults>({});
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const variables = variableNames(body);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+    setBody("");
+    setVariableDefaults({});
+    setDefaults({});
+    setPresets([]);
+  };
+
+  const handleEdit = (template: PromptTemplate) => {
+    setEditingId(template._id);
+    setName(template.name);
+    setDescription(template.description ?? "");
+    setBody(template.body);
+    setVariableDefaults(
+      Object.fromEntries(
+        template.variables.map((variable) => [variable.name, variable.defaultValue ?? ""])
+      )
+    );
+    setDefaults(template.defaults);
+    setPresets(template.presets);
+    setError(null);
+  };
+
+  const updatePreset = (index: number, field: keyof Preset, value: string) => {
+    setPresets((current) =>
+      current.map((preset, position) =>
+        position === index ? { ...preset, [field]: value } : preset
+      )
+    );
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    const fields = {
+      name,
+      description,
+      body,
+      variableDefaults: variables.map((variable) => ({
+        name: variable,
+        defaultValue: variableDefaults[variable] || undefined,
+      })),
+      defaults,
+      presets,
+    };
+    try {
+      if (editingId) {
+        await updateTemplate({ id: editingId, ...fields });
+      } else {
+        await createTemplate(fields);
+      }
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save the template.");
+    }
+  };
+
+  const handleRemove = async (template: PromptTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) {
+      return;
+    }
+    try {
+      await removeTemplate({ id: template._id });
+      if (editingId === template._id) {
+        resetForm();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to delete the template.");
+    }
+  };
+
+  const toOptions = (values: string[]) => values.map((value) => ({ value, label: value }));
+
+  return (
+    <details className="advanced templates-panel">
+      <summary>Prompt templates</summary>
+      <form className="prompt-form" onSubmit={handleSubmit}>
+        <p className="provider-note">
+          Write <code>{"{{subject}}"}</code>-style placeholders; the form asks for each one when you
+          pick the template. Saving an edit bumps the version that new generations record.
+        </p>
+        <div className="field-row">
+          <label className="field">
+            <span>Name</span>
+            <input
+              type="text"
+              placeholder="Product hero shot"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+          <label className="field">
+            <span>Description</span>
+            <input
+              type="text"
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+            />
+          </label>
+        </div>
+        <label className="field">
+          <span>Prompt</span>
+          <textarea
+            rows={3}
+            placeholder="A studio photo of {{subject}} on a {{surface}} backdrop"
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+          />
+        </label>
+        {variables.length > 0 ? (
+          <div className="template-variables">
+            {variables.map((variable) => (
+              <label key={variable} className="field">
+                <span>Default {variable}</span>
+                <input
+                  type="text"
+                  value={variableDefaults[variable] ?? ""}
+                  onChange={(event) =>
+                    setVariableDefaults((current) => ({
+                      ...current,
+                      [variable]: event.target.value,
+                    }))
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        ) : null}
+        <div className="field-row">
+          <DefaultSelect
+            label="Provider"
+            value={defaults.provider}
+            options={providers.map((provider) => ({ value: provider.id, label: provider.label }))}
+            onChange={(provider) => setDefaults((current) => ({ ...current, provider }))}
+          />
+          <DefaultSelect
+            label="Aspect ratio"
+            value={defaults.aspectRatio}
+            options={toOptions(aspectRatios)}
+            onChange={(aspectRatio) => setDefaults((current) => ({ ...current, aspectRatio }))}
+          />
+        </div>
+        <div className="field-row">
+          <DefaultSelect
+            label="Resolution"
+            value={defaults.resolution}
+            options={toOptions(resolutions)}
+            onChange={(resolution) => setDefaults((current) => ({ ...current, resolution }))}
+          />
+          <DefaultSelect
+            label="Format"
+            value={defaults.outputFormat}
+            options={toOptions(outputFormats)}
+            onChange={(outputFormat) => setDefaults((current) => ({ ...current, outputFormat }))}
+          />
+        </div>
+        <div className="field">
+          <span>Style presets</span>
+          {presets.map((preset, index) => (
+            <div key={index} className="template-preset">
+              <input
+                type="text"
+                placeholder="Name"
+                value={preset.name}
+                onChange={(event) => updatePreset(index, "name", event.target.value)}
+              />
+              <input
+                type="text"
+                placeholder="Suffix, e.g. soft film grain"
+                value={preset.suffix ?? ""}
+                onChange={(event) => updatePreset(index, "suffix", event.target.value)}
+              />
+              <input
+                type="text"
+                placeholder="Negative prompt"
+                value={preset.negativePrompt ?? ""}
+                onChange={(event) => updatePreset(index, "negativePrompt", event.target.value)}
+              />
+              <button
+                className="ghost"
+                type="button"
+                onClick={() =>
+                  setPresets((current) => current.filter((_, position) => position !== index))
+                }
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            className="ghost"
+            type="button"
+            onClick={() => setPresets((current) => [...current, emptyPreset])}
+          >
+            Add preset
+          </button>
+        </div>
+        <div className="actions">
+          <button className="primary" type="submit" disabled={!name.trim() || !body.trim()}>
+            {editingId ? "Save new version" : "Create template"}
+          </button>
+          {editingId ? (
+            <button className="ghost" type="button" onClick={resetForm}>
+              Cancel edit
+            </button>
+          ) : null}
+        </div>
+        {error ? <p className="error">{error}</p> : null}
+      </form>
+      {templates.length > 0 ? (
+        <ul className="batch-list">
+          {templates.map((template) => (
+            <li key={template._id}>
+              <span className="batch-list-prompt">
+                {template.name} <code>v{template.version}</code>
+              </span>
+              <span>{template.variables.map((variable) => variable.name).join(", ") || "—"}</span>
+              <button className="ghost" type="button" onClick={() => handleEdit(template)}>
+                Edit
+              </button>
+              <button className="ghost" type="button" onClick={() => void handleRemove(template)}>
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </details>
+  );
+}
+
+export default TemplatesPanel;
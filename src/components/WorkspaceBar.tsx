@@ -0,0 +1,79 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../convexApi";
+
+export type WorkspaceOption = {
+  _id: string;
+  name: string;
+  role: string;
+};
+
+type WorkspaceBarProps = {
+  workspaces: WorkspaceOption[];
+  selected: string;
+  onSelect: (workspaceId: string) => void;
+};
+
+function WorkspaceBar({ workspaces, selected, onSelect }: WorkspaceBarProps) {
+  const createWorkspace = useMutation(api.workspaces.create);
+  const addMember = useMutation(api.workspaces.addMember);
+  const [draft, setDraft] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const active = workspaces.find((workspace) => workspace._id === selected);
+  const canInvite = active?.role === "owner";
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const value = draft.trim();
+    if (!value) {
+      return;
+    }
+
+    try {
+      if (canInvite) {
+        await addMember({ workspaceId: selected, email: value });
+        setMessage(`Added ${value} to ${active.name}.`);
+      } else {
+        const workspaceId = (await createWorkspace({ name: value })) as string;
+        onSelect(workspaceId);
+        setMessage(null);
+      }
+      setDraft("");
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Unable to update workspace.");
+    }
+  };
+
+  return (
+    <form className="workspace-bar" onSubmit={handleSubmit}>
+      <label className="field">
+        <span>Gallery</span>
+        <select value={selected} onChange={(event) => onSelect(event.target.value)}>
+          <option value="">My generations</option>
+          {workspaces.map((workspace) => (
+            <option key={workspace._id} value={workspace._id}>
+              {workspace.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="field">
+        <span>{canInvite ? "Add teammate" : "New workspace"}</span>
+        <input
+          type={canInvite ? "email" : "text"}
+          placeholder={canInvite ? "teammate@example.com" : "Team name"}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+        />
+      </label>
+      <button className="ghost" type="submit" disabled={!draft.trim()}>
+        {canInvite ? "Add" : "Create"}
+      </button>
+      {message ? <p className="workspace-message">{message}</p> : null}
+    </form>
+  );
+}
+
+export default WorkspaceBar;
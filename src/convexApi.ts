@@ -1,8 +1,222 @@
 import { makeFunctionReference } from "convex/server";
+import type { PaginationOptions, PaginationResult } from "convex/server";
+import type { toGalleryQueryArgs } from "./galleryFilters";
+
+export type GalleryQueryArgs = ReturnType<typeof toGalleryQueryArgs>;
+
+type Viewer = { _id: string; email: string | null };
+
+type Spend = { today: number; month: number };
+
+export type UsageSummary = {
+  spent: Spend;
+  budgets: {
+    provider: string;
+    label: string;
+    daily?: number;
+    monthly?: number;
+    spent: Spend;
+  }[];
+};
+
+export type PromptTemplate = {
+  _id: string;
+  name: string;
+  description?: string;
+  body: string;
+  variables: { name: string; defaultValue?: string }[];
+  defaults: { provider?: string; aspectRatio?: string; resolution?: string; outputFormat?: string };
+  presets: { name: string; suffix?: string; negativePrompt?: string }[];
+  version: number;
+  updatedAt: number;
+};
+
+export type TemplatePreview = { prompt: string; negativePrompt?: string; missing: string[] };
+
+export type OutputRating = { outputIndex: number; favorite: boolean; rating?: number };
+
+/** One output as favorites and collections show it. */
+export type OutputTile = {
+  imageId: string;
+  outputIndex: number;
+  prompt: string;
+  aspectRatio: string;
+  url: string | null;
+  thumbnailUrl: string | null;
+};
+
+export type FavoriteTile = OutputTile & { favorite: true; rating?: number };
+
+export type Collection = {
+  _id: string;
+  name: string;
+  description?: string;
+  coverItemId?: string;
+  itemCount: number;
+  coverUrl: string | null;
+  updatedAt: number;
+};
+
+export type CollectionDetail = Omit<Collection, "itemCount" | "coverUrl"> & {
+  items: (OutputTile & { itemId: string })[];
+};
+
+export type Tally = { value: string; count: number }[];
+
+export type OutcomeCounts = Record<
+  "complete" | "partial" | "failed" | "blocked" | "cancelled",
+  number
+>;
+
+export type AnalyticsSummary = {
+  days: string[];
+  totals: {
+    generations: number;
+    images: number;
+    outcomes: OutcomeCounts;
+    successRate: number | null;
+    p50Ms: number | null;
+    p95Ms: number | null;
+  };
+  models: {
+    provider: string;
+    model: string;
+    generations: number;
+    outcomes: OutcomeCounts;
+    successRate: number | null;
+    p50Ms: number | null;
+    p95Ms: number | null;
+  }[];
+  daily: { day: string; generations: number; images: number; failed: number }[];
+  errors: Tally;
+  aspectRatios: Tally;
+  resolutions: Tally;
+};
+
+export type ArchiveExport = {
+  url: string | null;
+  fileName: string;
+  generations: number;
+  byteSize: number;
+};
+
+export type ShareSummary = {
+  _id: string;
+  kind: "generation" | "collection";
+  title: string;
+  url: string | null;
+  hidePrompt: boolean;
+  views: number;
+  lastViewedAt?: number;
+  expiresAt?: number;
+  createdAt: number;
+};
 
 export const api = {
+  apiKeys: {
+    list: makeFunctionReference<"query">("apiKeys:list"),
+    create: makeFunctionReference<"mutation">("apiKeys:create"),
+    revoke: makeFunctionReference<"mutation">("apiKeys:revoke"),
+    requests: makeFunctionReference<"query">("apiKeys:requests"),
+  },
   images: {
-    list: makeFunctionReference<"query">("images:list"),
-    generate: makeFunctionReference<"action">("images:generate"),
+    list: makeFunctionReference<
+      "query",
+      GalleryQueryArgs & { paginationOpts: PaginationOptions },
+      PaginationResult<unknown>
+    >("images:list"),
+    count: makeFunctionReference<"query", GalleryQueryArgs, { count: number; capped: boolean }>(
+      "images:count"
+    ),
+    generate: makeFunctionReference<"mutation">("images:generate"),
+    cancel: makeFunctionReference<"mutation">("images:cancel"),
+    generateUploadUrl: makeFunctionReference<"mutation", { sha256: string }, string>(
+      "images:generateUploadUrl"
+    ),
+    setWorkspace: makeFunctionReference<"mutation">("images:setWorkspace"),
+    variations: makeFunctionReference<"mutation">("images:variations"),
+    upscale: makeFunctionReference<"mutation">("images:upscale"),
+    lineage: makeFunctionReference<"query">("images:lineage"),
+    get: makeFunctionReference<"query">("images:get"),
+    remove: makeFunctionReference<"mutation">("images:remove"),
+    restore: makeFunctionReference<"mutation">("images:restore"),
+    purge: makeFunctionReference<"mutation">("images:purge"),
+  },
+  providers: {
+    list: makeFunctionReference<"query">("providers:list"),
+  },
+  ratings: {
+    set: makeFunctionReference<"mutation">("ratings:set"),
+    favorites: makeFunctionReference<
+      "query",
+      { paginationOpts: PaginationOptions },
+      PaginationResult<FavoriteTile>
+    >("ratings:favorites"),
+  },
+  collections: {
+    list: makeFunctionReference<"query", Record<string, never>, Collection[]>("collections:list"),
+    get: makeFunctionReference<"query", { id: string }, CollectionDetail | null>("collections:get"),
+    create: makeFunctionReference<"mutation">("collections:create"),
+    update: makeFunctionReference<"mutation">("collections:update"),
+    remove: makeFunctionReference<"mutation">("collections:remove"),
+    addItem: makeFunctionReference<"mutation">("collections:addItem"),
+    removeItem: makeFunctionReference<"mutation">("collections:removeItem"),
+    reorder: makeFunctionReference<"mutation">("collections:reorder"),
+    setCover: makeFunctionReference<"mutation">("collections:setCover"),
+  },
+  analytics: {
+    dashboard: makeFunctionReference<"query", { days: number }, AnalyticsSummary>(
+      "analytics:dashboard"
+    ),
+  },
+  archives: {
+    exportGenerations: makeFunctionReference<
+      "action",
+      GalleryQueryArgs & { ids?: string[] },
+      ArchiveExport
+    >("archives:exportGenerations"),
+    importArchive: makeFunctionReference<
+      "action",
+      { storageId: string },
+      { imported: number; skipped: number }
+    >("archives:importArchive"),
+  },
+  shares: {
+    list: makeFunctionReference<"query", Record<string, never>, ShareSummary[]>("shares:list"),
+    create: makeFunctionReference<
+      "mutation",
+      { imageId?: string; collectionId?: string; hidePrompt?: boolean; expiresInDays?: number },
+      { _id: string; url: string | null }
+    >("shares:create"),
+    revoke: makeFunctionReference<"mutation">("shares:revoke"),
+  },
+  batches: {
+    preview: makeFunctionReference<"query">("batches:preview"),
+    create: makeFunctionReference<"mutation">("batches:create"),
+    list: makeFunctionReference<"query">("batches:list"),
+    get: makeFunctionReference<"query">("batches:get"),
+    cancel: makeFunctionReference<"mutation">("batches:cancel"),
+  },
+  templates: {
+    list: makeFunctionReference<"query", Record<string, never>, PromptTemplate[]>("templates:list"),
+    create: makeFunctionReference<"mutation">("templates:create"),
+    update: makeFunctionReference<"mutation">("templates:update"),
+    remove: makeFunctionReference<"mutation">("templates:remove"),
+    preview: makeFunctionReference<
+      "query",
+      { id: string; values: Record<string, string>; preset?: string },
+      TemplatePreview
+    >("templates:preview"),
+  },
+  usage: {
+    summary: makeFunctionReference<"query", Record<string, never>, UsageSummary>("usage:summary"),
+  },
+  users: {
+    viewer: makeFunctionReference<"query", Record<string, never>, Viewer | null>("users:viewer"),
+  },
+  workspaces: {
+    list: makeFunctionReference<"query">("workspaces:list"),
+    create: makeFunctionReference<"mutation">("workspaces:create"),
+    addMember: makeFunctionReference<"mutation">("workspaces:addMember"),
   },
 };
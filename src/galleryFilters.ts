@@ -0,0 +1,83 @@
+export type GalleryFilterState = {
+  /** Empty for the caller's own generations, otherwise a workspace id. */
+  workspace: string;
+  /** "1" while browsing the trash. */
+  trash: string;
+  /** Empty for the feed, `FAVORITES_BOARD`, or a collection id. */
+  board: string;
+  search: string;
+  provider: string;
+  model: string;
+  status: string;
+  aspectRatio: string;
+  from: string;
+  to: string;
+};
+
+export const FAVORITES_BOARD = "favorites";
+
+export const emptyGalleryFilters: GalleryFilterState = {
+  workspace: "",
+  trash: "",
+  board: "",
+  search: "",
+  provider: "",
+  model: "",
+  status: "",
+  aspectRatio: "",
+  from: "",
+  to: "",
+};
+
+const filterKeys = Object.keys(emptyGalleryFilters) as (keyof GalleryFilterState)[];
+
+export const readFiltersFromUrl = (): GalleryFilterState => {
+  if (typeof window === "undefined") {
+    return emptyGalleryFilters;
+  }
+
+  const params = new URLSearchParams(window.location.search);
+  return filterKeys.reduce(
+    (filters, key) => ({ ...filters, [key]: params.get(key) ?? "" }),
+    emptyGalleryFilters
+  );
+};
+
+/** Mirrors the filters into the query string so a filtered view can be shared. */
+export const writeFiltersToUrl = (filters: GalleryFilterState) => {
+  const params = new URLSearchParams(window.location.search);
+  for (const key of filterKeys) {
+    if (filters[key]) {
+      params.set(key, filters[key]);
+    } else {
+      params.delete(key);
+    }
+  }
+
+  const query = params.toString();
+  const nextUrl = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+  window.history.replaceState(null, "", nextUrl);
+};
+
+const startOfDay = (value: string) => new Date(`${value}T00:00:00`).getTime();
+const endOfDay = (value: string) => new Date(`${value}T23:59:59.999`).getTime();
+
+export const toGalleryQueryArgs = (filters: GalleryFilterState) => ({
+  workspaceId: filters.workspace || undefined,
+  search: filters.search.trim() || undefined,
+  filters: {
+    provider: filters.provider || undefined,
+    model: filters.model || undefined,
+    status: filters.status || undefined,
+    aspectRatio: filters.aspectRatio || undefined,
+    createdAfter: filters.from ? startOfDay(filters.from) : undefined,
+    createdBefore: filters.to ? endOfDay(filters.to) : undefined,
+    trashed: filters.trash === "1" || undefined,
+  },
+});
+
+/** Workspace, trash and board pick which gallery to show, so they are not filters to clear. */
+export const hasActiveFilters = (filters: GalleryFilterState) =>
+  filterKeys.some(
+    (key) => key !== "workspace" && key !== "trash" && key !== "board" && filters[key] !== ""
+  );
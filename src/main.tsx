@@ -1,14 +1,24 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
-import { ConvexProvider } from "convex/react";
+import { ConvexAuthProvider } from "@convex-dev/auth/react";
+import { Authenticated, AuthLoading, Unauthenticated } from "convex/react";
 import App from "./App.tsx";
+import SignInForm from "./components/SignInForm";
 import "./index.css";
 import { convex } from "./convexClient";
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
-    <ConvexProvider client={convex}>
-      <App />
-    </ConvexProvider>
+    <ConvexAuthProvider client={convex}>
+      <AuthLoading>
+        <div className="auth-loading">Loading...</div>
+      </AuthLoading>
+      <Unauthenticated>
+        <SignInForm />
+      </Unauthenticated>
+      <Authenticated>
+        <App />
+      </Authenticated>
+    </ConvexAuthProvider>
   </StrictMode>
 );
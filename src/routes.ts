@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+
+export type Route =
+  { kind: "generation"; id: string } | { kind: "batch"; id: string } | { kind: "analytics" } | null;
+
+const ROUTE_PATHS = {
+  generation: /^\/generations\/([^/]+)\/?$/,
+  batch: /^\/batches\/([^/]+)\/?$/,
+  analytics: /^\/analytics\/?$/,
+};
+
+export const generationPath = (id: string) => `/generations/${id}`;
+
+export const batchPath = (id: string) => `/batches/${id}`;
+
+export const ANALYTICS_PATH = "/analytics";
+
+const readRoute = (): Route => {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  const { pathname } = window.location;
+  const generationId = ROUTE_PATHS.generation.exec(pathname)?.[1];
+  if (generationId) {
+    return { kind: "generation", id: generationId };
+  }
+  const batchId = ROUTE_PATHS.batch.exec(pathname)?.[1];
+  if (batchId) {
+    return { kind: "batch", id: batchId };
+  }
+  return ROUTE_PATHS.analytics.test(pathname) ? { kind: "analytics" } : null;
+};
+
+/** Pushes a path while keeping the gallery filters in the query string. */
+export const navigate = (path: string) => {
+  if (path === window.location.pathname) {
+    return;
+  }
+  window.history.pushState(null, "", `${path}${window.location.search}`);
+  window.dispatchEvent(new PopStateEvent("popstate"));
+};
+
+/** The detail view named by the path, or null on the gallery. */
+export const useRoute = () => {
+  const [route, setRoute] = useState(readRoute);
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(readRoute());
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  return route;
+};
@@ -0,0 +1,29 @@
+type GenerateUploadUrl = (args: { sha256: string }) => Promise<string>;
+
+const sha256Hex = async (file: Blob) =>
+  Array.from(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", await file.arrayBuffer())),
+    (byte) => byte.toString(16).padStart(2, "0")
+  ).join("");
+
+/**
+ * Uploads a file to Convex storage and returns its storage id. The checksum is
+ * sent first so the server can tell the file belongs to the signed-in user.
+ */
+export const uploadFile = async (
+  generateUploadUrl: GenerateUploadUrl,
+  file: File,
+  contentType = file.type
+) => {
+  const uploadUrl = await generateUploadUrl({ sha256: await sha256Hex(file) });
+  const response = await fetch(uploadUrl, {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body: file,
+  });
+  if (!response.ok) {
+    throw new Error(`Upload failed for ${file.name}.`);
+  }
+  const { storageId } = (await response.json()) as { storageId: string };
+  return storageId;
+};
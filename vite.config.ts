@@ -1,7 +1,13 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // Convex functions run in an edge-like runtime; convex-test must be inlined to mock it.
+    environment: 'edge-runtime',
+    server: { deps: { inline: ['convex-test'] } },
+  },
 })